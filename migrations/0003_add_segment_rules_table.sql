@@ -0,0 +1,34 @@
+-- Migration: Add segment_rules table for configurable GHL tag → CallTools routing
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS segment_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100, -- lower values are evaluated first
+  match_mode TEXT NOT NULL DEFAULT 'contains', -- exact, contains
+  match_tags TEXT NOT NULL, -- comma-separated GHL tags (case-insensitive)
+  action TEXT NOT NULL DEFAULT 'sync', -- sync, exclude
+  calltools_bucket_id TEXT,
+  calltools_tag TEXT,
+  remove_bucket_ids TEXT, -- comma-separated CallTools bucket IDs
+  remove_tags TEXT, -- comma-separated CallTools tag names
+  mark_customer INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+  enabled INTEGER NOT NULL DEFAULT 1, -- 0 = false, 1 = true
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_rules_priority ON segment_rules(enabled, priority);
+
+CREATE TRIGGER IF NOT EXISTS update_segment_rules_timestamp
+AFTER UPDATE ON segment_rules
+BEGIN
+  UPDATE segment_rules SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Seed the rules that were previously hardcoded in ContactSyncService
+INSERT INTO segment_rules (name, priority, match_mode, match_tags, action, calltools_bucket_id, calltools_tag, remove_bucket_ids, remove_tags, mark_customer)
+VALUES
+  ('ACA Active Clients', 10, 'exact', 'aca active 2025,aca active 2026', 'sync', '11252', 'ACA Active client', '11237', 'ACA Cold lead', 1),
+  ('Customers', 20, 'contains', 'customer,client,won,purchased', 'exclude', NULL, NULL, NULL, NULL, 1),
+  ('ACA Cold Leads', 100, 'contains', 'cold,new lead,prospect', 'sync', '11237', 'ACA Cold lead', NULL, NULL, 0);
@@ -0,0 +1,18 @@
+-- Migration: Add sync_checkpoints table to persist incremental sync cursors
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sync_checkpoints (
+  name TEXT PRIMARY KEY, -- e.g. ghl_contacts
+  updated_after TEXT, -- ISO timestamp of the last processed contact change
+  start_after_id TEXT, -- GHL ID of the last processed contact (tie-breaker)
+  last_run_at TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Trigger to update updated_at timestamp
+CREATE TRIGGER IF NOT EXISTS update_sync_checkpoints_timestamp
+AFTER UPDATE ON sync_checkpoints
+BEGIN
+  UPDATE sync_checkpoints SET updated_at = CURRENT_TIMESTAMP WHERE name = NEW.name;
+END;
@@ -0,0 +1,31 @@
+-- Migration: Add sync_runs table for resumable, chunked full syncs
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  status TEXT NOT NULL DEFAULT 'queued', -- queued, running, paused, completed, failed
+  cursor_offset INTEGER NOT NULL DEFAULT 0, -- GHL contacts already fetched
+  chunk_size INTEGER NOT NULL DEFAULT 25, -- GHL contacts processed per invocation
+  total_contacts INTEGER, -- reported by GHL on the first chunk
+  total_processed INTEGER NOT NULL DEFAULT 0,
+  synced INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  excluded_customers INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0, -- chunk errors since the last successful chunk
+  last_error TEXT,
+  locked_until TEXT, -- set while an invocation is processing a chunk
+  started_at TEXT,
+  completed_at TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status);
+
+-- Trigger to update updated_at timestamp
+CREATE TRIGGER IF NOT EXISTS update_sync_runs_timestamp
+AFTER UPDATE ON sync_runs
+BEGIN
+  UPDATE sync_runs SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
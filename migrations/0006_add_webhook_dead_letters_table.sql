@@ -0,0 +1,26 @@
+-- Migration: Add webhook_dead_letters table for webhook jobs that exhausted their retries
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id TEXT NOT NULL, -- Cloudflare Queues message ID
+  source TEXT NOT NULL, -- webhook, workflow
+  ghl_contact_id TEXT NOT NULL,
+  payload TEXT, -- JSON webhook payload, if any
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  status TEXT NOT NULL DEFAULT 'dead', -- dead, requeued
+  requeued_at TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_status ON webhook_dead_letters(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_contact ON webhook_dead_letters(ghl_contact_id);
+
+-- Trigger to update updated_at timestamp
+CREATE TRIGGER IF NOT EXISTS update_webhook_dead_letters_timestamp
+AFTER UPDATE ON webhook_dead_letters
+BEGIN
+  UPDATE webhook_dead_letters SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,16 @@
+-- Migration: Add sync_events table recording every sync decision and side effect per contact
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sync_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ghl_contact_id TEXT NOT NULL,
+  calltools_contact_id TEXT,
+  event_type TEXT NOT NULL, -- classified, excluded, contact_created, contact_updated, bucket_added, bucket_removed, tag_added, tag_removed, marked_customer, failed
+  detail TEXT, -- rule name, bucket ID or tag name the event refers to
+  status TEXT NOT NULL DEFAULT 'success', -- success, failed
+  response_status INTEGER, -- CallTools HTTP status, when a CallTools call was made
+  message TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_events_contact ON sync_events(ghl_contact_id, id);
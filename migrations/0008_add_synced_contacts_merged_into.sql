@@ -0,0 +1,9 @@
+-- Migration: Track GHL contacts merged into a surviving duplicate
+-- Created: 2026-10-19
+
+-- GHL contact ID of the survivor; merged contacts are skipped by every sync
+ALTER TABLE synced_contacts ADD COLUMN merged_into TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_merged_into ON synced_contacts(merged_into);
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_phone ON synced_contacts(phone);
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_email ON synced_contacts(email);
@@ -0,0 +1,23 @@
+-- Migration: Add suppressed_phones table (Do-Not-Call list)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS suppressed_phones (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  phone TEXT NOT NULL UNIQUE, -- E.164
+  source TEXT NOT NULL DEFAULT 'manual', -- manual, import, ghl_dnd
+  reason TEXT,
+  ghl_contact_id TEXT, -- set for ghl_dnd entries so they can be lifted when DND is turned off
+  suppressed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppressed_phones_source ON suppressed_phones(source);
+CREATE INDEX IF NOT EXISTS idx_suppressed_phones_contact ON suppressed_phones(ghl_contact_id);
+
+-- Trigger to update updated_at timestamp
+CREATE TRIGGER IF NOT EXISTS update_suppressed_phones_timestamp
+AFTER UPDATE ON suppressed_phones
+BEGIN
+  UPDATE suppressed_phones SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
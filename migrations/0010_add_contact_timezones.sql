@@ -0,0 +1,14 @@
+-- Migration: Store inferred contact time zones and hold contacts outside their calling window
+-- Created: 2026-10-19
+
+-- IANA time zone and where it came from: ghl, state or area_code
+ALTER TABLE synced_contacts ADD COLUMN timezone TEXT;
+ALTER TABLE synced_contacts ADD COLUMN timezone_source TEXT;
+
+-- When a held contact's local calling window opens (UTC ISO timestamp)
+ALTER TABLE synced_contacts ADD COLUMN held_until TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_held_until ON synced_contacts(sync_status, held_until);
+
+-- Comma-separated timezone=bucket pairs, e.g. America/New_York=11300,America/Los_Angeles=11303
+ALTER TABLE segment_rules ADD COLUMN timezone_bucket_ids TEXT;
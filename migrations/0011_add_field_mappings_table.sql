@@ -0,0 +1,20 @@
+-- Migration: Add field_mappings table for copying GHL standard and custom fields to CallTools
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS field_mappings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ghl_field TEXT NOT NULL, -- GHL contact field, or custom.<field id or key> for a custom field
+  calltools_field TEXT NOT NULL, -- CallTools contact field, or custom.<name> for a custom field
+  transform TEXT NOT NULL DEFAULT 'none', -- none, uppercase, lowercase, date, lookup
+  transform_options TEXT, -- date output format (e.g. MM/DD/YYYY) or comma-separated from=to lookup pairs
+  default_value TEXT, -- used when the GHL value is empty or has no lookup entry
+  enabled INTEGER NOT NULL DEFAULT 1, -- 0 = false, 1 = true
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER IF NOT EXISTS update_field_mappings_timestamp
+AFTER UPDATE ON field_mappings
+BEGIN
+  UPDATE field_mappings SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,30 @@
+-- Migration: Add tenants table so each GHL location syncs with its own CallTools account
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS tenants (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  ghl_location_id TEXT NOT NULL UNIQUE,
+  ghl_api_key_secret TEXT NOT NULL, -- name of the Worker secret holding the location's GHL API key
+  calltools_api_key_secret TEXT NOT NULL, -- name of the Worker secret holding the CallTools API key
+  calltools_base_url TEXT, -- falls back to CALLTOOLS_BASE_URL
+  enabled INTEGER NOT NULL DEFAULT 1, -- 0 = false, 1 = true
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER IF NOT EXISTS update_tenants_timestamp
+AFTER UPDATE ON tenants
+BEGIN
+  UPDATE tenants SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- NULL means the default account configured through GHL_API_KEY / CALLTOOLS_API_KEY
+ALTER TABLE synced_contacts ADD COLUMN tenant_id INTEGER REFERENCES tenants(id);
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_tenant ON synced_contacts(tenant_id);
+
+-- NULL means the rule is shared by every tenant
+ALTER TABLE segment_rules ADD COLUMN tenant_id INTEGER REFERENCES tenants(id);
+
+-- Keeps the tenant of jobs that are requeued from the dead-letter table
+ALTER TABLE webhook_dead_letters ADD COLUMN tenant_id INTEGER;
@@ -0,0 +1,20 @@
+-- Migration: Add ghl_oauth_tokens table for GHL v2 (LeadConnector) OAuth installs
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS ghl_oauth_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  location_id TEXT NOT NULL UNIQUE,
+  company_id TEXT,
+  access_token TEXT NOT NULL,
+  refresh_token TEXT NOT NULL, -- single use; GHL returns a new one with every refresh
+  scope TEXT,
+  expires_at TEXT NOT NULL, -- ISO timestamp the access token stops working
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER IF NOT EXISTS update_ghl_oauth_tokens_timestamp
+AFTER UPDATE ON ghl_oauth_tokens
+BEGIN
+  UPDATE ghl_oauth_tokens SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
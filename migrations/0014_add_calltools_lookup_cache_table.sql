@@ -0,0 +1,22 @@
+-- Migration: Add calltools_lookup_cache table to remember CallTools tag and bucket IDs by name
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS calltools_lookup_cache (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account TEXT NOT NULL, -- 'default' or 'tenant:<id>'; IDs differ between CallTools accounts
+  kind TEXT NOT NULL CHECK(kind IN ('tag', 'bucket')),
+  name TEXT NOT NULL, -- lowercased
+  calltools_id TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(account, kind, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calltools_lookup_cache_id ON calltools_lookup_cache(account, kind, calltools_id);
+
+CREATE TRIGGER IF NOT EXISTS update_calltools_lookup_cache_timestamp
+AFTER UPDATE ON calltools_lookup_cache
+BEGIN
+  UPDATE calltools_lookup_cache SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
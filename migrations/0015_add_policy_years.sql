@@ -0,0 +1,15 @@
+-- Migration: Recognize "ACA Active <year>" tags for any year and store each client's policy year
+-- Created: 2026-10-19
+
+-- Latest policy year in the contact's GHL tags, for rules with match_mode 'year'
+ALTER TABLE synced_contacts ADD COLUMN policy_year INTEGER;
+
+-- When the yearly rollover moved the contact to the lapsed / renewal bucket
+ALTER TABLE synced_contacts ADD COLUMN policy_lapsed_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_policy_year ON synced_contacts(policy_year, policy_lapsed_at);
+
+-- match_mode 'year' matches tags like "aca active {year}" for the current or a later year
+UPDATE segment_rules
+SET match_mode = 'year', match_tags = 'aca active {year}'
+WHERE name = 'ACA Active Clients' AND match_mode = 'exact' AND match_tags = 'aca active 2025,aca active 2026';
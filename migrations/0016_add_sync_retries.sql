@@ -0,0 +1,10 @@
+-- Migration: Track retries of failed contact syncs
+-- Created: 2026-10-19
+
+-- Retries of a failed sync so far; reset once the contact syncs
+ALTER TABLE synced_contacts ADD COLUMN retry_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- When a failed contact may be retried next (UTC ISO timestamp); NULL means right away
+ALTER TABLE synced_contacts ADD COLUMN next_retry_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_synced_contacts_next_retry_at ON synced_contacts(sync_status, next_retry_at);
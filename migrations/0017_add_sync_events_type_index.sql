@@ -0,0 +1,5 @@
+-- Migration: Index sync events by type
+-- Created: 2026-10-19
+
+-- Finds the lapsed / renewal buckets the policy rollover moved clients into
+CREATE INDEX IF NOT EXISTS idx_sync_events_type ON sync_events(event_type, message);
@@ -0,0 +1,5 @@
+-- Migration: Count held contacts in sync runs
+-- Created: 2026-10-19
+
+-- Contacts held outside their calling window, queued again once it opens
+ALTER TABLE sync_runs ADD COLUMN held INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- Migration: Add ghl_oauth_states table to tie GHL install callbacks to an install the worker started
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS ghl_oauth_states (
+  state TEXT PRIMARY KEY, -- random, single use; sent to GHL and echoed back on the callback
+  expires_at TEXT NOT NULL, -- ISO timestamp after which the callback is rejected
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
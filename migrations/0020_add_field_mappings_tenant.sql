@@ -0,0 +1,5 @@
+-- Migration: Let tenants have their own field mappings
+-- Created: 2026-10-19
+
+-- NULL means the mapping is shared by every tenant
+ALTER TABLE field_mappings ADD COLUMN tenant_id INTEGER REFERENCES tenants(id);
@@ -3,6 +3,9 @@
  * For managing contacts in the CallTools dialer system
  */
 
+import { ApiError, CallToolsApiError, HttpTransport, HttpTransportOptions } from './http';
+import { CallToolsLookupCache } from '../services/callToolsLookupCache';
+
 export interface CallToolsContact {
   first_name: string;
   last_name?: string;
@@ -23,6 +26,8 @@ export interface CallToolsContactResponse {
   personal_email_address?: string;
   email?: string;
   bucket_id?: string;
+  buckets?: Array<string | number>; // IDs of every bucket the contact is in
+  tags?: Array<number | CallToolsTag>;
   created_at?: string;
   updated_at?: string;
 }
@@ -34,6 +39,11 @@ export interface CallToolsListResponse {
   per_page?: number;
 }
 
+export interface CallToolsTag {
+  id: number;
+  name: string;
+}
+
 export interface CallToolsBucket {
   id: string;
   name: string;
@@ -43,16 +53,30 @@ export interface CallToolsBucket {
   updated_at?: string;
 }
 
+/**
+ * Outcome of a CallTools side effect that doesn't throw on failure
+ * status is the HTTP status of the last request made, or null if none completed
+ */
+export interface CallToolsOperationResult {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+}
+
 export interface CallToolsBucketsResponse {
   buckets: CallToolsBucket[];
   total?: number;
 }
 
+
 export class CallToolsClient {
   private apiKey: string;
   private baseUrl: string = 'https://api.calltools.com/v1';
+  private http: HttpTransport;
+  private lookupCache?: CallToolsLookupCache;
 
-  constructor(apiKey: string, baseUrl?: string) {
+  // Without a lookup cache, every tag operation searches for the tag first
+  constructor(apiKey: string, baseUrl?: string, httpOptions?: HttpTransportOptions, lookupCache?: CallToolsLookupCache) {
     if (!apiKey) {
       throw new Error('CallTools API key is required but was not provided. Check CALLTOOLS_API_KEY environment variable.');
     }
@@ -60,6 +84,8 @@ export class CallToolsClient {
     if (baseUrl) {
       this.baseUrl = baseUrl;
     }
+    this.http = new HttpTransport(CallToolsApiError, httpOptions);
+    this.lookupCache = lookupCache;
     console.log(`CallTools client initialized with API key length: ${this.apiKey.length}`);
   }
 
@@ -75,26 +101,17 @@ export class CallToolsClient {
     console.log(`API key (last 10 chars): ...${this.apiKey.substring(this.apiKey.length - 10)}`);
     
     // Use Token format as per CallTools documentation
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Token ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(contact),
-    });
+    let response: Response;
+    try {
+      response = await this.request('/api/contacts/', 'POST', contact);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      throw error;
+    }
 
     console.log(`Response status: ${response.status}`);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`CallTools API error: ${response.status} - ${errorText}`);
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
-    }
 
-    const result = await response.json();
+    const result = await response.json<CallToolsContactResponse>();
     console.log(`Contact created successfully:`, JSON.stringify(result));
     return result;
   }
@@ -106,114 +123,99 @@ export class CallToolsClient {
     contactId: string,
     contact: Partial<CallToolsContact>
   ): Promise<CallToolsContactResponse> {
-    const response = await fetch(`${this.baseUrl}/api/contacts/${contactId}/`, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Token ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(contact),
-    });
+    const response = await this.request(`/api/contacts/${contactId}/`, 'PUT', contact);
+    return await response.json<CallToolsContactResponse>();
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
+  /**
+   * Get a contact by CallTools ID
+   * Returns null if the contact no longer exists
+   */
+  async getContact(contactId: string): Promise<CallToolsContactResponse | null> {
+    const response = await this.request(`/api/contacts/${contactId}/`, 'GET', undefined, [404]);
+
+    if (response.status === 404) {
+      return null;
     }
 
-    return await response.json();
+    return await response.json<CallToolsContactResponse>();
   }
 
   /**
-   * Get a contact by phone number
-   * CallTools API doesn't support external_id search, so we search by phone
+   * Find a contact by phone number
+   * The phone number must already be normalized to E.164 (see utils/phone)
+   * Throws on API errors so callers don't mistake an outage for "no contact" and create a duplicate
    */
-  async getContactByExternalId(externalId: string, phoneNumber?: string): Promise<CallToolsContactResponse | null> {
-    try {
-      // CallTools doesn't support external_id search, we must search by phone number
-      if (!phoneNumber) {
-        console.log(`No phone number provided, cannot search for contact`);
-        return null;
-      }
+  async findContactByPhone(phoneNumber: string): Promise<CallToolsContactResponse | null> {
+    const contacts = await this.findContactsByPhone(phoneNumber);
 
-      console.log(`Searching for contact by phone: ${phoneNumber}`);
-      
-      // Try to match the format stored in CallTools (_phone_numbers array)
-      // CallTools stores phone numbers in E.164 format with + prefix
-      let searchPhone = phoneNumber;
-      if (!searchPhone.startsWith('+')) {
-        // If no country code, assume US (+1)
-        const digitsOnly = searchPhone.replace(/[\s\-\(\)]/g, '');
-        if (digitsOnly.length === 10) {
-          searchPhone = `+1${digitsOnly}`;
-        } else if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
-          searchPhone = `+${digitsOnly}`;
-        } else {
-          searchPhone = `+${digitsOnly}`;
-        }
-      }
-      console.log(`Searching with phone_number parameter: ${searchPhone}`);
-      
-      // Use phone_number query parameter (documented in CallTools API)
-      const response = await fetch(
-        `${this.baseUrl}/api/contacts/?phone_number=${encodeURIComponent(searchPhone)}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Token ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    if (contacts.length === 0) {
+      console.log(`No contact found with phone: ${phoneNumber}`);
+      return null;
+    }
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          console.log(`No contact found with phone: ${phoneNumber} (404)`);
-          return null;
-        }
-        const errorText = await response.text();
-        throw new Error(
-          `CallTools API error: ${response.status} - ${errorText}`
-        );
-      }
+    // Return the first match
+    console.log(`Found contact: ID ${contacts[0].id}, Name: ${contacts[0].first_name} ${contacts[0].last_name}`);
+    return contacts[0];
+  }
 
-      const data: any = await response.json();
-      const contacts = data.results || data.contacts || [];
-      console.log(`phone_number query returned ${contacts.length} contacts`);
-      
-      if (contacts.length > 0) {
-        // Return the first match
-        console.log(`Found contact: ID ${contacts[0].id}, Name: ${contacts[0].first_name} ${contacts[0].last_name}`);
-        return contacts[0];
-      } else {
-        console.log(`No contact found with phone: ${phoneNumber}`);
-        return null;
-      }
-    } catch (error) {
-      console.error('Error fetching contact by phone:', error);
+  /**
+   * Find every contact with a phone number
+   * More than one result means the contact is duplicated in CallTools
+   */
+  async findContactsByPhone(phoneNumber: string): Promise<CallToolsContactResponse[]> {
+    // CallTools stores phone numbers in E.164 format with + prefix
+    console.log(`Searching for contact by phone: ${phoneNumber}`);
+
+    // Use phone_number query parameter (documented in CallTools API)
+    const contacts = await this.searchContacts(`phone_number=${encodeURIComponent(phoneNumber)}`);
+    console.log(`phone_number query returned ${contacts.length} contacts`);
+    return contacts;
+  }
+
+  /**
+   * Find a contact by email address
+   * Only exact (case-insensitive) matches are returned, in case the API treats the filter as a search
+   */
+  async findContactByEmail(email: string): Promise<CallToolsContactResponse | null> {
+    console.log(`Searching for contact by email: ${email}`);
+
+    const contacts = await this.searchContacts(`email=${encodeURIComponent(email)}`);
+    const wanted = email.trim().toLowerCase();
+    const match = contacts.find((contact) =>
+      [contact.personal_email_address, contact.email].some(
+        (candidate) => candidate?.trim().toLowerCase() === wanted
+      )
+    );
+
+    if (!match) {
+      console.log(`No contact found with email: ${email}`);
       return null;
     }
+
+    console.log(`Found contact by email: ID ${match.id}`);
+    return match;
   }
 
   /**
-   * Delete a contact from CallTools
+   * Run a contact list query, treating 404 as no results
    */
-  async deleteContact(contactId: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/api/contacts/${contactId}/`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Token ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+  private async searchContacts(query: string): Promise<CallToolsContactResponse[]> {
+    const response = await this.request(`/api/contacts/?${query}`, 'GET', undefined, [404]);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
+    if (response.status === 404) {
+      return [];
     }
+
+    const data: any = await response.json();
+    return data.results || data.contacts || [];
+  }
+
+  /**
+   * Delete a contact from CallTools
+   */
+  async deleteContact(contactId: string): Promise<void> {
+    await this.request(`/api/contacts/${contactId}/`, 'DELETE');
   }
 
   /**
@@ -250,8 +252,8 @@ export class CallToolsClient {
         })
       );
 
-      // Small delay between batches to respect rate limits
-      if (i + batchSize < contacts.length) {
+      // Small delay between batches to respect rate limits, unless a rate limiter already paces requests
+      if (!this.http.rateLimited && i + batchSize < contacts.length) {
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
@@ -263,108 +265,61 @@ export class CallToolsClient {
    * Add a tag to a contact
    * CallTools API: POST /api/contacts/{id}/tag/
    */
-  async addTagToContact(contactId: string, tagName: string): Promise<void> {
+  async addTagToContact(contactId: string, tagName: string): Promise<CallToolsOperationResult> {
     console.log(`Adding tag "${tagName}" to contact ${contactId}`);
+    let status: number | null = null;
     
     try {
-      // Step 1: Find or create the tag
-      const searchUrl = `${this.baseUrl}/api/alltags/?name=${encodeURIComponent(tagName)}`;
-      const searchResponse = await fetch(searchUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!searchResponse.ok) {
-        throw new Error(`Failed to search for tag: ${searchResponse.status}`);
-      }
-
-      const searchData = await searchResponse.json();
-      let tagId: number;
-
-      if (searchData.results && searchData.results.length > 0) {
-        // Tag exists, use it
-        tagId = searchData.results[0].id;
-        console.log(`Found existing tag "${tagName}" with ID: ${tagId}`);
-      } else {
-        // Tag doesn't exist, create it
-        console.log(`Tag "${tagName}" not found, creating it...`);
-        const createResponse = await fetch(`${this.baseUrl}/api/alltags/`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Token ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: tagName,
-          }),
-        });
-
-        if (!createResponse.ok) {
-          throw new Error(`Failed to create tag: ${createResponse.status}`);
-        }
-
-        const newTag = await createResponse.json();
-        tagId = newTag.id;
-        console.log(`Created new tag "${tagName}" with ID: ${tagId}`);
-      }
-
-      // Step 2: Add tag to contact via contact PATCH endpoint
+      // Step 1: Find or create the tag, then add it via the contact PATCH endpoint
       // Using contact endpoint is more reliable than tag endpoint
       const contactIdNum = parseInt(contactId);
-      console.log(`Adding tag ${tagId} ("${tagName}") to contact ${contactIdNum} via contact endpoint`);
-      console.log(`Request body: ${JSON.stringify({ add_tags: [tagId] })}`);
-      
-      const addResponse = await fetch(`${this.baseUrl}/api/contacts/${contactIdNum}/`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const addResponse = await this.withTagId(tagName, true, (tagId) => {
+        console.log(`Adding tag ${tagId} ("${tagName}") to contact ${contactIdNum} via contact endpoint`);
+        return this.request(`/api/contacts/${contactIdNum}/`, 'PATCH', {
           add_tags: [tagId],
-        }),
+        });
       });
 
-      if (!addResponse.ok) {
-        const errorText = await addResponse.text();
-        console.error(`Failed to add tag to contact: ${addResponse.status} - ${errorText}`);
-        throw new Error(`Failed to add tag to contact: ${addResponse.status} - ${errorText}`);
-      }
-
-      const addResult = await addResponse.json();
+      status = addResponse!.status;
+      const addResult: any = await addResponse!.json();
       console.log(`Contact PATCH response - tags: ${JSON.stringify(addResult.tags || [])}`);
-      console.log(`Successfully added tag "${tagName}" (ID: ${tagId}) to contact ${contactId}`);
+      console.log(`Successfully added tag "${tagName}" to contact ${contactId}`);
+      return { ok: true, status };
     } catch (error) {
       console.error(`Error adding tag: ${error}`);
       // Don't throw error - tagging failure shouldn't break the sync
       console.warn(`Tag "${tagName}" could not be added, continuing anyway`);
+      return {
+        ok: false,
+        status: error instanceof ApiError ? error.status : status,
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
   /**
-   * Get all buckets/lists
+   * Get all tags, from every page
    */
-  async getBuckets(): Promise<CallToolsBucket[]> {
-    const response = await fetch(`${this.baseUrl}/api/lists/`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Token ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+  async getTags(): Promise<CallToolsTag[]> {
+    return await this.getAllPages<CallToolsTag>('/api/alltags/');
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
+  /**
+   * Get a tag's ID by name, or null if CallTools has no such tag
+   */
+  async getTagId(tagName: string): Promise<number | null> {
+    const cachedId = await this.lookupCache?.get('tag', tagName);
+    if (cachedId) {
+      return parseInt(cachedId);
     }
+    return await this.findTagId(tagName, false);
+  }
 
-    const data: any = await response.json();
-    return data.results || [];
+  /**
+   * Get all buckets/lists, from every page
+   */
+  async getBuckets(): Promise<CallToolsBucket[]> {
+    return await this.getAllPages<CallToolsBucket>('/api/lists/');
   }
 
   /**
@@ -373,8 +328,17 @@ export class CallToolsClient {
    */
   async getOrCreateBucket(bucketName: string): Promise<string> {
     try {
+      const cachedId = await this.lookupCache?.get('bucket', bucketName);
+      if (cachedId) {
+        return cachedId;
+      }
+
       // First, try to get existing buckets
       const buckets = await this.getBuckets();
+      await this.lookupCache?.setMany(
+        'bucket',
+        buckets.map((bucket) => ({ name: bucket.name, calltools_id: String(bucket.id) }))
+      );
       const existingBucket = buckets.find(
         (b) => b.name.toLowerCase() === bucketName.toLowerCase()
       );
@@ -385,28 +349,7 @@ export class CallToolsClient {
       }
 
       // If bucket doesn't exist, create it
-      console.log(`Creating new bucket: ${bucketName}`);
-      const response = await fetch(`${this.baseUrl}/api/buckets/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: bucketName,
-          description: `Auto-created bucket for ${bucketName} contacts`,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `CallTools API error: ${response.status} - ${errorText}`
-        );
-      }
-
-      const newBucket: CallToolsBucket = await response.json();
-      console.log(`Created bucket: ${bucketName} (${newBucket.id})`);
+      const newBucket = await this.createBucket(bucketName, `Auto-created bucket for ${bucketName} contacts`);
       return newBucket.id;
     } catch (error) {
       console.error('Error getting/creating bucket:', error);
@@ -415,122 +358,215 @@ export class CallToolsClient {
   }
 
   /**
-   * Add a contact to a bucket
-   * CallTools uses PATCH with add_contacts array
+   * Create a bucket
    */
-  async addContactToBucket(contactId: string, bucketId: string): Promise<void> {
-    const response = await fetch(
-      `${this.baseUrl}/api/buckets/${bucketId}/`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          add_contacts: [parseInt(contactId)],
-        }),
-      }
-    );
+  async createBucket(name: string, description?: string): Promise<CallToolsBucket> {
+    console.log(`Creating new bucket: ${name}`);
+    const response = await this.request('/api/buckets/', 'POST', {
+      name,
+      ...(description !== undefined && { description }),
+    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
+    const newBucket = await response.json<CallToolsBucket>();
+    await this.lookupCache?.set('bucket', name, String(newBucket.id));
+    console.log(`Created bucket: ${name} (${newBucket.id})`);
+    return newBucket;
+  }
+
+  /**
+   * Rename a bucket and/or change its description
+   */
+  async updateBucket(bucketId: string, changes: { name?: string; description?: string }): Promise<CallToolsBucket> {
+    const response = await this.patchBucket(bucketId, changes);
+    const bucket = await response.json<CallToolsBucket>();
+
+    if (changes.name !== undefined) {
+      // The old name no longer points at this bucket
+      await this.lookupCache?.invalidate('bucket', bucketId);
+      await this.lookupCache?.set('bucket', changes.name, bucketId);
     }
+    return bucket;
+  }
+
+  /**
+   * Add a contact to a bucket
+   * CallTools uses PATCH with add_contacts array
+   * Returns the HTTP status of the PATCH
+   */
+  async addContactToBucket(contactId: string, bucketId: string): Promise<number> {
+    const response = await this.patchBucket(bucketId, {
+      add_contacts: [parseInt(contactId)],
+    });
+    return response.status;
   }
 
   /**
    * Remove a contact from a bucket
    * CallTools uses PATCH with remove_contacts array
+   * Returns the HTTP status of the PATCH
    */
-  async removeContactFromBucket(contactId: string, bucketId: string): Promise<void> {
-    const response = await fetch(
-      `${this.baseUrl}/api/buckets/${bucketId}/`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          remove_contacts: [parseInt(contactId)],
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `CallTools API error: ${response.status} - ${errorText}`
-      );
-    }
+  async removeContactFromBucket(contactId: string, bucketId: string): Promise<number> {
+    const response = await this.patchBucket(bucketId, {
+      remove_contacts: [parseInt(contactId)],
+    });
+    return response.status;
   }
 
   /**
    * Remove a tag from a contact
    * CallTools API: PATCH /api/alltags/{tagId}/ with remove_contacts
    */
-  async removeTagFromContact(contactId: string, tagName: string): Promise<void> {
+  async removeTagFromContact(contactId: string, tagName: string): Promise<CallToolsOperationResult> {
     console.log(`Removing tag "${tagName}" from contact ${contactId}`);
+    let status: number | null = null;
     
     try {
-      // Step 1: Find the tag
-      const searchUrl = `${this.baseUrl}/api/alltags/?name=${encodeURIComponent(tagName)}`;
-      const searchResponse = await fetch(searchUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!searchResponse.ok) {
-        throw new Error(`Failed to search for tag: ${searchResponse.status}`);
-      }
-
-      const searchData = await searchResponse.json();
-
-      if (!searchData.results || searchData.results.length === 0) {
-        // Tag doesn't exist, nothing to remove
-        console.log(`Tag "${tagName}" not found, nothing to remove`);
-        return;
-      }
-
-      const tagId = searchData.results[0].id;
-      console.log(`Found tag "${tagName}" with ID: ${tagId}`);
-
-      // Step 2: Remove tag from contact via contact PATCH endpoint
+      // Step 1: Find the tag, then remove it via the contact PATCH endpoint
       // Using contact endpoint is more reliable than tag endpoint
       const contactIdNum = parseInt(contactId);
-      console.log(`Removing tag ${tagId} ("${tagName}") from contact ${contactIdNum} via contact endpoint`);
-      console.log(`Request body: ${JSON.stringify({ remove_tags: [tagId] })}`);
-      
-      const removeResponse = await fetch(`${this.baseUrl}/api/contacts/${contactIdNum}/`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Token ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const removeResponse = await this.withTagId(tagName, false, (tagId) => {
+        console.log(`Removing tag ${tagId} ("${tagName}") from contact ${contactIdNum} via contact endpoint`);
+        return this.request(`/api/contacts/${contactIdNum}/`, 'PATCH', {
           remove_tags: [tagId],
-        }),
+        });
       });
 
-      if (!removeResponse.ok) {
-        const errorText = await removeResponse.text();
-        console.error(`Failed to remove tag from contact: ${removeResponse.status} - ${errorText}`);
-        throw new Error(`Failed to remove tag from contact: ${removeResponse.status} - ${errorText}`);
+      if (!removeResponse) {
+        // Tag doesn't exist, nothing to remove
+        console.log(`Tag "${tagName}" not found, nothing to remove`);
+        return { ok: true, status };
       }
 
-      const removeResult = await removeResponse.json();
+      status = removeResponse.status;
+      const removeResult: any = await removeResponse.json();
       console.log(`Contact PATCH response - tags: ${JSON.stringify(removeResult.tags || [])}`);
-      console.log(`Successfully removed tag "${tagName}" (ID: ${tagId}) from contact ${contactId}`);
+      console.log(`Successfully removed tag "${tagName}" from contact ${contactId}`);
+      return { ok: true, status };
     } catch (error) {
       console.error(`Error removing tag: ${error}`);
       // Don't throw error - tag removal failure shouldn't break the sync
       console.warn(`Tag "${tagName}" could not be removed, continuing anyway`);
+      return {
+        ok: false,
+        status: error instanceof ApiError ? error.status : status,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Send a request that needs a tag's ID, using the cached ID when there is one
+   * A cached ID that CallTools no longer knows is dropped and looked up again
+   * Returns null if the tag doesn't exist and create is false
+   */
+  private async withTagId(
+    tagName: string,
+    create: boolean,
+    send: (tagId: number) => Promise<Response>
+  ): Promise<Response | null> {
+    const cachedId = await this.lookupCache?.get('tag', tagName);
+    if (cachedId) {
+      try {
+        return await send(parseInt(cachedId));
+      } catch (error) {
+        if (!isStaleLookupError(error)) throw error;
+        console.warn(`Cached ID ${cachedId} for tag "${tagName}" was rejected, looking it up again`);
+        await this.lookupCache!.invalidate('tag', cachedId);
+      }
+    }
+
+    const tagId = await this.findTagId(tagName, create);
+    return tagId === null ? null : await send(tagId);
+  }
+
+  /**
+   * Search for a tag by name, creating it if asked to, and cache its ID
+   */
+  private async findTagId(tagName: string, create: boolean): Promise<number | null> {
+    const searchResponse = await this.request(`/api/alltags/?name=${encodeURIComponent(tagName)}`, 'GET');
+    const searchData: any = await searchResponse.json();
+
+    let tagId: number;
+    if (searchData.results && searchData.results.length > 0) {
+      // Tag exists, use it
+      tagId = searchData.results[0].id;
+      console.log(`Found existing tag "${tagName}" with ID: ${tagId}`);
+    } else if (create) {
+      // Tag doesn't exist, create it
+      console.log(`Tag "${tagName}" not found, creating it...`);
+      const createResponse = await this.request('/api/alltags/', 'POST', {
+        name: tagName,
+      });
+      const newTag: any = await createResponse.json();
+      tagId = newTag.id;
+      console.log(`Created new tag "${tagName}" with ID: ${tagId}`);
+    } else {
+      return null;
+    }
+
+    await this.lookupCache?.set('tag', tagName, String(tagId));
+    return tagId;
+  }
+
+  /**
+   * PATCH a bucket, dropping its cached name when CallTools says it no longer exists
+   */
+  private async patchBucket(bucketId: string, body: Record<string, unknown>): Promise<Response> {
+    try {
+      return await this.request(`/api/buckets/${bucketId}/`, 'PATCH', body);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        await this.lookupCache?.invalidate('bucket', bucketId);
+      }
+      throw error;
     }
   }
+
+  /**
+   * Read a paginated list endpoint to the end, following the next link of each page
+   * Links off this client's base URL aren't followed, so the API key never leaves the account's host
+   */
+  private async getAllPages<T>(path: string): Promise<T[]> {
+    const results: T[] = [];
+    let nextPath: string | null = path;
+
+    while (nextPath) {
+      const response = await this.request(nextPath, 'GET');
+      const data: { results?: T[]; next?: string | null } = await response.json();
+      results.push(...(data.results || []));
+
+      if (data.next && !data.next.startsWith(`${this.baseUrl}/`)) {
+        throw new Error(`CallTools returned a next page outside ${this.baseUrl}: ${data.next}`);
+      }
+      nextPath = data.next ? data.next.slice(this.baseUrl.length) : null;
+    }
+
+    return results;
+  }
+
+  /**
+   * Send an authenticated request through the shared transport
+   */
+  private async request(path: string, method: string, body?: unknown, allowStatuses: number[] = []): Promise<Response> {
+    return await this.http.request(
+      `${this.baseUrl}${path}`,
+      {
+        method,
+        headers: {
+          'Authorization': `Token ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      allowStatuses
+    );
+  }
+}
+
+/**
+ * Whether CallTools rejected a request because a tag ID no longer exists
+ * Unknown IDs in add_tags/remove_tags come back as 400 or 404 depending on the endpoint
+ */
+function isStaleLookupError(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 400 || error.status === 404);
 }
@@ -3,6 +3,8 @@
  * Documentation: https://highlevel.stoplight.io/docs/integrations/
  */
 
+import { GhlApiError, HttpTransport, HttpTransportOptions } from './http';
+
 export interface GHLContact {
   id: string;
   name: string;
@@ -12,7 +14,23 @@ export interface GHLContact {
   phone?: string;
   tags?: string[];
   customFields?: Record<string, any>;
+  customField?: Array<{ id: string; value: any }>; // Custom field values as returned by the contacts API
   dateAdded?: string;
+  dateUpdated?: string;
+  dnd?: boolean; // Do Not Disturb - the contact opted out of calls and messages
+  state?: string;
+  country?: string;
+  timezone?: string; // IANA time zone set on the contact in GHL
+}
+
+// Fields a contact is created or updated with
+export interface GHLContactInput {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  tags?: string[];
+  state?: string;
 }
 
 export interface GHLContactsResponse {
@@ -20,26 +38,57 @@ export interface GHLContactsResponse {
   meta?: {
     total: number;
     nextPageUrl?: string;
+    startAfterId?: string;
+    startAfter?: number;
   };
 }
 
-export class GoHighLevelClient {
+export interface GHLContactCursor {
+  updatedAfter: string | null;
+  startAfterId: string | null;
+}
+
+export interface GHLContactQuery {
+  tags?: string[];
+  query?: string;
+  limit?: number;
+  skip?: number;
+  startAfter?: number;
+  startAfterId?: string;
+  sortBy?: 'date_added' | 'date_updated';
+  order?: 'asc' | 'desc';
+}
+
+export interface GHLContactsPage {
+  contacts: GHLContact[];
+  hasMore: boolean;
+  nextCursor: GHLContactCursor;
+}
+
+/**
+ * Contact reads and writes shared by the v1 API key client and the v2 OAuth client
+ */
+export interface GHLClient {
+  getContacts(params?: GHLContactQuery): Promise<GHLContactsResponse>;
+  getContactsUpdatedSince(cursor: GHLContactCursor, limit?: number): Promise<GHLContactsPage>;
+  getContact(contactId: string): Promise<GHLContact>;
+  upsertContact(contact: GHLContactInput): Promise<GHLContact>;
+}
+
+export class GoHighLevelClient implements GHLClient {
   private apiKey: string;
   private baseUrl: string = 'https://rest.gohighlevel.com/v1';
+  private http: HttpTransport;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, httpOptions?: HttpTransportOptions) {
     this.apiKey = apiKey;
+    this.http = new HttpTransport(GhlApiError, httpOptions);
   }
 
   /**
    * Fetch contacts from GoHighLevel with optional filters
    */
-  async getContacts(params?: {
-    tags?: string[];
-    query?: string;
-    limit?: number;
-    skip?: number;
-  }): Promise<GHLContactsResponse> {
+  async getContacts(params?: GHLContactQuery): Promise<GHLContactsResponse> {
     const queryParams = new URLSearchParams();
     
     if (params?.tags && params.tags.length > 0) {
@@ -58,105 +107,104 @@ export class GoHighLevelClient {
       queryParams.set('skip', params.skip.toString());
     }
 
-    const response = await fetch(
-      `${this.baseUrl}/contacts/?${queryParams.toString()}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    if (params?.startAfter) {
+      queryParams.set('startAfter', params.startAfter.toString());
+    }
+
+    if (params?.startAfterId) {
+      queryParams.set('startAfterId', params.startAfterId);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `GoHighLevel API error: ${response.status} - ${errorText}`
-      );
+    if (params?.sortBy) {
+      queryParams.set('sortBy', params.sortBy);
+      queryParams.set('order', params.order || 'asc');
     }
 
-    return await response.json();
+    const response = await this.request(`/contacts/?${queryParams.toString()}`);
+    return await response.json<GHLContactsResponse>();
   }
 
   /**
-   * Get cold contacts (contacts with "cold lead" tag)
-   * Excluding customers (contacts with "customer" tag or in customer pipeline stage)
+   * Fetch one page of contacts added or updated after a cursor, oldest first
+   * Used by the scheduled incremental sync
    */
-  async getColdContactsExcludingCustomers(): Promise<GHLContact[]> {
-    const allContacts: GHLContact[] = [];
-    let skip = 0;
-    const limit = 100;
-    let hasMore = true;
-
-    // Fetch all contacts in batches
-    while (hasMore) {
-      const response = await this.getContacts({ limit, skip });
-      
-      if (response.contacts && response.contacts.length > 0) {
-        allContacts.push(...response.contacts);
-        skip += limit;
-        
-        // Check if there are more pages
-        hasMore = response.contacts.length === limit;
-      } else {
-        hasMore = false;
-      }
-    }
-
-    // Filter for cold contacts, excluding customers
-    const coldContacts = allContacts.filter(contact => {
-      const tags = (contact.tags || []).map(t => t.toLowerCase());
-      
-      // Check if contact is a customer (exclude these)
-      const isCustomer = tags.some(tag => 
-        tag.includes('customer') || 
-        tag.includes('client') ||
-        tag.includes('won') ||
-        tag.includes('purchased')
-      );
-      
-      if (isCustomer) {
-        return false;
-      }
-      
-      // Check if contact has "cold lead" tag
-      const isCold = tags.some(tag => 
-        tag === 'cold lead' ||
-        tag.includes('cold') ||
-        tag.includes('new lead') ||
-        tag.includes('prospect')
-      );
-      
-      return isCold;
-    });
-
-    return coldContacts;
+  async getContactsUpdatedSince(cursor: GHLContactCursor, limit: number = 100): Promise<GHLContactsPage> {
+    return await fetchContactsUpdatedSince(this, cursor, limit);
   }
 
   /**
    * Get a specific contact by ID
    */
   async getContact(contactId: string): Promise<GHLContact> {
-    const response = await fetch(
-      `${this.baseUrl}/contacts/${contactId}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `GoHighLevel API error: ${response.status} - ${errorText}`
-      );
-    }
+    const response = await this.request(`/contacts/${contactId}`);
+    const data = await response.json<{ contact: GHLContact }>();
+    return data.contact;
+  }
 
-    const data = await response.json() as { contact: GHLContact };
+  /**
+   * Create a contact, or update the one GHL matches by email or phone
+   */
+  async upsertContact(contact: GHLContactInput): Promise<GHLContact> {
+    const response = await this.request('/contacts/', 'POST', contact);
+    const data = await response.json<{ contact: GHLContact }>();
     return data.contact;
   }
+
+  /**
+   * Send an authenticated request through the shared transport
+   */
+  private async request(path: string, method: string = 'GET', body?: unknown): Promise<Response> {
+    return await this.http.request(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+}
+
+/**
+ * Cursor paging behind getContactsUpdatedSince
+ * Each client translates the sorted query to its own API
+ */
+export async function fetchContactsUpdatedSince(
+  client: Pick<GHLClient, 'getContacts'>,
+  cursor: GHLContactCursor,
+  limit: number
+): Promise<GHLContactsPage> {
+  const response = await client.getContacts({
+    limit,
+    sortBy: 'date_updated',
+    order: 'asc',
+    startAfter: cursor.updatedAfter ? Date.parse(cursor.updatedAfter) : undefined,
+    startAfterId: cursor.startAfterId || undefined,
+  });
+
+  const page = response.contacts || [];
+  const since = cursor.updatedAfter ? Date.parse(cursor.updatedAfter) : 0;
+
+  // Guard against the API returning rows at or before the cursor
+  const contacts = page.filter((contact) => {
+    const changedAt = Date.parse(contact.dateUpdated || contact.dateAdded || '');
+    if (Number.isNaN(changedAt)) return true;
+    if (changedAt > since) return true;
+    return changedAt === since && contact.id !== cursor.startAfterId;
+  });
+
+  // Advance from the raw page so a page of stale rows still moves the cursor forward
+  const last = page[page.length - 1];
+  const nextCursor: GHLContactCursor = last
+    ? {
+        updatedAfter: last.dateUpdated || last.dateAdded || cursor.updatedAfter,
+        startAfterId: last.id,
+      }
+    : cursor;
+
+  return {
+    contacts,
+    hasMore: page.length === limit,
+    nextCursor,
+  };
 }
@@ -0,0 +1,168 @@
+/**
+ * HTTP transport shared by the API clients
+ * Adds timeouts, retries with backoff and typed errors to fetch
+ */
+
+export interface HttpTransportOptions {
+  timeoutMs?: number;
+  maxRetries?: number; // retries after the first attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number; // longest wait between attempts, including Retry-After
+  rateLimiter?: RateLimiter;
+}
+
+/**
+ * Hands out permits to send requests; acquire() resolves once the request may go out
+ */
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * A failed API request
+ * status is null when no response arrived (network error or timeout)
+ */
+export class ApiError extends Error {
+  status: number | null;
+  body: string;
+  retryable: boolean;
+  retryAfterMs: number | null;
+
+  constructor(service: string, status: number | null, body: string, retryable: boolean, retryAfterMs: number | null = null) {
+    super(`${service} API error: ${status ?? 'network'} - ${body}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class CallToolsApiError extends ApiError {
+  constructor(status: number | null, body: string, retryable: boolean, retryAfterMs: number | null = null) {
+    super('CallTools', status, body, retryable, retryAfterMs);
+    this.name = 'CallToolsApiError';
+  }
+}
+
+export class GhlApiError extends ApiError {
+  constructor(status: number | null, body: string, retryable: boolean, retryAfterMs: number | null = null) {
+    super('GoHighLevel', status, body, retryable, retryAfterMs);
+    this.name = 'GhlApiError';
+  }
+}
+
+type ApiErrorClass = new (status: number | null, body: string, retryable: boolean, retryAfterMs: number | null) => ApiError;
+
+const DEFAULT_OPTIONS: Required<Omit<HttpTransportOptions, 'rateLimiter'>> = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+};
+
+export class HttpTransport {
+  private errorClass: ApiErrorClass;
+  private options: Required<Omit<HttpTransportOptions, 'rateLimiter'>>;
+  private rateLimiter?: RateLimiter;
+
+  constructor(errorClass: ApiErrorClass, options: HttpTransportOptions = {}) {
+    this.errorClass = errorClass;
+    const { rateLimiter, ...retryOptions } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...retryOptions };
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Whether requests wait for rate limiter permits
+   */
+  get rateLimited(): boolean {
+    return Boolean(this.rateLimiter);
+  }
+
+  /**
+   * Send a request, retrying transient failures
+   * Statuses in allowStatuses are returned instead of thrown, e.g. 404 for lookups
+   */
+  async request(url: string, init: RequestInit, allowStatuses: number[] = []): Promise<Response> {
+    // A POST that reached the server may have been applied, so it is only resent when rate limited
+    const idempotent = (init.method || 'GET').toUpperCase() !== 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+      let error: ApiError;
+
+      // Every attempt, retries included, needs its own permit
+      await this.rateLimiter?.acquire();
+
+      try {
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(this.options.timeoutMs) });
+        if (response.ok || allowStatuses.includes(response.status)) {
+          return response;
+        }
+
+        error = new this.errorClass(
+          response.status,
+          await response.text(),
+          isRetryableStatus(response.status),
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      } catch (caught) {
+        const timedOut = caught instanceof Error && caught.name === 'TimeoutError';
+        error = new this.errorClass(
+          null,
+          timedOut ? `Request timed out after ${this.options.timeoutMs}ms` : caught instanceof Error ? caught.message : String(caught),
+          true,
+          null
+        );
+      }
+
+      const delayMs = error.retryAfterMs ?? backoffDelay(attempt, this.options.baseDelayMs, this.options.maxDelayMs);
+      const canResend = idempotent || error.status === 429;
+
+      // A Retry-After longer than we can wait is left to the caller, e.g. a queue retry
+      if (!error.retryable || !canResend || attempt >= this.options.maxRetries || delayMs > this.options.maxDelayMs) {
+        throw error;
+      }
+
+      console.warn(`${error.message.slice(0, 200)}; retrying ${init.method || 'GET'} ${url} in ${delayMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Whether an error is worth retrying later
+ * Errors that didn't come from an API response (D1, configuration) are assumed transient
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiError ? error.retryable : true;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with jitter, so clients that failed together don't retry together
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
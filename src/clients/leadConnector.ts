@@ -0,0 +1,152 @@
+/**
+ * GoHighLevel API v2 (LeadConnector) Client
+ * Documentation: https://highlevel.stoplight.io/docs/integrations/
+ */
+
+import {
+  fetchContactsUpdatedSince,
+  GHLClient,
+  GHLContact,
+  GHLContactCursor,
+  GHLContactInput,
+  GHLContactQuery,
+  GHLContactsPage,
+  GHLContactsResponse,
+} from './gohighlevel';
+import { GhlApiError, HttpTransport, HttpTransportOptions } from './http';
+import { GhlOAuthService } from '../services/ghlOAuthService';
+
+// Contact as returned by the v2 API
+interface LeadConnectorContact extends Omit<GHLContact, 'name' | 'customFields' | 'customField'> {
+  contactName?: string;
+  customFields?: Array<{ id: string; value: any }>;
+}
+
+export const LEADCONNECTOR_API_VERSION = '2021-07-28';
+
+export class LeadConnectorClient implements GHLClient {
+  private locationId: string;
+  private tokens: GhlOAuthService;
+  private baseUrl: string = 'https://services.leadconnectorhq.com';
+  private http: HttpTransport;
+
+  constructor(locationId: string, tokens: GhlOAuthService, httpOptions?: HttpTransportOptions) {
+    this.locationId = locationId;
+    this.tokens = tokens;
+    this.http = new HttpTransport(GhlApiError, httpOptions);
+  }
+
+  /**
+   * Search the location's contacts
+   * Sorted queries page with searchAfter, everything else with page numbers
+   */
+  async getContacts(params?: GHLContactQuery): Promise<GHLContactsResponse> {
+    const limit = params?.limit || 100;
+    const body: Record<string, unknown> = {
+      locationId: this.locationId,
+      pageLimit: limit,
+    };
+
+    if (params?.query) {
+      body.query = params.query;
+    }
+
+    if (params?.tags && params.tags.length > 0) {
+      body.filters = [{ field: 'tags', operator: 'contains', value: params.tags }];
+    }
+
+    if (params?.sortBy) {
+      body.sort = [{
+        field: params.sortBy === 'date_updated' ? 'dateUpdated' : 'dateAdded',
+        direction: params.order || 'asc',
+      }];
+    }
+
+    if (params?.startAfter) {
+      body.searchAfter = params.startAfterId ? [params.startAfter, params.startAfterId] : [params.startAfter];
+    } else if (params?.skip) {
+      body.page = Math.floor(params.skip / limit) + 1;
+    }
+
+    const response = await this.request('/contacts/search', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json() as { contacts?: LeadConnectorContact[]; total?: number };
+    return {
+      contacts: (data.contacts || []).map(toGHLContact),
+      meta: { total: data.total ?? 0 },
+    };
+  }
+
+  /**
+   * Fetch one page of contacts added or updated after a cursor, oldest first
+   */
+  async getContactsUpdatedSince(cursor: GHLContactCursor, limit: number = 100): Promise<GHLContactsPage> {
+    return await fetchContactsUpdatedSince(this, cursor, limit);
+  }
+
+  /**
+   * Get a specific contact by ID
+   */
+  async getContact(contactId: string): Promise<GHLContact> {
+    const response = await this.request(`/contacts/${contactId}`, { method: 'GET' });
+    const data = await response.json() as { contact: LeadConnectorContact };
+    return toGHLContact(data.contact);
+  }
+
+  /**
+   * Create a contact, or update the one GHL matches by email or phone
+   * Needs the contacts.write scope
+   */
+  async upsertContact(contact: GHLContactInput): Promise<GHLContact> {
+    const response = await this.request('/contacts/upsert', {
+      method: 'POST',
+      body: JSON.stringify({ locationId: this.locationId, ...contact }),
+    });
+    const data = await response.json() as { contact: LeadConnectorContact };
+    return toGHLContact(data.contact);
+  }
+
+  /**
+   * Send an authenticated request, refreshing the access token and retrying once on 401
+   */
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const send = (accessToken: string, allowStatuses: number[] = []) =>
+      this.http.request(
+        `${this.baseUrl}${path}`,
+        {
+          ...init,
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Version': LEADCONNECTOR_API_VERSION,
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+          },
+        },
+        allowStatuses
+      );
+
+    const accessToken = await this.tokens.getAccessToken(this.locationId);
+    const response = await send(accessToken, [401]);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    const refreshed = await this.tokens.refreshAccessToken(this.locationId, accessToken);
+    return await send(refreshed);
+  }
+}
+
+/**
+ * Reshape a v2 contact like a v1 one, so the sync and field mappings read both the same way
+ */
+function toGHLContact(contact: LeadConnectorContact): GHLContact {
+  const { contactName, customFields, ...rest } = contact;
+  return {
+    ...rest,
+    name: contactName || [contact.firstName, contact.lastName].filter(Boolean).join(' '),
+    customField: customFields,
+  };
+}
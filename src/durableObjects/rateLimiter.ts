@@ -0,0 +1,73 @@
+/**
+ * CallTools Rate Limiter
+ * Token bucket shared by every Worker invocation that calls the same CallTools account
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { RateLimiter } from '../clients/http';
+
+export class CallToolsRateLimiter extends DurableObject<Env> {
+  // Kept in memory only; a restarted instance starts with a full bucket
+  private tokens: number | null = null;
+  private refilledAt: number = 0;
+
+  /**
+   * Reserve one permit and return how many milliseconds the caller must wait before using it
+   * Tokens can go negative, so waiting callers are served in the order they reserved
+   */
+  async reserve(requestsPerSecond: number, burst: number): Promise<number> {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(burst, (this.tokens ?? burst) + elapsedSeconds * requestsPerSecond);
+    this.refilledAt = now;
+
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / requestsPerSecond) * 1000);
+  }
+}
+
+/**
+ * Waits for permits from a CallToolsRateLimiter instance
+ */
+export class DurableRateLimiter implements RateLimiter {
+  private stub: DurableObjectStub<CallToolsRateLimiter>;
+  private requestsPerSecond: number;
+  private burst: number;
+
+  constructor(stub: DurableObjectStub<CallToolsRateLimiter>, requestsPerSecond: number, burst: number) {
+    this.stub = stub;
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = burst;
+  }
+
+  async acquire(): Promise<void> {
+    let waitMs: number;
+    try {
+      waitMs = await this.stub.reserve(this.requestsPerSecond, this.burst);
+    } catch (error) {
+      // An unreachable limiter shouldn't stop the sync; the transport still backs off on 429
+      console.warn('CallTools rate limiter unavailable, continuing without a permit:', error);
+      return;
+    }
+
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+}
+
+/**
+ * Rate limiter for a CallTools account, or undefined when rate limiting is disabled
+ * Each tenant has its own CallTools account and therefore its own bucket
+ */
+export function callToolsRateLimiter(env: Env, tenantId: number | null): RateLimiter | undefined {
+  const requestsPerSecond = parseFloat(env.CALLTOOLS_RATE_LIMIT_RPS || '');
+  if (!env.CALLTOOLS_RATE_LIMITER || !(requestsPerSecond > 0)) {
+    return undefined;
+  }
+
+  const burst = Math.max(1, parseInt(env.CALLTOOLS_RATE_LIMIT_BURST || '') || Math.ceil(requestsPerSecond));
+  const name = tenantId === null ? 'default' : `tenant:${tenantId}`;
+  const stub = env.CALLTOOLS_RATE_LIMITER.get(env.CALLTOOLS_RATE_LIMITER.idFromName(name));
+  return new DurableRateLimiter(stub, requestsPerSecond, burst);
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { BucketService } from '../../services/bucketService';
+import { callToolsClientForTenant, TenantService } from '../../services/tenantService';
+
+export const bucket = z.object({
+  id: z.union([z.string(), z.number()]),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  contact_count: z.number().int().optional().describe('Contacts in the bucket according to CallTools'),
+});
+
+export const bucketSummary = bucket.extend({
+  synced_contact_count: z.number().int().describe('Synced contacts this worker put in the bucket'),
+});
+
+export const bucketQuery = z.object({
+  tenant_id: z.number().int().optional().describe('Tenant whose CallTools account to use; defaults to the default account'),
+});
+
+/**
+ * Bucket service for a tenant's CallTools account, or null if the tenant doesn't exist
+ */
+export async function bucketServiceFor(env: Env, tenantId: number | undefined): Promise<BucketService | null> {
+  if (tenantId === undefined) {
+    return new BucketService(env.DB, callToolsClientForTenant(env, null));
+  }
+
+  const tenant = await new TenantService(env.DB).getTenant(tenantId);
+  return tenant ? new BucketService(env.DB, callToolsClientForTenant(env, tenant), tenant.id) : null;
+}
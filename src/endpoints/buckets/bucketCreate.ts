@@ -0,0 +1,70 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { bucket, bucketQuery, bucketServiceFor } from './base';
+
+export class BucketCreate extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'Create a CallTools bucket',
+    request: {
+      query: bucketQuery,
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              name: z.string().trim().min(1),
+              description: z.string().optional(),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '201': {
+        description: 'Bucket created',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: bucket,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const created = await buckets.createBucket(data.body.name, data.body.description);
+
+      return c.json(
+        {
+          success: true,
+          result: created,
+        },
+        201
+      );
+    } catch (error) {
+      console.error('Error creating bucket:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { bucketQuery, bucketServiceFor, bucketSummary } from './base';
+
+export class BucketList extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'List CallTools buckets',
+    description: 'Lists the buckets in the CallTools account with their contact counts',
+    request: {
+      query: bucketQuery,
+    },
+    responses: {
+      '200': {
+        description: 'Buckets',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(bucketSummary),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        result: await buckets.listBuckets(),
+      });
+    } catch (error) {
+      console.error('Error listing buckets:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
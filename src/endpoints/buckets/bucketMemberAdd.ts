@@ -0,0 +1,84 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ApiError } from '../../clients/http';
+import { BucketMemberBlockedError } from '../../services/bucketService';
+import { SyncedContactModel, syncedContact } from '../contacts/base';
+import { bucketQuery, bucketServiceFor } from './base';
+
+export class BucketMemberAdd extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'Add a synced contact to a bucket',
+    request: {
+      params: z.object({
+        id: Str({ description: 'CallTools bucket ID' }),
+      }),
+      query: bucketQuery,
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              ghl_contact_id: z.string().min(1),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: 'Contact added',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: syncedContact,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant, bucket or synced contact not found',
+      },
+      '409': {
+        description: 'Contact is suppressed or was merged into another contact',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const contact = await buckets.addMember(data.params.id, data.body.ghl_contact_id);
+      if (!contact) {
+        return c.json({ success: false, error: 'Contact has not been synced to this CallTools account' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        result: SyncedContactModel.serializer(contact),
+      });
+    } catch (error) {
+      if (error instanceof BucketMemberBlockedError) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+      if (error instanceof ApiError && error.status === 404) {
+        return c.json({ success: false, error: 'Bucket not found' }, 404);
+      }
+      console.error('Error adding contact to bucket:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
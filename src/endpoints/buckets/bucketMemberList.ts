@@ -0,0 +1,71 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { SyncedContactModel, syncedContact } from '../contacts/base';
+import { bucketQuery, bucketServiceFor } from './base';
+
+export class BucketMemberList extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'List the synced contacts in a bucket',
+    description: 'Lists contacts this worker put in the bucket and has not taken out since, most recently synced first. Contacts added in CallTools directly are not included.',
+    request: {
+      params: z.object({
+        id: Str({ description: 'CallTools bucket ID' }),
+      }),
+      query: bucketQuery.extend({
+        limit: z.coerce.number().int().min(1).max(500).optional().describe('Contacts per page (default 100)'),
+        offset: z.coerce.number().int().min(0).optional(),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Bucket members',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(syncedContact),
+              total: z.number().int(),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const { members, total } = await buckets.getMembers(
+        data.params.id,
+        data.query.limit ?? 100,
+        data.query.offset ?? 0
+      );
+
+      return c.json({
+        success: true,
+        result: members.map(SyncedContactModel.serializer),
+        total,
+      });
+    } catch (error) {
+      console.error('Error listing bucket members:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
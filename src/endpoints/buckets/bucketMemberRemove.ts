@@ -0,0 +1,69 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ApiError } from '../../clients/http';
+import { SyncedContactModel, syncedContact } from '../contacts/base';
+import { bucketQuery, bucketServiceFor } from './base';
+
+export class BucketMemberRemove extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'Remove a synced contact from a bucket',
+    request: {
+      params: z.object({
+        id: Str({ description: 'CallTools bucket ID' }),
+        ghl_contact_id: Str({ description: 'GoHighLevel contact ID' }),
+      }),
+      query: bucketQuery,
+    },
+    responses: {
+      '200': {
+        description: 'Contact removed',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: syncedContact,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant, bucket or synced contact not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const contact = await buckets.removeMember(data.params.id, data.params.ghl_contact_id);
+      if (!contact) {
+        return c.json({ success: false, error: 'Contact has not been synced to this CallTools account' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        result: SyncedContactModel.serializer(contact),
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return c.json({ success: false, error: 'Bucket not found' }, 404);
+      }
+      console.error('Error removing contact from bucket:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
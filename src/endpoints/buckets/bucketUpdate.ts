@@ -0,0 +1,79 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ApiError } from '../../clients/http';
+import { bucket, bucketQuery, bucketServiceFor } from './base';
+
+export class BucketUpdate extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Buckets'],
+    summary: 'Rename a CallTools bucket',
+    description: 'Changes the bucket name and/or description. The tag and bucket cache follows the new name.',
+    request: {
+      params: z.object({
+        id: Str({ description: 'CallTools bucket ID' }),
+      }),
+      query: bucketQuery,
+      body: {
+        content: {
+          'application/json': {
+            schema: z
+              .object({
+                name: z.string().trim().min(1).optional(),
+                description: z.string().optional(),
+              })
+              .refine((body) => body.name !== undefined || body.description !== undefined, {
+                message: 'Provide a name or description',
+              }),
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: 'Bucket updated',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: bucket,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant or bucket not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+
+      const buckets = await bucketServiceFor(c.env, data.query.tenant_id);
+      if (!buckets) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const updated = await buckets.updateBucket(data.params.id, data.body);
+
+      return c.json({
+        success: true,
+        result: updated,
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return c.json({ success: false, error: 'Bucket not found' }, 404);
+      }
+      console.error('Error updating bucket:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
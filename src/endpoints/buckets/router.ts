@@ -0,0 +1,17 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { BucketList } from './bucketList';
+import { BucketCreate } from './bucketCreate';
+import { BucketUpdate } from './bucketUpdate';
+import { BucketMemberList } from './bucketMemberList';
+import { BucketMemberAdd } from './bucketMemberAdd';
+import { BucketMemberRemove } from './bucketMemberRemove';
+
+export const bucketsRouter = fromHono(new Hono());
+
+bucketsRouter.get('/', BucketList);
+bucketsRouter.post('/', BucketCreate);
+bucketsRouter.put('/:id', BucketUpdate);
+bucketsRouter.get('/:id/contacts', BucketMemberList);
+bucketsRouter.post('/:id/contacts', BucketMemberAdd);
+bucketsRouter.delete('/:id/contacts/:ghl_contact_id', BucketMemberRemove);
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const cachedLookup = z.object({
+  id: z.number().int(),
+  account: z.string(),
+  kind: z.enum(['tag', 'bucket']),
+  name: z.string(),
+  calltools_id: z.string(),
+  expires_at: z.string(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const cacheQuery = z.object({
+  tenant_id: z.number().int().optional().describe('Tenant whose CallTools account to use; defaults to the default account'),
+});
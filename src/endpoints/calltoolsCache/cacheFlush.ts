@@ -0,0 +1,52 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { CallToolsLookupCache, lookupCacheAccount } from '../../services/callToolsLookupCache';
+import { cacheQuery } from './base';
+
+export class CallToolsCacheFlush extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Cache'],
+    summary: 'Flush the CallTools tag and bucket cache',
+    description: 'Removes every cached ID for a CallTools account, e.g. after tags or buckets were renamed in CallTools.',
+    request: {
+      query: cacheQuery,
+    },
+    responses: {
+      '200': {
+        description: 'Number of entries removed',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                flushed: z.number().int(),
+              }),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const cache = new CallToolsLookupCache(c.env.DB, lookupCacheAccount(data.query.tenant_id ?? null));
+
+      return c.json({
+        success: true,
+        result: { flushed: await cache.flush() },
+      });
+    } catch (error) {
+      console.error('Error flushing CallTools cache:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { CallToolsLookupCache, lookupCacheAccount } from '../../services/callToolsLookupCache';
+import { cachedLookup, cacheQuery } from './base';
+
+export class CallToolsCacheList extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Cache'],
+    summary: 'List cached CallTools tag and bucket IDs',
+    description: 'Returns the name-to-ID entries cached for a CallTools account, including expired ones.',
+    request: {
+      query: cacheQuery,
+    },
+    responses: {
+      '200': {
+        description: 'Cached lookups',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(cachedLookup),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const cache = new CallToolsLookupCache(c.env.DB, lookupCacheAccount(data.query.tenant_id ?? null));
+
+      return c.json({
+        success: true,
+        result: await cache.list(),
+      });
+    } catch (error) {
+      console.error('Error listing CallTools cache:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
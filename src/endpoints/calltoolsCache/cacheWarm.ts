@@ -0,0 +1,66 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { CallToolsLookupCache, lookupCacheAccount } from '../../services/callToolsLookupCache';
+import { callToolsClientForTenant, TenantService } from '../../services/tenantService';
+import { cacheQuery } from './base';
+
+export class CallToolsCacheWarm extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['CallTools Cache'],
+    summary: 'Warm the CallTools tag and bucket cache',
+    description: 'Lists every tag and bucket in the CallTools account and caches their IDs, so syncs skip the name lookups.',
+    request: {
+      query: cacheQuery,
+    },
+    responses: {
+      '200': {
+        description: 'Number of tags and buckets cached',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                tags: z.number().int(),
+                buckets: z.number().int(),
+              }),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+      const tenantId = data.query.tenant_id ?? null;
+
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const cache = new CallToolsLookupCache(env.DB, lookupCacheAccount(tenantId));
+      const result = await cache.warm(callToolsClientForTenant(env, tenant));
+
+      return c.json({
+        success: true,
+        result,
+      });
+    } catch (error) {
+      console.error('Error warming CallTools cache:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { CallToolsCacheList } from './cacheList';
+import { CallToolsCacheWarm } from './cacheWarm';
+import { CallToolsCacheFlush } from './cacheFlush';
+
+export const callToolsCacheRouter = fromHono(new Hono());
+
+callToolsCacheRouter.get('/', CallToolsCacheList);
+callToolsCacheRouter.post('/warm', CallToolsCacheWarm);
+callToolsCacheRouter.delete('/', CallToolsCacheFlush);
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+export const syncedContact = z.object({
+  id: z.number().int(),
+  ghl_contact_id: z.string(),
+  calltools_contact_id: z.string().nullable(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  sync_status: z.enum(['pending', 'synced', 'failed', 'failed_permanently', 'excluded', 'merged', 'deleted', 'suppressed', 'held']),
+  last_sync_at: z.string().nullable(),
+  error_message: z.string().nullable(),
+  is_customer: z.boolean(),
+  merged_into: z.string().nullable().describe('GHL contact ID this contact was merged into'),
+  tenant_id: z.number().int().nullable().describe('Tenant the contact syncs through; null for the default account'),
+  timezone: z.string().nullable().describe('Inferred IANA time zone'),
+  timezone_source: z.enum(['ghl', 'state', 'area_code']).nullable(),
+  held_until: z.string().nullable().describe('When a held contact\'s calling window opens'),
+  policy_year: z.number().int().nullable().describe('Latest year in the contact\'s "ACA Active <year>" tags'),
+  policy_lapsed_at: z.string().nullable().describe('When the policy rollover moved the contact to the lapsed / renewal bucket'),
+  retry_attempts: z.number().int().describe('Retries of a failed sync so far'),
+  next_retry_at: z.string().nullable().describe('When a failed contact is retried next'),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const SyncedContactModel = {
+  tableName: 'synced_contacts',
+  primaryKeys: ['id'],
+  schema: syncedContact,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    return {
+      ...row,
+      is_customer: Boolean(row.is_customer),
+    };
+  },
+  serializerObject: syncedContact,
+};
+
+// Filters shared by the synced contacts listing and the CSV export
+export const syncedContactFilters = z.object({
+  sync_status: syncedContact.shape.sync_status.optional(),
+  is_customer: z.boolean().optional(),
+  tenant_id: z.number().int().optional(),
+  synced_after: z.string().optional().describe('Last synced at or after this ISO date'),
+  synced_before: z.string().optional().describe('Last synced before this ISO date'),
+  error: z.string().optional().describe('Error message contains this text'),
+  search: z.string().optional().describe('Search by GHL contact ID, name, phone or email'),
+});
+
+export type SyncedContactFilters = z.infer<typeof syncedContactFilters>;
+
+export const SYNCED_CONTACT_SEARCH_FIELDS = ['ghl_contact_id', 'first_name', 'last_name', 'phone', 'email'];
+
+/**
+ * WHERE clause and bind values for the given filters
+ */
+export function syncedContactWhere(filters: SyncedContactFilters): { where: string; params: Array<string | number> } {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filters.sync_status !== undefined) {
+    conditions.push('sync_status = ?');
+    params.push(filters.sync_status);
+  }
+  if (filters.is_customer !== undefined) {
+    conditions.push('is_customer = ?');
+    params.push(filters.is_customer ? 1 : 0);
+  }
+  if (filters.tenant_id !== undefined) {
+    conditions.push('tenant_id = ?');
+    params.push(filters.tenant_id);
+  }
+  if (filters.synced_after) {
+    conditions.push('last_sync_at >= ?');
+    params.push(filters.synced_after);
+  }
+  if (filters.synced_before) {
+    conditions.push('last_sync_at < ?');
+    params.push(filters.synced_before);
+  }
+  if (filters.error) {
+    conditions.push('error_message LIKE ?');
+    params.push(`%${filters.error}%`);
+  }
+  if (filters.search) {
+    conditions.push(`(${SYNCED_CONTACT_SEARCH_FIELDS.map((field) => `${field} LIKE ?`).join(' OR ')})`);
+    SYNCED_CONTACT_SEARCH_FIELDS.forEach(() => params.push(`%${filters.search}%`));
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
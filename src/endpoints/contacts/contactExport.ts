@@ -0,0 +1,118 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { formatCsvRow } from '../../utils/csv';
+import { SyncedContactFilters, syncedContactFilters, syncedContactWhere } from './base';
+
+const EXPORT_COLUMNS = [
+  'ghl_contact_id',
+  'calltools_contact_id',
+  'first_name',
+  'last_name',
+  'phone',
+  'email',
+  'sync_status',
+  'is_customer',
+  'tenant_id',
+  'timezone',
+  'policy_year',
+  'last_sync_at',
+  'error_message',
+  'created_at',
+  'updated_at',
+];
+
+// Rows read from D1 per query while streaming
+const EXPORT_PAGE_SIZE = 500;
+
+export class SyncedContactExport extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Contacts'],
+    summary: 'Export synced contacts as CSV',
+    description: 'Streams every synced contact matching the filters as a CSV file, oldest first. Takes the same filters as the synced contacts listing.',
+    request: {
+      query: syncedContactFilters,
+    },
+    responses: {
+      '200': {
+        description: 'CSV file with a header line',
+        content: {
+          'text/csv': {
+            schema: z.string(),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const db = c.env.DB;
+
+      const { where, params } = syncedContactWhere(data.query as SyncedContactFilters);
+      const encoder = new TextEncoder();
+      let afterId = 0;
+
+      // Pages are read as the client consumes the file, keyed on id so rows synced meanwhile don't shift them
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(formatCsvRow(EXPORT_COLUMNS)));
+        },
+        async pull(controller) {
+          try {
+            const page = await db
+              .prepare(`
+                SELECT * FROM synced_contacts
+                ${where ? `${where} AND` : 'WHERE'} id > ?
+                ORDER BY id ASC
+                LIMIT ?
+              `)
+              .bind(...params, afterId, EXPORT_PAGE_SIZE)
+              .all<Record<string, string | number | null>>();
+            const rows = page.results || [];
+
+            if (rows.length > 0) {
+              controller.enqueue(
+                encoder.encode(
+                  rows
+                    .map((row) =>
+                      formatCsvRow(EXPORT_COLUMNS.map((column) =>
+                        column === 'is_customer' ? String(Boolean(row.is_customer)) : row[column]
+                      ))
+                    )
+                    .join('')
+                )
+              );
+              afterId = rows[rows.length - 1].id as number;
+            }
+            if (rows.length < EXPORT_PAGE_SIZE) {
+              controller.close();
+            }
+          } catch (error) {
+            // The 200 and the header row are already sent, so the failure can only end the stream
+            console.error('Error reading the next page of the synced contacts export:', error);
+            controller.error(error);
+          }
+        },
+      });
+
+      const date = new Date().toISOString().slice(0, 10);
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="synced-contacts-${date}.csv"`,
+        },
+      });
+    } catch (error) {
+      console.error('Error exporting synced contacts:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
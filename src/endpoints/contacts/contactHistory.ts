@@ -0,0 +1,89 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { SyncEventService } from '../../services/syncEventService';
+
+export const syncEvent = z.object({
+  id: z.number().int(),
+  ghl_contact_id: Str(),
+  calltools_contact_id: Str().nullable(),
+  event_type: z.enum([
+    'classified',
+    'excluded',
+    'contact_created',
+    'contact_updated',
+    'mapping_repaired',
+    'bucket_added',
+    'bucket_removed',
+    'tag_added',
+    'tag_removed',
+    'marked_customer',
+    'customer_reinstated',
+    'policy_lapsed',
+    'merged',
+    'contact_deleted',
+    'ghl_deleted',
+    'suppressed',
+    'held',
+    'drift_detected',
+    'failed',
+  ]),
+  detail: Str().nullable(),
+  status: z.enum(['success', 'failed']),
+  response_status: z.number().int().nullable(),
+  message: Str().nullable(),
+  created_at: Str(),
+});
+
+export class ContactHistory extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Contacts'],
+    summary: 'Get a contact sync timeline',
+    description: 'Lists every classification decision and CallTools side effect recorded for a contact, oldest first',
+    request: {
+      params: z.object({
+        ghl_contact_id: Str({ description: 'GoHighLevel contact ID' }),
+      }),
+      query: z.object({
+        limit: z.coerce.number().int().min(1).max(500).optional().describe('Most recent events to return (default 100)'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Contact timeline',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(syncEvent),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const eventService = new SyncEventService(env.DB);
+      const events = await eventService.getHistory(data.params.ghl_contact_id, data.query.limit ?? 100);
+
+      return c.json({
+        success: true,
+        result: events,
+      });
+    } catch (error) {
+      console.error('Error fetching contact history:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
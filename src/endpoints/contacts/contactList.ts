@@ -0,0 +1,77 @@
+import { D1ListEndpoint, Enumeration, ListFilters } from 'chanfana';
+import { AnyZodObject } from 'zod';
+import { HandleArgs } from '../../types';
+import {
+  SYNCED_CONTACT_SEARCH_FIELDS,
+  SyncedContactFilters,
+  syncedContactFilters,
+  SyncedContactModel,
+  syncedContactWhere,
+} from './base';
+
+export class SyncedContactList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: SyncedContactModel,
+  };
+
+  filterFields = ['sync_status', 'is_customer', 'tenant_id'];
+  searchFields = SYNCED_CONTACT_SEARCH_FIELDS;
+
+  getSchema() {
+    const schema = super.getSchema();
+    return {
+      ...schema,
+      request: {
+        ...schema.request,
+        query: (schema.request.query as AnyZodObject).extend({
+          // Filters D1ListEndpoint can't express as equality filters
+          ...syncedContactFilters.pick({ synced_after: true, synced_before: true, error: true }).shape,
+          order_by: Enumeration({
+            default: 'last_sync_at',
+            values: ['last_sync_at', 'updated_at', 'created_at', 'id'],
+            description: 'Order By Column Name',
+            required: false,
+          }),
+          order_by_direction: Enumeration({
+            default: 'desc',
+            values: ['asc', 'desc'],
+            description: 'Order By Direction',
+            required: false,
+          }),
+        }),
+      },
+    };
+  }
+
+  async list(filters: ListFilters) {
+    const perPage = filters.options.per_page || 20;
+    const offset = perPage * ((filters.options.page || 1) - 1);
+
+    const { where, params } = syncedContactWhere(
+      Object.fromEntries(filters.filters.map((filter) => [filter.field, filter.value])) as SyncedContactFilters
+    );
+    const orderBy = `${filters.options.order_by || 'last_sync_at'} ${filters.options.order_by_direction === 'asc' ? 'ASC' : 'DESC'}`;
+    const db = this.getDBBinding();
+
+    const [results, total] = await Promise.all([
+      db
+        .prepare(`SELECT * FROM synced_contacts ${where} ORDER BY ${orderBy}, id DESC LIMIT ? OFFSET ?`)
+        .bind(...params, perPage, offset)
+        .all(),
+      db
+        .prepare(`SELECT COUNT(*) AS total FROM synced_contacts ${where}`)
+        .bind(...params)
+        .first<{ total: number }>(),
+    ]);
+
+    return {
+      result: results.results,
+      result_info: {
+        count: results.results.length,
+        page: filters.options.page,
+        per_page: perPage,
+        total_count: total?.total ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SyncedContactModel } from './base';
+
+export class SyncedContactRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: SyncedContactModel,
+    pathParameters: ['ghl_contact_id'],
+  };
+}
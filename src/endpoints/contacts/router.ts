@@ -0,0 +1,14 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { SyncedContactList } from './contactList';
+import { SyncedContactRead } from './contactRead';
+import { SyncedContactExport } from './contactExport';
+import { ContactHistory } from './contactHistory';
+
+export const contactsRouter = fromHono(new Hono());
+
+contactsRouter.get('/', SyncedContactList);
+// Registered before /:ghl_contact_id so it isn't read as a contact ID
+contactsRouter.get('/export.csv', SyncedContactExport);
+contactsRouter.get('/:ghl_contact_id', SyncedContactRead);
+contactsRouter.get('/:ghl_contact_id/history', ContactHistory);
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+export const webhookDeadLetter = z.object({
+  id: z.number().int(),
+  message_id: z.string(),
+  source: z.enum(['webhook', 'workflow', 'suppression', 'calling_window']),
+  ghl_contact_id: z.string(),
+  payload: z.record(z.any()).nullable(),
+  tenant_id: z.number().int().nullable(),
+  attempts: z.number().int(),
+  last_error: z.string().nullable(),
+  status: z.enum(['dead', 'requeued']),
+  requeued_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const WebhookDeadLetterModel = {
+  tableName: 'webhook_dead_letters',
+  primaryKeys: ['id'],
+  schema: webhookDeadLetter,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    return {
+      ...row,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : null,
+    };
+  },
+  serializerObject: webhookDeadLetter,
+};
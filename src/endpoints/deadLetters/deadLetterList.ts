@@ -0,0 +1,13 @@
+import { D1ListEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { WebhookDeadLetterModel } from './base';
+
+export class WebhookDeadLetterList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: WebhookDeadLetterModel,
+  };
+
+  filterFields = ['status', 'source', 'ghl_contact_id'];
+  searchFields = ['ghl_contact_id', 'last_error'];
+  defaultOrderBy = 'id DESC';
+}
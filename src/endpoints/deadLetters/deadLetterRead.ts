@@ -0,0 +1,9 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { WebhookDeadLetterModel } from './base';
+
+export class WebhookDeadLetterRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: WebhookDeadLetterModel,
+  };
+}
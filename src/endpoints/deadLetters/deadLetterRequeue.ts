@@ -0,0 +1,64 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { WebhookQueueService } from '../../services/webhookQueueService';
+import { WebhookDeadLetterModel, webhookDeadLetter } from './base';
+
+export class WebhookDeadLetterRequeue extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Webhook'],
+    summary: 'Requeue a dead-lettered webhook job',
+    description: 'Puts the job back on the webhook queue with a fresh retry budget',
+    request: {
+      params: z.object({
+        id: z.coerce.number().int().describe('Dead letter ID'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Job requeued',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: webhookDeadLetter,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Dead letter not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+
+      const deadLetter = await queueService.getDeadLetter(data.params.id);
+      if (!deadLetter) {
+        return c.json({ success: false, error: 'Dead letter not found' }, 404);
+      }
+
+      const requeued = await queueService.requeue(deadLetter);
+
+      return c.json({
+        success: true,
+        result: WebhookDeadLetterModel.serializer(requeued!),
+      });
+    } catch (error) {
+      console.error('Error requeueing dead letter:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { WebhookDeadLetterList } from './deadLetterList';
+import { WebhookDeadLetterRead } from './deadLetterRead';
+import { WebhookDeadLetterRequeue } from './deadLetterRequeue';
+
+export const deadLettersRouter = fromHono(new Hono());
+
+deadLettersRouter.get('/', WebhookDeadLetterList);
+deadLettersRouter.get('/:id', WebhookDeadLetterRead);
+deadLettersRouter.post('/:id/requeue', WebhookDeadLetterRequeue);
@@ -0,0 +1,86 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { callToolsClientForTenant, TenantService } from '../../services/tenantService';
+import { DuplicateService } from '../../services/duplicateService';
+
+export const duplicateGroup = z.object({
+  key_type: z.enum(['calltools_contact_id', 'phone', 'email']),
+  key: z.string().describe('Shared CallTools ID, E.164 phone or lowercased email'),
+  ghl_contact_ids: z.array(z.string()),
+  calltools_contact_ids: z.array(z.string()),
+  many_to_one: z.boolean().describe('Several GHL contacts resolve to the same CallTools contact'),
+  calltools_matches: z.array(z.string()).optional().describe('CallTools contacts found by searching the phone (verify=true)'),
+});
+
+export class DuplicateList extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Duplicates'],
+    summary: 'Find duplicate contacts',
+    description: 'Groups one account\'s synced contacts that share a CallTools contact, a normalized phone or an email. With verify=true, phone groups are also searched in CallTools to find duplicates on that side.',
+    request: {
+      query: z.object({
+        key_type: z.enum(['calltools_contact_id', 'phone', 'email']).optional().describe('Only group by this key'),
+        many_to_one: z.boolean().optional().describe('Only return groups that collapse onto one CallTools contact'),
+        verify: z.boolean().optional().describe('Search CallTools for each phone group'),
+        tenant_id: z.number().int().optional().describe('Group this tenant\'s contacts instead of the default account\'s'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Duplicate groups',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(duplicateGroup),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const callToolsClient = data.query.verify
+        ? callToolsClientForTenant(env, tenant)
+        : undefined;
+      const duplicateService = new DuplicateService(env.DB, env.DEFAULT_PHONE_REGION, callToolsClient, tenantId);
+
+      let groups = await duplicateService.findDuplicates(data.query.key_type ? [data.query.key_type] : undefined);
+      if (data.query.many_to_one !== undefined) {
+        groups = groups.filter((group) => group.many_to_one === data.query.many_to_one);
+      }
+      if (data.query.verify) {
+        groups = await duplicateService.verifyPhoneGroups(groups);
+      }
+
+      return c.json({
+        success: true,
+        result: groups,
+      });
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
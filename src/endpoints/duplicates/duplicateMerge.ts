@@ -0,0 +1,105 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { DuplicateService, MAX_MERGE_DUPLICATES } from '../../services/duplicateService';
+import { SyncedContactModel, syncedContact } from '../contacts/base';
+
+export class DuplicateMerge extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Duplicates'],
+    summary: 'Merge duplicate contacts',
+    description: `Keeps the survivor and relinks the duplicates to the survivor's CallTools contact. Merged contacts are skipped by every future sync so they can't overwrite the survivor in CallTools. At most ${MAX_MERGE_DUPLICATES} duplicates per request.`,
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              survivor_ghl_contact_id: z.string().min(1),
+              duplicate_ghl_contact_ids: z
+                .array(z.string().min(1))
+                .min(1)
+                .max(MAX_MERGE_DUPLICATES)
+                .describe(`Contacts to merge into the survivor, at most ${MAX_MERGE_DUPLICATES}`),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: 'Contacts merged',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(syncedContact),
+            }),
+          },
+        },
+      },
+      '400': {
+        description: `The survivor is also listed as a duplicate, more than ${MAX_MERGE_DUPLICATES} duplicates are given, or the contacts belong to different tenants`,
+      },
+      '404': {
+        description: 'A contact has never been synced',
+      },
+      '409': {
+        description: 'The survivor was itself merged into another contact',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    // Outside the try so an invalid body gets chanfana's 400 rather than the 500 below
+    const data = await this.getValidatedData<typeof this.schema>();
+
+    try {
+      const env = c.env;
+      const { survivor_ghl_contact_id: survivorId } = data.body;
+      const duplicateIds = [...new Set(data.body.duplicate_ghl_contact_ids)];
+
+      if (duplicateIds.includes(survivorId)) {
+        return c.json({ success: false, error: 'The survivor cannot also be a duplicate' }, 400);
+      }
+
+      const duplicateService = new DuplicateService(env.DB, env.DEFAULT_PHONE_REGION);
+
+      const records = await duplicateService.getContacts([survivorId, ...duplicateIds]);
+      const found = new Set(records.map((record) => record.ghl_contact_id));
+      const missing = [survivorId, ...duplicateIds].filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        return c.json({ success: false, error: `Contacts not found: ${missing.join(', ')}` }, 404);
+      }
+
+      const survivor = records.find((record) => record.ghl_contact_id === survivorId)!;
+      if (records.some((record) => record.tenant_id !== survivor.tenant_id)) {
+        return c.json({ success: false, error: 'Contacts of different tenants cannot be merged' }, 400);
+      }
+      if (survivor.merged_into) {
+        return c.json(
+          { success: false, error: `Survivor ${survivorId} was merged into ${survivor.merged_into}` },
+          409
+        );
+      }
+
+      const merged = await duplicateService.merge(
+        survivor,
+        records.filter((record) => record.ghl_contact_id !== survivorId)
+      );
+
+      return c.json({
+        success: true,
+        result: merged.map(SyncedContactModel.serializer),
+      });
+    } catch (error) {
+      console.error('Error merging duplicates:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { DuplicateList } from './duplicateList';
+import { DuplicateMerge } from './duplicateMerge';
+
+export const duplicatesRouter = fromHono(new Hono());
+
+duplicatesRouter.get('/', DuplicateList);
+duplicatesRouter.post('/merge', DuplicateMerge);
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const fieldMapping = z.object({
+  id: z.number().int(),
+  ghl_field: z.string().describe('GHL contact field (dotted paths allowed), or custom.<field id or key> for a custom field'),
+  calltools_field: z.string().describe('CallTools contact field, or custom.<name> for a custom field'),
+  transform: z.enum(['none', 'uppercase', 'lowercase', 'date', 'lookup']),
+  transform_options: z
+    .string()
+    .nullable()
+    .describe('Date output format using YYYY, MM and DD, or comma-separated from=to lookup pairs'),
+  default_value: z.string().nullable().describe('Used when the GHL value is empty or has no lookup entry'),
+  tenant_id: z.number().int().nullable().describe('Tenant the mapping belongs to; null mappings are shared by every tenant'),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const FieldMappingModel = {
+  tableName: 'field_mappings',
+  primaryKeys: ['id'],
+  schema: fieldMapping,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    return {
+      ...row,
+      enabled: Boolean(row.enabled),
+    };
+  },
+  serializerObject: fieldMapping,
+};
+
+// Only the two field names are required, the rest fall back to column defaults
+export const fieldMappingFields = FieldMappingModel.schema
+  .pick({
+    ghl_field: true,
+    calltools_field: true,
+    transform: true,
+    transform_options: true,
+    default_value: true,
+    tenant_id: true,
+    enabled: true,
+  })
+  .partial()
+  .required({ ghl_field: true, calltools_field: true });
@@ -0,0 +1,10 @@
+import { D1CreateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { FieldMappingModel, fieldMappingFields } from './base';
+
+export class FieldMappingCreate extends D1CreateEndpoint<HandleArgs> {
+  _meta = {
+    model: FieldMappingModel,
+    fields: fieldMappingFields,
+  };
+}
@@ -0,0 +1,9 @@
+import { D1DeleteEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { FieldMappingModel } from './base';
+
+export class FieldMappingDelete extends D1DeleteEndpoint<HandleArgs> {
+  _meta = {
+    model: FieldMappingModel,
+  };
+}
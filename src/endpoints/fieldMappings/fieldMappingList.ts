@@ -0,0 +1,111 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ghlClientForTenant, hasGhlCredentials, TenantService } from '../../services/tenantService';
+import { applyFieldMappings, FieldMapping } from '../../services/fieldMappingService';
+import { fieldMapping, FieldMappingModel } from './base';
+
+export class FieldMappingList extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Field Mappings'],
+    summary: 'List field mappings and preview them for a contact',
+    description: 'Returns every field mapping, or the shared ones plus a tenant\'s own with tenant_id. Pass ghl_contact_id to fetch that contact from GoHighLevel and see the CallTools fields the enabled mappings would produce.',
+    request: {
+      query: z.object({
+        ghl_contact_id: z.string().optional().describe('GHL contact to preview the mapped output for'),
+        tenant_id: z.number().int().optional().describe('List and preview this tenant\'s mappings instead of the default account\'s'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Field mappings, with a preview when a contact was given',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.array(fieldMapping),
+              preview: z
+                .object({
+                  ghl_contact_id: z.string(),
+                  fields: z.record(z.string()).describe('Standard CallTools fields that would be sent'),
+                  custom_fields: z.record(z.string()).describe('CallTools custom fields that would be sent'),
+                  values: z.array(
+                    z.object({
+                      mapping_id: z.number().int(),
+                      ghl_field: z.string(),
+                      calltools_field: z.string(),
+                      source_value: z.string().nullable(),
+                      value: z.string().nullable(),
+                      defaulted: z.boolean(),
+                    })
+                  ),
+                })
+                .optional(),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      const result = await (tenantId === null
+        ? env.DB.prepare('SELECT * FROM field_mappings ORDER BY id ASC')
+        : env.DB
+            .prepare('SELECT * FROM field_mappings WHERE tenant_id IS NULL OR tenant_id = ? ORDER BY id ASC')
+            .bind(tenantId)
+      ).all<FieldMapping>();
+      const mappings = result.results || [];
+
+      if (!data.query.ghl_contact_id) {
+        return c.json({ success: true, result: mappings.map(FieldMappingModel.serializer) });
+      }
+
+      if (!tenant && !hasGhlCredentials(env)) {
+        return c.json(
+          { success: false, error: 'GoHighLevel API credentials not configured' },
+          500
+        );
+      }
+
+      const ghlClient = ghlClientForTenant(env, tenant);
+      const ghlContact = await ghlClient.getContact(data.query.ghl_contact_id);
+      // Without tenant_id the list holds every tenant's mappings, but the default account only uses the shared ones
+      const mapped = applyFieldMappings(
+        mappings.filter((mapping) => mapping.enabled === 1 && (mapping.tenant_id === null || mapping.tenant_id === tenantId)),
+        ghlContact
+      );
+
+      return c.json({
+        success: true,
+        result: mappings.map(FieldMappingModel.serializer),
+        preview: {
+          ghl_contact_id: ghlContact.id,
+          ...mapped,
+        },
+      });
+    } catch (error) {
+      console.error('Error previewing field mappings:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { FieldMappingModel } from './base';
+
+export class FieldMappingRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: FieldMappingModel,
+  };
+}
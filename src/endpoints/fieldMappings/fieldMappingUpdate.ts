@@ -0,0 +1,10 @@
+import { D1UpdateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { FieldMappingModel, fieldMappingFields } from './base';
+
+export class FieldMappingUpdate extends D1UpdateEndpoint<HandleArgs> {
+  _meta = {
+    model: FieldMappingModel,
+    fields: fieldMappingFields,
+  };
+}
@@ -0,0 +1,15 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { FieldMappingList } from './fieldMappingList';
+import { FieldMappingCreate } from './fieldMappingCreate';
+import { FieldMappingRead } from './fieldMappingRead';
+import { FieldMappingUpdate } from './fieldMappingUpdate';
+import { FieldMappingDelete } from './fieldMappingDelete';
+
+export const fieldMappingsRouter = fromHono(new Hono());
+
+fieldMappingsRouter.get('/', FieldMappingList);
+fieldMappingsRouter.post('/', FieldMappingCreate);
+fieldMappingsRouter.get('/:id', FieldMappingRead);
+fieldMappingsRouter.put('/:id', FieldMappingUpdate);
+fieldMappingsRouter.delete('/:id', FieldMappingDelete);
@@ -0,0 +1,80 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ghlOAuthServiceFromEnv } from '../../services/ghlOAuthService';
+
+export class GHLCallback extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['OAuth'],
+    summary: 'Complete a GoHighLevel v2 app install',
+    description: 'Exchanges the authorization code for the location\'s access and refresh tokens and stores them. The tokens are never returned.',
+    request: {
+      query: z.object({
+        code: z.string().describe('Authorization code from GoHighLevel'),
+        state: z.string().optional().describe('State issued by /oauth/ghl/install'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'App installed on the location',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                location_id: z.string(),
+                company_id: z.string().nullable(),
+                scope: z.string().nullable(),
+                expires_at: z.string(),
+              }),
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Missing, unknown, expired or already used state',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const oauth = ghlOAuthServiceFromEnv(c.env);
+
+      // Only finish installs this worker started, so a forged callback can't plant another location's tokens
+      if (!data.query.state || !(await oauth.consumeState(data.query.state))) {
+        return c.json(
+          {
+            success: false,
+            error: 'Invalid or expired OAuth state; start the install again from /oauth/ghl/install',
+          },
+          400
+        );
+      }
+
+      // GHL requires the redirect URI the code was issued for
+      const redirectUri = new URL('/oauth/ghl/callback', c.req.url).toString();
+      const token = await oauth.install(data.query.code, redirectUri);
+
+      return c.json({
+        success: true,
+        result: {
+          location_id: token.location_id,
+          company_id: token.company_id,
+          scope: token.scope,
+          expires_at: token.expires_at,
+        },
+      });
+    } catch (error) {
+      console.error('Error completing GHL install:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { OpenAPIRoute } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { ghlOAuthServiceFromEnv } from '../../services/ghlOAuthService';
+
+export class GHLInstall extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['OAuth'],
+    summary: 'Install the GoHighLevel v2 app on a location',
+    description: 'Redirects to GoHighLevel to choose the location to install on. GoHighLevel then redirects back to /oauth/ghl/callback.',
+    responses: {
+      '302': {
+        description: 'Redirect to the GoHighLevel location chooser',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const env = c.env;
+      const oauth = ghlOAuthServiceFromEnv(env);
+
+      // Must match a redirect URL registered on the marketplace app
+      const redirectUri = new URL('/oauth/ghl/callback', c.req.url).toString();
+
+      const state = await oauth.createState();
+
+      return c.redirect(oauth.authorizationUrl(redirectUri, state, env.GHL_OAUTH_SCOPES || undefined), 302);
+    } catch (error) {
+      console.error('Error starting GHL install:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { GHLInstall } from './ghlInstall';
+import { GHLCallback } from './ghlCallback';
+
+export const oauthRouter = fromHono(new Hono());
+
+// GoHighLevel v2 app install (authorization-code flow)
+oauthRouter.get('/ghl/install', GHLInstall);
+oauthRouter.get('/ghl/callback', GHLCallback);
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const segmentRule = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  priority: z.number().int(),
+  match_mode: z
+    .enum(['exact', 'contains', 'year'])
+    .describe('year matches tags with {year} standing for the current or a later year, e.g. "aca active {year}"'),
+  match_tags: z.string().describe('Comma-separated GHL tags, matched case-insensitively'),
+  action: z.enum(['sync', 'exclude']),
+  calltools_bucket_id: z.string().nullable(),
+  calltools_tag: z.string().nullable(),
+  remove_bucket_ids: z.string().nullable().describe('Comma-separated CallTools bucket IDs to remove the contact from'),
+  remove_tags: z.string().nullable().describe('Comma-separated CallTools tags to remove from the contact'),
+  timezone_bucket_ids: z
+    .string()
+    .nullable()
+    .describe('Comma-separated timezone=bucket pairs, e.g. America/New_York=11300. Contacts in other or unknown zones go to calltools_bucket_id'),
+  tenant_id: z.number().int().nullable().describe('Tenant the rule belongs to; null rules are shared by every tenant'),
+  mark_customer: z.boolean(),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const SegmentRuleModel = {
+  tableName: 'segment_rules',
+  primaryKeys: ['id'],
+  schema: segmentRule,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    return {
+      ...row,
+      mark_customer: Boolean(row.mark_customer),
+      enabled: Boolean(row.enabled),
+    };
+  },
+  serializerObject: segmentRule,
+};
+
+// Only the name and tag condition are required, the rest fall back to column defaults
+export const segmentRuleFields = SegmentRuleModel.schema
+  .pick({
+    name: true,
+    priority: true,
+    match_mode: true,
+    match_tags: true,
+    action: true,
+    calltools_bucket_id: true,
+    calltools_tag: true,
+    remove_bucket_ids: true,
+    remove_tags: true,
+    timezone_bucket_ids: true,
+    tenant_id: true,
+    mark_customer: true,
+    enabled: true,
+  })
+  .partial()
+  .required({ name: true, match_tags: true });
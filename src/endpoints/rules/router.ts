@@ -0,0 +1,15 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { SegmentRuleList } from './ruleList';
+import { SegmentRuleCreate } from './ruleCreate';
+import { SegmentRuleRead } from './ruleRead';
+import { SegmentRuleUpdate } from './ruleUpdate';
+import { SegmentRuleDelete } from './ruleDelete';
+
+export const rulesRouter = fromHono(new Hono());
+
+rulesRouter.get('/', SegmentRuleList);
+rulesRouter.post('/', SegmentRuleCreate);
+rulesRouter.get('/:id', SegmentRuleRead);
+rulesRouter.put('/:id', SegmentRuleUpdate);
+rulesRouter.delete('/:id', SegmentRuleDelete);
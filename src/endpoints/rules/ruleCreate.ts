@@ -0,0 +1,10 @@
+import { D1CreateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SegmentRuleModel, segmentRuleFields } from './base';
+
+export class SegmentRuleCreate extends D1CreateEndpoint<HandleArgs> {
+  _meta = {
+    model: SegmentRuleModel,
+    fields: segmentRuleFields,
+  };
+}
@@ -0,0 +1,9 @@
+import { D1DeleteEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SegmentRuleModel } from './base';
+
+export class SegmentRuleDelete extends D1DeleteEndpoint<HandleArgs> {
+  _meta = {
+    model: SegmentRuleModel,
+  };
+}
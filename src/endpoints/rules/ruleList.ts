@@ -0,0 +1,12 @@
+import { D1ListEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SegmentRuleModel } from './base';
+
+export class SegmentRuleList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: SegmentRuleModel,
+  };
+
+  searchFields = ['name', 'match_tags', 'calltools_tag'];
+  defaultOrderBy = 'priority ASC, id ASC';
+}
@@ -0,0 +1,9 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SegmentRuleModel } from './base';
+
+export class SegmentRuleRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: SegmentRuleModel,
+  };
+}
@@ -0,0 +1,10 @@
+import { D1UpdateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SegmentRuleModel, segmentRuleFields } from './base';
+
+export class SegmentRuleUpdate extends D1UpdateEndpoint<HandleArgs> {
+  _meta = {
+    model: SegmentRuleModel,
+    fields: segmentRuleFields,
+  };
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export const syncRun = z.object({
+  id: z.number().int(),
+  status: z.enum(['queued', 'running', 'paused', 'completed', 'failed']),
+  cursor_offset: z.number().int(),
+  chunk_size: z.number().int(),
+  total_contacts: z.number().int().nullable(),
+  total_processed: z.number().int(),
+  synced: z.number().int(),
+  updated: z.number().int(),
+  excluded_customers: z.number().int(),
+  held: z.number().int().describe('Contacts held outside their calling window'),
+  failed: z.number().int(),
+  consecutive_failures: z.number().int(),
+  last_error: z.string().nullable(),
+  locked_until: z.string().nullable(),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  progress: z.number().nullable().describe('Percentage of GHL contacts fetched, when the total is known'),
+});
+
+export const SyncRunModel = {
+  tableName: 'sync_runs',
+  primaryKeys: ['id'],
+  schema: syncRun,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    const total = row.total_contacts as number | null;
+    const offset = row.cursor_offset as number;
+    return {
+      ...row,
+      progress: row.status === 'completed'
+        ? 100
+        : total
+          ? Math.min(100, Math.round((offset / total) * 100))
+          : null,
+    };
+  },
+  serializerObject: syncRun,
+};
@@ -0,0 +1,13 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { SyncRunList } from './runList';
+import { SyncRunRead } from './runRead';
+import { SyncRunResume } from './runResume';
+import { SyncRunPause } from './runPause';
+
+export const runsRouter = fromHono(new Hono());
+
+runsRouter.get('/', SyncRunList);
+runsRouter.get('/:id', SyncRunRead);
+runsRouter.post('/:id/resume', SyncRunResume);
+runsRouter.post('/:id/pause', SyncRunPause);
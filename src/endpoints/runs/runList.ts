@@ -0,0 +1,12 @@
+import { D1ListEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SyncRunModel } from './base';
+
+export class SyncRunList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: SyncRunModel,
+  };
+
+  filterFields = ['status'];
+  defaultOrderBy = 'id DESC';
+}
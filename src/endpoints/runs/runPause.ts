@@ -0,0 +1,62 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { SyncRunService } from '../../services/syncRunService';
+import { SyncRunModel, syncRun } from './base';
+
+export class SyncRunPause extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync Runs'],
+    summary: 'Pause a sync run',
+    description: 'Stops the cron handler from picking up further chunks until the run is resumed',
+    request: {
+      params: z.object({
+        id: z.coerce.number().int().describe('Sync run ID'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Run paused',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: syncRun,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Run not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const runService = new SyncRunService(env.DB);
+
+      const run = await runService.pauseRun(data.params.id);
+      if (!run) {
+        return c.json({ success: false, error: 'Sync run not found' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        result: SyncRunModel.serializer(run),
+      });
+    } catch (error) {
+      console.error('Error pausing sync run:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
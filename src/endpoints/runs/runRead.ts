@@ -0,0 +1,9 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SyncRunModel } from './base';
+
+export class SyncRunRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: SyncRunModel,
+  };
+}
@@ -0,0 +1,75 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { syncServiceForTenant } from '../../services/tenantService';
+import { SyncRunLockedError, SyncRunService } from '../../services/syncRunService';
+import { SyncRunModel, syncRun } from './base';
+
+export class SyncRunResume extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync Runs'],
+    summary: 'Resume a sync run',
+    description: 'Continues a paused, failed or stalled run and processes its next chunk immediately',
+    request: {
+      params: z.object({
+        id: z.coerce.number().int().describe('Sync run ID'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Run resumed',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: syncRun,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Run not found',
+      },
+      '409': {
+        description: 'Run already completed, or still processing a chunk',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const existing = await new SyncRunService(env.DB).getRun(data.params.id);
+      if (!existing) {
+        return c.json({ success: false, error: 'Sync run not found' }, 404);
+      }
+      if (existing.status === 'completed') {
+        return c.json({ success: false, error: 'Sync run already completed' }, 409);
+      }
+
+      const syncService = syncServiceForTenant(env, null);
+      const runService = new SyncRunService(env.DB, syncService);
+
+      const run = await runService.resumeRun(data.params.id);
+
+      return c.json({
+        success: true,
+        result: SyncRunModel.serializer(run!),
+      });
+    } catch (error) {
+      if (error instanceof SyncRunLockedError) {
+        return c.json({ success: false, error: error.message }, 409);
+      }
+      console.error('Error resuming sync run:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
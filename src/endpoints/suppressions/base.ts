@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const suppression = z.object({
+  id: z.number().int(),
+  phone: z.string().describe('E.164 phone number'),
+  source: z.enum(['manual', 'import', 'ghl_dnd']),
+  reason: z.string().nullable(),
+  ghl_contact_id: z.string().nullable(),
+  suppressed_at: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const SuppressionModel = {
+  tableName: 'suppressed_phones',
+  primaryKeys: ['id'],
+  schema: suppression,
+  serializer: (obj: object) => obj,
+  serializerObject: suppression,
+};
@@ -0,0 +1,13 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { SuppressionList } from './suppressionList';
+import { SuppressionCreate } from './suppressionCreate';
+import { SuppressionImport } from './suppressionImport';
+import { SuppressionDelete } from './suppressionDelete';
+
+export const suppressionsRouter = fromHono(new Hono());
+
+suppressionsRouter.get('/', SuppressionList);
+suppressionsRouter.post('/', SuppressionCreate);
+suppressionsRouter.post('/import', SuppressionImport);
+suppressionsRouter.delete('/:id', SuppressionDelete);
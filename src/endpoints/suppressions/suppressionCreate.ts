@@ -0,0 +1,83 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { SuppressionService } from '../../services/suppressionService';
+import { WebhookQueueService } from '../../services/webhookQueueService';
+import { parsePhone } from '../../utils/phone';
+import { suppression } from './base';
+
+export class SuppressionCreate extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Suppressions'],
+    summary: 'Suppress a phone number',
+    description: 'Adds a phone to the Do-Not-Call list. Synced contacts with that phone are queued to be pulled from every managed CallTools bucket.',
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              phone: z.string().min(1),
+              reason: z.string().optional(),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '201': {
+        description: 'Phone suppressed',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: suppression,
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Invalid phone number',
+      },
+      '409': {
+        description: 'Phone is already suppressed',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const phone = parsePhone(data.body.phone, env.DEFAULT_PHONE_REGION);
+      if (!phone.valid) {
+        return c.json({ success: false, error: phone.reason }, 400);
+      }
+
+      const suppressionService = new SuppressionService(env.DB, env.DEFAULT_PHONE_REGION);
+
+      const created = await suppressionService.add(phone.e164, 'manual', { reason: data.body.reason });
+      if (!created) {
+        return c.json({ success: false, error: `${phone.e164} is already suppressed` }, 409);
+      }
+
+      // Pull contacts that are already in the dialer
+      const contactIds = await suppressionService.findSyncedContactIds([phone.e164]);
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+      await queueService.enqueueBatch(
+        contactIds.map((ghlContactId) => ({ source: 'suppression' as const, ghl_contact_id: ghlContactId }))
+      );
+
+      return c.json({ success: true, result: created }, 201);
+    } catch (error) {
+      console.error('Error suppressing phone:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
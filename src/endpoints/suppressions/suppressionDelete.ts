@@ -0,0 +1,9 @@
+import { D1DeleteEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SuppressionModel } from './base';
+
+export class SuppressionDelete extends D1DeleteEndpoint<HandleArgs> {
+  _meta = {
+    model: SuppressionModel,
+  };
+}
@@ -0,0 +1,84 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { SuppressionService } from '../../services/suppressionService';
+import { WebhookQueueService } from '../../services/webhookQueueService';
+
+export class SuppressionImport extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Suppressions'],
+    summary: 'Bulk import suppressed phone numbers',
+    description: 'Adds many phones to the Do-Not-Call list. Existing entries are kept and invalid numbers are reported. Synced contacts with an imported phone are queued to be pulled from the dialer.',
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              entries: z.array(
+                z.object({
+                  phone: z.string().min(1),
+                  reason: z.string().optional(),
+                  suppressed_at: z.string().optional().describe('When the opt-out happened, if known'),
+                })
+              ).min(1).max(1000),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: 'Import summary',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                imported: z.number().int(),
+                already_suppressed: z.number().int(),
+                invalid: z.array(z.object({ phone: z.string(), error: z.string() })),
+                queued_contacts: z.number().int(),
+              }),
+            }),
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const suppressionService = new SuppressionService(env.DB, env.DEFAULT_PHONE_REGION);
+      const imported = await suppressionService.importEntries(data.body.entries);
+
+      // Pull contacts that are already in the dialer
+      const contactIds = await suppressionService.findSyncedContactIds(imported.imported.map((entry) => entry.phone));
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+      await queueService.enqueueBatch(
+        contactIds.map((ghlContactId) => ({ source: 'suppression' as const, ghl_contact_id: ghlContactId }))
+      );
+
+      return c.json({
+        success: true,
+        result: {
+          imported: imported.imported.length,
+          already_suppressed: imported.already_suppressed.length,
+          invalid: imported.invalid,
+          queued_contacts: contactIds.length,
+        },
+      });
+    } catch (error) {
+      console.error('Error importing suppressions:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
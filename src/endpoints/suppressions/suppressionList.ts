@@ -0,0 +1,13 @@
+import { D1ListEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { SuppressionModel } from './base';
+
+export class SuppressionList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: SuppressionModel,
+  };
+
+  filterFields = ['source', 'phone', 'ghl_contact_id'];
+  searchFields = ['phone', 'reason'];
+  defaultOrderBy = 'id DESC';
+}
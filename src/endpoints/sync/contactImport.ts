@@ -0,0 +1,115 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { ContactImportService, ImportFileError, MAX_IMPORT_ROWS } from '../../services/contactImportService';
+import { splitRuleList } from '../../services/segmentRuleService';
+import { hasGhlCredentials, syncServiceForTenant, TenantService } from '../../services/tenantService';
+
+const importRowResult = z.object({
+  row: z.number().int().describe('Line in the file; the header is line 1'),
+  status: z.enum(['imported', 'invalid', 'failed']),
+  ghl_contact_id: z.string().nullable(),
+  action: z.enum(['synced', 'updated', 'excluded', 'held', 'failed']).nullable(),
+  bucket_id: z.string().nullable(),
+  errors: z.array(z.string()),
+});
+
+export class ContactImport extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync'],
+    summary: 'Import contacts from a CSV file',
+    description: `Creates or updates each CSV row as a GHL contact, then syncs it to CallTools like a webhook would. Rows are validated first (first name or full name, phone, email); invalid rows are reported and skipped. Columns named first_name, last_name, name, phone, email, tags or state (or common variants such as "Mobile" or "Email Address") are picked up by name; map any others with the X-Column-Mapping header. At most ${MAX_IMPORT_ROWS} rows per file.`,
+    request: {
+      body: {
+        content: {
+          'text/csv': {
+            schema: z.string(),
+          },
+        },
+      },
+      headers: z.object({
+        // Chanfana reads a missing header as null
+        'x-column-mapping': z
+          .string()
+          .nullish()
+          .describe('Comma-separated column=field pairs, e.g. "Cell=phone, Given Name=first_name"'),
+      }),
+      query: z.object({
+        tags: z.string().optional().describe('Comma-separated tags added to every imported contact'),
+        tenant_id: z.number().int().optional().describe('Import into this tenant\'s GHL location and CallTools account'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Per-row import results',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                total: z.number().int(),
+                imported: z.number().int(),
+                invalid: z.number().int().describe('Rows that failed validation and were not sent'),
+                failed: z.number().int().describe('Valid rows GHL or CallTools rejected'),
+                rows: z.array(importRowResult),
+              }),
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'The file or mapping can\'t be imported',
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      if (!tenant && (!hasGhlCredentials(env) || !env.CALLTOOLS_API_KEY)) {
+        return c.json(
+          { success: false, error: 'GoHighLevel or CallTools API credentials not configured' },
+          500
+        );
+      }
+
+      // Chanfana only parses JSON bodies, so the CSV is read as is
+      const csv = await c.req.text();
+      const importService = new ContactImportService(syncServiceForTenant(env, tenant), env.DEFAULT_PHONE_REGION);
+      const result = await importService.importCsv(
+        csv,
+        data.headers['x-column-mapping'] ?? undefined,
+        splitRuleList(data.query.tags)
+      );
+
+      return c.json({
+        success: true,
+        result,
+      });
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+
+      console.error('CSV import error:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
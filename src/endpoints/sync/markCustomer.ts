@@ -1,17 +1,27 @@
 import { OpenAPIRoute, Str } from 'chanfana';
 import { z } from 'zod';
 import { HandleArgs } from '../../types';
-import { ContactSyncService } from '../../services/contactSyncService';
+import { syncServiceForTenant, TenantService } from '../../services/tenantService';
 
 export class MarkCustomer extends OpenAPIRoute<HandleArgs> {
   schema = {
     tags: ['Sync'],
     summary: 'Mark a contact as customer',
-    description: 'Marks a contact as a customer to exclude them from future syncs',
+    description: 'Marks a contact as a customer to exclude them from future syncs, and takes it out of the lead buckets and tags in CallTools',
     request: {
       params: z.object({
         ghl_contact_id: Str({ description: 'GoHighLevel contact ID' }),
       }),
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              marked_by: z.string().min(1).optional().describe('Who marked the contact (default "manual")'),
+              reason: z.string().optional(),
+            }),
+          },
+        },
+      },
     },
     responses: {
       '200': {
@@ -32,15 +42,12 @@ export class MarkCustomer extends OpenAPIRoute<HandleArgs> {
     try {
       const data = await this.getValidatedData<typeof this.schema>();
       const env = c.env;
+      const ghlContactId = data.params.ghl_contact_id;
 
-      const syncService = new ContactSyncService(
-        env.GHL_API_KEY || '',
-        env.CALLTOOLS_API_KEY || '',
-        env.CALLTOOLS_BASE_URL,
-        env.DB
-      );
+      const tenant = await new TenantService(env.DB).getTenantForContact(ghlContactId);
+      const syncService = syncServiceForTenant(env, tenant);
 
-      await syncService.markAsCustomer(data.params.ghl_contact_id);
+      await syncService.markCustomerManually(ghlContactId, data.body.marked_by, data.body.reason);
 
       return c.json({
         success: true,
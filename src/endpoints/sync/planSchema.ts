@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const contactSyncPlan = z.object({
+  contact_id: z.string(),
+  rule: z.string().nullable().describe('Segment rule the contact matched'),
+  action: z.enum(['synced', 'updated', 'excluded', 'held', 'failed']).describe('What a real sync would report'),
+  calltools_contact_id: z.string().nullable(),
+  matched_by: z.enum(['mapping', 'phone', 'email']).nullable().describe('How the existing CallTools contact was found'),
+  operations: z.array(
+    z.object({
+      type: z.enum(['create', 'update', 'repair_mapping', 'move_bucket', 'add_tag', 'remove_tag', 'exclude', 'mark_customer', 'hold']),
+      target: z.string().nullable().describe('Bucket ID, tag name, the stale CallTools ID for repair_mapping, or when a hold ends'),
+      from: z.array(z.string()).optional().describe('Buckets a move_bucket takes the contact out of'),
+    })
+  ),
+  reason: z.string().optional(),
+});
+
+export const syncPlan = z.object({
+  summary: z.object({
+    total_processed: z.number().int(),
+    synced: z.number().int(),
+    updated: z.number().int(),
+    excluded_customers: z.number().int(),
+    held: z.number().int(),
+    failed: z.number().int(),
+    errors: z.array(z.object({ contact_id: z.string(), error: z.string() })),
+  }),
+  contacts: z.array(contactSyncPlan),
+  offset: z.number().int(),
+  next_offset: z.number().int().nullable(),
+  total_contacts: z.number().int().nullable(),
+});
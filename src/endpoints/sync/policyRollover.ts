@@ -0,0 +1,90 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { hasGhlCredentials, syncServiceForTenant, TenantService } from '../../services/tenantService';
+
+export const policyRolloverResult = z.object({
+  checked: z.number().int(),
+  lapsed: z.number().int().describe('Clients moved to the lapsed / renewal bucket'),
+  current: z.number().int().describe('Clients whose GHL tags already show a current policy year'),
+  suppressed: z.number().int().describe('Clients that opted out, pulled from the dialer instead'),
+  failed: z.number().int().describe('Clients left for the next run'),
+  errors: z.array(
+    z.object({
+      contact_id: z.string(),
+      error: z.string(),
+    })
+  ),
+});
+
+export class PolicyRollover extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync'],
+    summary: 'Roll over expired policy years',
+    description: 'Moves clients whose latest "ACA Active <year>" tag is for a past year out of the year rules\' buckets and tags and into POLICY_LAPSED_BUCKET and POLICY_LAPSED_TAG. Clients with a current-year policy stay put. The daily cron does the same.',
+    request: {
+      query: z.object({
+        limit: z.coerce.number().int().min(1).max(500).optional().describe('Clients to roll over (default POLICY_ROLLOVER_BATCH_SIZE)'),
+        tenant_id: z.number().int().optional().describe('Roll over this tenant\'s contacts instead of the default account\'s'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Rollover result',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              data: policyRolloverResult,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      if (!tenant && (!hasGhlCredentials(env) || !env.CALLTOOLS_API_KEY)) {
+        return c.json(
+          { success: false, error: 'GoHighLevel or CallTools API credentials not configured' },
+          500
+        );
+      }
+
+      const limit = data.query.limit
+        || (env.POLICY_ROLLOVER_BATCH_SIZE ? parseInt(env.POLICY_ROLLOVER_BATCH_SIZE) : 100);
+      const result = await syncServiceForTenant(env, tenant).rolloverExpiredPolicies(
+        limit,
+        env.POLICY_LAPSED_BUCKET ?? '',
+        env.POLICY_LAPSED_TAG ?? ''
+      );
+
+      return c.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Policy rollover error:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
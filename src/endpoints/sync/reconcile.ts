@@ -0,0 +1,109 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { hasGhlCredentials, syncServiceForTenant, TenantService } from '../../services/tenantService';
+
+const contactReconciliation = z.object({
+  contact_id: z.string(),
+  calltools_contact_id: z.string().nullable(),
+  rule: z.string().nullable().describe('Segment rule the GHL tags match'),
+  drift: z.array(
+    z.object({
+      type: z.enum([
+        'missing_calltools_contact',
+        'missing_bucket',
+        'stray_bucket',
+        'missing_tag',
+        'stray_tag',
+        'customer_not_marked',
+      ]),
+      target: z.string().nullable().describe('Bucket ID or tag name'),
+      fixed: z.boolean(),
+      error: z.string().optional(),
+    })
+  ),
+  error: z.string().optional().describe('Why the contact could not be checked'),
+});
+
+export const reconcileReport = z.object({
+  checked: z.number().int(),
+  drifted: z.number().int(),
+  fixed: z.number().int().describe('Drift items corrected'),
+  failed: z.number().int(),
+  contacts: z.array(contactReconciliation).describe('Drifted and failed contacts only'),
+  next_after_id: z.number().int().nullable().describe('Pass as after_id to check the next batch; null after the last one'),
+});
+
+export class SyncReconcile extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync'],
+    summary: 'Reconcile synced contacts with GHL and CallTools',
+    description: "Compares a batch of synced contacts' expected segment (from their GHL tags) with their D1 record and CallTools buckets and tags, and reports the drift. With fix=true, also applies the fewest operations that correct it. The hourly cron does the same, one batch per run.",
+    request: {
+      query: z.object({
+        after_id: z.coerce.number().int().min(0).optional().describe('Start after this synced contact ID'),
+        limit: z.coerce.number().int().min(1).max(100).optional().describe('Contacts to check (default RECONCILE_BATCH_SIZE)'),
+        fix: z.boolean().optional().describe('Correct the drift found'),
+        tenant_id: z.number().int().optional().describe('Reconcile this tenant\'s contacts instead of the default account\'s'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Drift report',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              data: reconcileReport,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      if (!tenant && (!hasGhlCredentials(env) || !env.CALLTOOLS_API_KEY)) {
+        return c.json(
+          { success: false, error: 'GoHighLevel or CallTools API credentials not configured' },
+          500
+        );
+      }
+
+      const limit = data.query.limit
+        || (env.RECONCILE_BATCH_SIZE ? parseInt(env.RECONCILE_BATCH_SIZE) : 50);
+      const report = await syncServiceForTenant(env, tenant).reconcileContacts(
+        data.query.after_id ?? 0,
+        limit,
+        data.query.fix ?? false
+      );
+
+      return c.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
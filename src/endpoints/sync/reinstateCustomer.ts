@@ -0,0 +1,94 @@
+import { OpenAPIRoute, Str } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { syncServiceForTenant, TenantService } from '../../services/tenantService';
+
+export class ReinstateCustomer extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync'],
+    summary: 'Reinstate a contact marked as customer',
+    description: "Clears the customer mark, records who did it and why, and syncs the contact again so it lands in the CallTools bucket and tags its GHL tags call for. If the tags still match a customer rule, the sync marks it again.",
+    request: {
+      params: z.object({
+        ghl_contact_id: Str({ description: 'GoHighLevel contact ID' }),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({
+              reinstated_by: z.string().min(1).describe('Who reinstated the contact'),
+              reason: z.string().min(1),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: 'Contact reinstated and synced',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              result: z.object({
+                contact_id: z.string(),
+                action: z.enum(['synced', 'updated', 'excluded', 'held', 'failed']),
+                bucket_id: z.string().nullable(),
+                error: z.string().optional(),
+              }),
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Contact has never been synced',
+      },
+      '409': {
+        description: 'Contact is not marked as a customer',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+      const ghlContactId = data.params.ghl_contact_id;
+
+      const tenant = await new TenantService(env.DB).getTenantForContact(ghlContactId);
+      const syncService = syncServiceForTenant(env, tenant);
+
+      const record = await syncService.getSyncedContact(ghlContactId);
+      if (!record) {
+        return c.json({ success: false, error: 'Contact not found' }, 404);
+      }
+      if (record.is_customer !== 1) {
+        return c.json({ success: false, error: 'Contact is not marked as a customer' }, 409);
+      }
+
+      const outcome = await syncService.reinstateCustomer(ghlContactId, data.body.reinstated_by, data.body.reason);
+      if (!outcome) {
+        return c.json({ success: false, error: 'Contact not found' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        result: {
+          contact_id: outcome.contact_id,
+          action: outcome.action,
+          bucket_id: outcome.bucket_id,
+          error: outcome.error,
+        },
+      });
+    } catch (error) {
+      console.error('Error reinstating customer:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
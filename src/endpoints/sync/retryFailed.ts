@@ -0,0 +1,91 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { HandleArgs } from '../../types';
+import { hasGhlCredentials, syncServiceForTenant, TenantService } from '../../services/tenantService';
+
+export const retryFailedResult = z.object({
+  attempted: z.number().int(),
+  recovered: z.number().int(),
+  retrying: z.number().int().describe('Failed again, with another retry scheduled'),
+  failed_permanently: z.number().int().describe('Out of retries, or failed with an error retrying won\'t fix'),
+  contacts: z.array(
+    z.object({
+      contact_id: z.string(),
+      attempt: z.number().int(),
+      outcome: z.enum(['recovered', 'retrying', 'failed_permanently']),
+      action: z.enum(['synced', 'updated', 'excluded', 'held', 'failed']),
+      error: z.string().optional(),
+      next_retry_at: z.string().optional(),
+    })
+  ),
+});
+
+export class RetryFailed extends OpenAPIRoute<HandleArgs> {
+  schema = {
+    tags: ['Sync'],
+    summary: 'Retry failed contact syncs',
+    description: 'Syncs failed contacts again once their backoff has passed. A contact that fails again waits twice as long before its next retry; after RETRY_FAILED_MAX_ATTEMPTS retries it is marked failed_permanently. The cron does the same every 15 minutes.',
+    request: {
+      query: z.object({
+        limit: z.coerce.number().int().min(1).max(100).optional().describe('Contacts to retry (default RETRY_FAILED_BATCH_SIZE)'),
+        tenant_id: z.number().int().optional().describe('Retry this tenant\'s contacts instead of the default account\'s'),
+      }),
+    },
+    responses: {
+      '200': {
+        description: 'Retry summary',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              data: retryFailedResult,
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Tenant not found',
+      },
+    },
+  };
+
+  async handle(c: HandleArgs[0]) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const env = c.env;
+
+      const tenantId = data.query.tenant_id ?? null;
+      const tenant = tenantId === null ? null : await new TenantService(env.DB).getTenant(tenantId);
+      if (tenantId !== null && !tenant) {
+        return c.json({ success: false, error: 'Tenant not found' }, 404);
+      }
+
+      if (!tenant && (!hasGhlCredentials(env) || !env.CALLTOOLS_API_KEY)) {
+        return c.json(
+          { success: false, error: 'GoHighLevel or CallTools API credentials not configured' },
+          500
+        );
+      }
+
+      const limit = data.query.limit
+        || (env.RETRY_FAILED_BATCH_SIZE ? parseInt(env.RETRY_FAILED_BATCH_SIZE) : 25);
+      const maxAttempts = env.RETRY_FAILED_MAX_ATTEMPTS ? parseInt(env.RETRY_FAILED_MAX_ATTEMPTS) : 5;
+      const baseDelayMinutes = env.RETRY_FAILED_BASE_DELAY_MINUTES ? parseInt(env.RETRY_FAILED_BASE_DELAY_MINUTES) : 15;
+      const result = await syncServiceForTenant(env, tenant).retryFailedContacts(limit, maxAttempts, baseDelayMinutes);
+
+      return c.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Retry failed contacts error:', error);
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+}
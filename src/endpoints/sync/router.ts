@@ -3,9 +3,51 @@ import { fromHono } from 'chanfana';
 import { SyncTrigger } from './syncTrigger';
 import { SyncStats } from './syncStats';
 import { MarkCustomer } from './markCustomer';
+import { ReinstateCustomer } from './reinstateCustomer';
+import { SyncReconcile } from './reconcile';
+import { PolicyRollover } from './policyRollover';
+import { RetryFailed } from './retryFailed';
+import { ContactImport } from './contactImport';
+import { rulesRouter } from '../rules/router';
+import { runsRouter } from '../runs/router';
+import { contactsRouter } from '../contacts/router';
+import { duplicatesRouter } from '../duplicates/router';
+import { suppressionsRouter } from '../suppressions/router';
+import { fieldMappingsRouter } from '../fieldMappings/router';
+import { tenantsRouter } from '../tenants/router';
+import { callToolsCacheRouter } from '../calltoolsCache/router';
 
 export const syncRouter = fromHono(new Hono());
 
 syncRouter.post('/trigger', SyncTrigger);
 syncRouter.get('/stats', SyncStats);
 syncRouter.post('/mark-customer/:ghl_contact_id', MarkCustomer);
+syncRouter.post('/reinstate-customer/:ghl_contact_id', ReinstateCustomer);
+syncRouter.post('/reconcile', SyncReconcile);
+syncRouter.post('/policy-rollover', PolicyRollover);
+syncRouter.post('/retry-failed', RetryFailed);
+syncRouter.post('/import', ContactImport);
+
+// Segment routing rules CRUD
+syncRouter.route('/rules', rulesRouter);
+
+// Resumable full sync runs
+syncRouter.route('/runs', runsRouter);
+
+// Per-contact sync history
+syncRouter.route('/contacts', contactsRouter);
+
+// Duplicate detection and merge
+syncRouter.route('/duplicates', duplicatesRouter);
+
+// Do-Not-Call suppression list
+syncRouter.route('/suppressions', suppressionsRouter);
+
+// GHL → CallTools field mappings
+syncRouter.route('/field-mappings', fieldMappingsRouter);
+
+// GHL location → CallTools account tenants
+syncRouter.route('/tenants', tenantsRouter);
+
+// Cached CallTools tag and bucket IDs
+syncRouter.route('/calltools-cache', callToolsCacheRouter);
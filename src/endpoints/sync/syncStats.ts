@@ -7,7 +7,12 @@ export class SyncStats extends OpenAPIRoute<HandleArgs> {
   schema = {
     tags: ['Sync'],
     summary: 'Get sync statistics',
-    description: 'Returns statistics about synced contacts',
+    description: 'Returns statistics about synced contacts, for every tenant or just one',
+    request: {
+      query: z.object({
+        tenant_id: z.number().int().optional().describe('Only count contacts of this tenant'),
+      }),
+    },
     responses: {
       '200': {
         description: 'Statistics retrieved successfully',
@@ -19,8 +24,12 @@ export class SyncStats extends OpenAPIRoute<HandleArgs> {
                 total_contacts: z.number(),
                 synced: z.number(),
                 failed: z.number(),
+                failed_permanently: z.number().describe('Failed contacts the retry job gave up on'),
                 excluded_customers: z.number(),
                 pending: z.number(),
+                deleted: z.number(),
+                suppressed: z.number(),
+                held: z.number(),
               }),
             }),
           },
@@ -31,6 +40,7 @@ export class SyncStats extends OpenAPIRoute<HandleArgs> {
 
   async handle(c: HandleArgs[0]) {
     try {
+      const data = await this.getValidatedData<typeof this.schema>();
       const env = c.env;
 
       const syncService = new ContactSyncService(
@@ -40,7 +50,7 @@ export class SyncStats extends OpenAPIRoute<HandleArgs> {
         env.DB
       );
 
-      const stats = await syncService.getSyncStats();
+      const stats = await syncService.getSyncStats(data.query.tenant_id);
 
       return c.json({
         success: true,
@@ -1,31 +1,43 @@
-import { OpenAPIRoute, Str } from 'chanfana';
+import { OpenAPIRoute } from 'chanfana';
 import { z } from 'zod';
 import { HandleArgs } from '../../types';
-import { ContactSyncService } from '../../services/contactSyncService';
+import { hasGhlCredentials, syncServiceForTenant } from '../../services/tenantService';
+import { syncPlan } from './planSchema';
+import { SyncRunService } from '../../services/syncRunService';
+import { SyncRunModel, syncRun } from '../runs/base';
 
 export class SyncTrigger extends OpenAPIRoute<HandleArgs> {
   schema = {
     tags: ['Sync'],
     summary: 'Trigger contact sync from GoHighLevel to CallTools',
-    description: 'Syncs cold contacts from GoHighLevel to CallTools, excluding customers',
+    description: 'Starts a resumable full sync run. The first chunk is processed immediately; the cron handler continues the run one chunk per invocation. Poll GET /sync/runs/:id for progress. With dry_run=true, returns the plan for one page of contacts instead, without writing to CallTools or D1.',
+    request: {
+      query: z.object({
+        chunk_size: z.coerce.number().int().min(1).max(100).optional().describe('GHL contacts processed per invocation (or planned per dry-run page)'),
+        dry_run: z.boolean().optional().describe('Plan the sync without making any changes'),
+        offset: z.coerce.number().int().min(0).optional().describe('Dry run only: GHL contacts to skip'),
+      }),
+    },
     responses: {
       '200': {
-        description: 'Sync completed successfully',
+        description: 'Sync run started, or the dry-run plan',
         content: {
           'application/json': {
             schema: z.object({
               success: z.boolean(),
-              data: z.object({
-                total_processed: z.number(),
-                synced: z.number(),
-                updated: z.number(),
-                excluded_customers: z.number(),
-                failed: z.number(),
-                errors: z.array(z.object({
-                  contact_id: z.string(),
-                  error: z.string(),
-                })),
-              }),
+              data: z.union([syncRun, syncPlan]),
+            }),
+          },
+        },
+      },
+      '409': {
+        description: 'A sync run is already in progress',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.boolean(),
+              error: z.string(),
+              data: syncRun,
             }),
           },
         },
@@ -46,12 +58,13 @@ export class SyncTrigger extends OpenAPIRoute<HandleArgs> {
 
   async handle(c: HandleArgs[0]) {
     try {
+      const data = await this.getValidatedData<typeof this.schema>();
       const env = c.env;
       
       // Validate that API keys are configured
-      if (!env.GHL_API_KEY) {
+      if (!hasGhlCredentials(env)) {
         return c.json(
-          { success: false, error: 'GoHighLevel API key not configured' },
+          { success: false, error: 'GoHighLevel API credentials not configured' },
           500
         );
       }
@@ -64,19 +77,48 @@ export class SyncTrigger extends OpenAPIRoute<HandleArgs> {
       }
 
       // Initialize sync service
-      const syncService = new ContactSyncService(
-        env.GHL_API_KEY,
-        env.CALLTOOLS_API_KEY,
-        env.CALLTOOLS_BASE_URL,
-        env.DB
-      );
+      const syncService = syncServiceForTenant(env, null);
+      const chunkSize = data.query.chunk_size
+        || (env.SYNC_RUN_CHUNK_SIZE ? parseInt(env.SYNC_RUN_CHUNK_SIZE) : 25);
+
+      // Dry runs don't touch sync_runs, so they can run alongside an active run
+      if (data.query.dry_run) {
+        const offset = data.query.offset || 0;
+        const page = await syncService.planContactsPage(offset, chunkSize);
+
+        return c.json({
+          success: true,
+          data: {
+            ...page.plan,
+            offset,
+            next_offset: page.hasMore ? offset + page.fetched : null,
+            total_contacts: page.total,
+          },
+        });
+      }
+
+      const runService = new SyncRunService(env.DB, syncService);
+
+      // Only one full sync at a time
+      const activeRun = await runService.getActiveRun();
+      if (activeRun) {
+        return c.json(
+          {
+            success: false,
+            error: `Sync run ${activeRun.id} is already in progress`,
+            data: SyncRunModel.serializer(activeRun),
+          },
+          409
+        );
+      }
 
-      // Run sync
-      const result = await syncService.syncColdContacts();
+      // Start the run and process the first chunk
+      const created = await runService.createRun(chunkSize);
+      const run = await runService.processNextChunk(created.id);
 
       return c.json({
         success: true,
-        data: result,
+        data: SyncRunModel.serializer(run || created),
       });
     } catch (error) {
       console.error('Sync error:', error);
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const tenant = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  ghl_location_id: z.string().describe('GHL location (sub-account) whose webhooks are routed to this tenant'),
+  ghl_api_key_secret: z.string().describe('Name of the Worker secret holding the location\'s GHL API key'),
+  calltools_api_key_secret: z.string().describe('Name of the Worker secret holding the CallTools API key'),
+  calltools_base_url: z.string().nullable().describe('Falls back to CALLTOOLS_BASE_URL'),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const TenantModel = {
+  tableName: 'tenants',
+  primaryKeys: ['id'],
+  schema: tenant,
+  serializer: (obj: object) => {
+    const row = obj as Record<string, string | number | null>;
+    return {
+      ...row,
+      enabled: Boolean(row.enabled),
+    };
+  },
+  serializerObject: tenant,
+};
+
+// calltools_base_url and enabled fall back to column defaults
+export const tenantFields = TenantModel.schema
+  .pick({
+    name: true,
+    ghl_location_id: true,
+    ghl_api_key_secret: true,
+    calltools_api_key_secret: true,
+    calltools_base_url: true,
+    enabled: true,
+  })
+  .partial()
+  .required({ name: true, ghl_location_id: true, ghl_api_key_secret: true, calltools_api_key_secret: true });
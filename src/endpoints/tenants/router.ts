@@ -0,0 +1,15 @@
+import { Hono } from 'hono';
+import { fromHono } from 'chanfana';
+import { TenantList } from './tenantList';
+import { TenantCreate } from './tenantCreate';
+import { TenantRead } from './tenantRead';
+import { TenantUpdate } from './tenantUpdate';
+import { TenantDelete } from './tenantDelete';
+
+export const tenantsRouter = fromHono(new Hono());
+
+tenantsRouter.get('/', TenantList);
+tenantsRouter.post('/', TenantCreate);
+tenantsRouter.get('/:id', TenantRead);
+tenantsRouter.put('/:id', TenantUpdate);
+tenantsRouter.delete('/:id', TenantDelete);
@@ -0,0 +1,10 @@
+import { D1CreateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { TenantModel, tenantFields } from './base';
+
+export class TenantCreate extends D1CreateEndpoint<HandleArgs> {
+  _meta = {
+    model: TenantModel,
+    fields: tenantFields,
+  };
+}
@@ -0,0 +1,9 @@
+import { D1DeleteEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { TenantModel } from './base';
+
+export class TenantDelete extends D1DeleteEndpoint<HandleArgs> {
+  _meta = {
+    model: TenantModel,
+  };
+}
@@ -0,0 +1,12 @@
+import { D1ListEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { TenantModel } from './base';
+
+export class TenantList extends D1ListEndpoint<HandleArgs> {
+  _meta = {
+    model: TenantModel,
+  };
+
+  searchFields = ['name', 'ghl_location_id'];
+  defaultOrderBy = 'id ASC';
+}
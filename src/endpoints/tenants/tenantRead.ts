@@ -0,0 +1,9 @@
+import { D1ReadEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { TenantModel } from './base';
+
+export class TenantRead extends D1ReadEndpoint<HandleArgs> {
+  _meta = {
+    model: TenantModel,
+  };
+}
@@ -0,0 +1,10 @@
+import { D1UpdateEndpoint } from 'chanfana';
+import { HandleArgs } from '../../types';
+import { TenantModel, tenantFields } from './base';
+
+export class TenantUpdate extends D1UpdateEndpoint<HandleArgs> {
+  _meta = {
+    model: TenantModel,
+    fields: tenantFields,
+  };
+}
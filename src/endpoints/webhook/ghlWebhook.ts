@@ -1,7 +1,10 @@
 import { OpenAPIRoute } from 'chanfana';
 import { z } from 'zod';
 import { HandleArgs } from '../../types';
-import { ContactSyncService } from '../../services/contactSyncService';
+import { contactSyncPlan } from '../sync/planSchema';
+import { parseDeletePolicy } from '../../services/contactSyncService';
+import { syncServiceForTenant, TenantDisabledError, TenantService, UnknownLocationError } from '../../services/tenantService';
+import { isContactDeleteEvent, WebhookQueueService } from '../../services/webhookQueueService';
 import { WebhookVerificationService } from '../../services/webhookVerification';
 
 // GoHighLevel webhook payload schema - flexible to handle different formats
@@ -20,7 +23,7 @@ export class GHLWebhook extends OpenAPIRoute<HandleArgs> {
   schema = {
     tags: ['Webhook'],
     summary: 'GoHighLevel webhook endpoint',
-    description: 'Receives webhooks from GoHighLevel for real-time contact syncing',
+    description: 'Receives webhooks from GoHighLevel and queues the contact for syncing. The location ID picks the tenant whose credentials are used. ContactDelete events are queued too and apply GHL_DELETE_POLICY in CallTools. Jobs run asynchronously with retries; jobs that keep failing land in /webhook/dead-letters.',
     request: {
       body: {
         content: {
@@ -32,20 +35,25 @@ export class GHLWebhook extends OpenAPIRoute<HandleArgs> {
       headers: z.object({
         'x-ghl-signature': z.string().optional(),
       }),
+      query: z.object({
+        dry_run: z.boolean().optional().describe('Return the sync plan instead of queueing the contact'),
+      }),
     },
     responses: {
       '200': {
-        description: 'Webhook processed successfully',
+        description: 'Webhook accepted and queued, or the dry-run plan',
         content: {
           'application/json': {
             schema: z.object({
               success: z.boolean(),
               message: z.string(),
-              data: z.object({
-                contact_id: z.string(),
-                action: z.enum(['synced', 'updated', 'excluded', 'failed']),
-                bucket_id: z.string().nullable(),
-              }).optional(),
+              data: z.union([
+                z.object({
+                  contact_id: z.string(),
+                  action: z.literal('queued'),
+                }),
+                contactSyncPlan,
+              ]).optional(),
             }),
           },
         },
@@ -56,6 +64,12 @@ export class GHLWebhook extends OpenAPIRoute<HandleArgs> {
       '400': {
         description: 'Invalid webhook payload',
       },
+      '403': {
+        description: 'The location belongs to a disabled tenant',
+      },
+      '404': {
+        description: 'The location belongs to no tenant and is not GHL_LOCATION_ID',
+      },
     },
   };
 
@@ -153,33 +167,62 @@ export class GHLWebhook extends OpenAPIRoute<HandleArgs> {
         );
       }
 
-      console.log(`Processing webhook for contact ${contactId}`);
+      const isDelete = isContactDeleteEvent(webhookData);
 
-      // Initialize sync service
-      const syncService = new ContactSyncService(
-        env.GHL_API_KEY,
-        env.CALLTOOLS_API_KEY,
-        env.CALLTOOLS_BASE_URL,
-        env.DB
+      // The default account's location (or none) syncs through the default account
+      const tenant = await new TenantService(env.DB).findByLocationId(
+        webhook.locationId || webhook.location_id || webhookData.location?.id,
+        env.GHL_LOCATION_ID || undefined
       );
 
-      // Sync the specific contact, passing webhook data to avoid API call
-      const result = await syncService.syncSingleContact(contactId, webhookData);
+      // Dry run: plan synchronously from the webhook data and skip the queue
+      if (c.req.query('dry_run') === 'true' && isDelete) {
+        return c.json({
+          success: true,
+          message: `Dry run - no changes made. The "${parseDeletePolicy(env.GHL_DELETE_POLICY)}" delete policy would be applied`,
+        });
+      }
+
+      if (c.req.query('dry_run') === 'true') {
+        const syncService = syncServiceForTenant(env, tenant);
+        const plan = await syncService.planSingleContact(contactId, webhookData);
 
-      console.log(`Sync result for ${contactId}: ${result.action} (success: ${result.success})`);
+        return c.json({
+          success: true,
+          message: 'Dry run - no changes made',
+          data: plan,
+        });
+      }
+
+      console.log(`Queueing ${isDelete ? 'deletion' : 'webhook'} for contact ${contactId}${tenant ? ` (tenant "${tenant.name}")` : ''}`);
+
+      // Acknowledge immediately; the queue consumer syncs (or applies the delete policy) with retries
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+      await queueService.enqueue({
+        source: 'webhook',
+        ghl_contact_id: contactId,
+        // Pass webhook data along to avoid a GHL API call
+        payload: webhookData,
+        tenant_id: tenant?.id ?? null,
+      });
 
       return c.json({
-        success: result.success,
-        message: result.success
-          ? `Contact ${result.action} successfully`
-          : `Failed to sync contact: ${result.error}`,
+        success: true,
+        message: isDelete ? 'Contact deletion queued' : 'Contact queued for sync',
         data: {
-          contact_id: result.contact_id,
-          action: result.action,
-          bucket_id: result.bucket_id,
+          contact_id: contactId,
+          action: 'queued',
         },
       });
     } catch (error) {
+      if (error instanceof TenantDisabledError) {
+        console.warn(error.message);
+        return c.json({ success: false, message: error.message }, 403);
+      }
+      if (error instanceof UnknownLocationError) {
+        console.warn(error.message);
+        return c.json({ success: false, message: error.message }, 404);
+      }
       console.error('Webhook processing error:', error);
       return c.json(
         {
@@ -1,7 +1,9 @@
 import { OpenAPIRoute } from 'chanfana';
 import { z } from 'zod';
 import { HandleArgs } from '../../types';
-import { ContactSyncService } from '../../services/contactSyncService';
+import { contactSyncPlan } from '../sync/planSchema';
+import { hasGhlCredentials, syncServiceForTenant, TenantDisabledError, TenantService, UnknownLocationError } from '../../services/tenantService';
+import { WebhookQueueService } from '../../services/webhookQueueService';
 
 // GHL Workflow payload schema - flexible to handle different formats
 const GHLWorkflowSchema = z.object({
@@ -27,7 +29,7 @@ export class GHLWorkflow extends OpenAPIRoute<HandleArgs> {
   schema = {
     tags: ['Webhook'],
     summary: 'GoHighLevel workflow endpoint (no signature required)',
-    description: 'Receives HTTP POST from GoHighLevel workflows for contact syncing. This endpoint does not require webhook signature verification.',
+    description: 'Receives HTTP POST from GoHighLevel workflows and queues the contact for syncing. This endpoint does not require webhook signature verification.',
     request: {
       body: {
         content: {
@@ -36,24 +38,35 @@ export class GHLWorkflow extends OpenAPIRoute<HandleArgs> {
           },
         },
       },
+      query: z.object({
+        dry_run: z.boolean().optional().describe('Return the sync plan instead of queueing the contact'),
+      }),
     },
     responses: {
       '200': {
-        description: 'Workflow processed successfully',
+        description: 'Workflow accepted and queued, or the dry-run plan',
         content: {
           'application/json': {
             schema: z.object({
               success: z.boolean(),
               message: z.string(),
-              data: z.object({
-                contact_id: z.string(),
-                action: z.enum(['synced', 'updated', 'excluded', 'failed']),
-                bucket_id: z.string().nullable(),
-              }).optional(),
+              data: z.union([
+                z.object({
+                  contact_id: z.string(),
+                  action: z.literal('queued'),
+                }),
+                contactSyncPlan,
+              ]).optional(),
             }),
           },
         },
       },
+      '403': {
+        description: 'The location belongs to a disabled tenant',
+      },
+      '404': {
+        description: 'The location belongs to no tenant and is not GHL_LOCATION_ID',
+      },
     },
   };
 
@@ -112,47 +125,64 @@ export class GHLWorkflow extends OpenAPIRoute<HandleArgs> {
 
       console.log(`Processing workflow for contact: ${contactId}`);
 
+      // The default account's location (or none) syncs through the default account
+      const tenant = await new TenantService(env.DB).findByLocationId(
+        workflowData.location?.id || workflowData.locationId || workflowData.location_id,
+        env.GHL_LOCATION_ID || undefined
+      );
+
       // Check API keys are configured
-      if (!env.GHL_API_KEY) {
+      if (!tenant && !hasGhlCredentials(env)) {
         return c.json(
-          { success: false, error: 'GoHighLevel API key not configured' },
+          { success: false, error: 'GoHighLevel API credentials not configured' },
           500
         );
       }
       
-      if (!env.CALLTOOLS_API_KEY) {
+      if (!tenant && !env.CALLTOOLS_API_KEY) {
         return c.json(
           { success: false, error: 'CallTools API key not configured' },
           500
         );
       }
 
-      // Initialize sync service
-      const syncService = new ContactSyncService(
-        env.GHL_API_KEY,
-        env.CALLTOOLS_API_KEY,
-        env.CALLTOOLS_BASE_URL,
-        env.DB
-      );
+      // Dry run: fetch and plan synchronously, skipping the queue
+      if (c.req.query('dry_run') === 'true') {
+        const syncService = syncServiceForTenant(env, tenant);
+        const plan = await syncService.planSingleContact(contactId);
 
-      // Sync the specific contact
-      console.log(`Syncing contact ${contactId} to CallTools...`);
-      const result = await syncService.syncSingleContact(contactId);
+        return c.json({
+          success: true,
+          message: 'Dry run - no changes made',
+          data: plan,
+        });
+      }
 
-      console.log('Sync result:', result);
+      // Acknowledge immediately; the queue consumer fetches the contact and syncs with retries
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+      await queueService.enqueue({
+        source: 'workflow',
+        ghl_contact_id: contactId,
+        tenant_id: tenant?.id ?? null,
+      });
 
       return c.json({
-        success: result.success,
-        message: result.success
-          ? `Contact ${result.action} successfully in CallTools`
-          : `Failed to sync contact: ${result.error}`,
+        success: true,
+        message: 'Contact queued for sync to CallTools',
         data: {
-          contact_id: result.contact_id,
-          action: result.action,
-          bucket_id: result.bucket_id,
+          contact_id: contactId,
+          action: 'queued',
         },
       });
     } catch (error) {
+      if (error instanceof TenantDisabledError) {
+        console.warn(error.message);
+        return c.json({ success: false, message: error.message }, 403);
+      }
+      if (error instanceof UnknownLocationError) {
+        console.warn(error.message);
+        return c.json({ success: false, message: error.message }, 404);
+      }
       console.error('Workflow processing error:', error);
       return c.json(
         {
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { fromHono } from 'chanfana';
 import { GHLWebhook } from './ghlWebhook';
 import { GHLWorkflow } from './ghlWorkflow';
+import { deadLettersRouter } from '../deadLetters/router';
 
 export const webhookRouter = fromHono(new Hono());
 
@@ -10,3 +11,6 @@ webhookRouter.post('/ghl', GHLWebhook);
 
 // GHL workflow endpoint (no signature required)
 webhookRouter.post('/ghl-workflow', GHLWorkflow);
+
+// Webhook jobs that exhausted their retries
+webhookRouter.route('/dead-letters', deadLettersRouter);
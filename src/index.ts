@@ -3,8 +3,16 @@ import { Hono } from "hono";
 import { tasksRouter } from "./endpoints/tasks/router";
 import { syncRouter } from "./endpoints/sync/router";
 import { webhookRouter } from "./endpoints/webhook/router";
+import { oauthRouter } from "./endpoints/oauth/router";
+import { bucketsRouter } from "./endpoints/buckets/router";
 import { ContentfulStatusCode } from "hono/utils/http-status";
 import { DummyEndpoint } from "./endpoints/dummyEndpoint";
+import { handleScheduled } from "./scheduled";
+import { handleQueue } from "./queue";
+import { WebhookJob } from "./services/webhookQueueService";
+
+// Durable Object classes must be exported from the main module
+export { CallToolsRateLimiter } from "./durableObjects/rateLimiter";
 
 // Start a Hono app
 const app = new Hono<{ Bindings: Env }>();
@@ -51,8 +59,22 @@ openapi.route("/sync", syncRouter);
 // Register Webhook router
 openapi.route("/webhook", webhookRouter);
 
+// Register OAuth router
+openapi.route("/oauth", oauthRouter);
+
+// Register CallTools bucket router
+openapi.route("/calltools/buckets", bucketsRouter);
+
 // Register other endpoints
 openapi.post("/dummy/:slug", DummyEndpoint);
 
-// Export the Hono app
-export default app;
+// Export the Hono app alongside the cron and queue handlers
+export default {
+  fetch: app.fetch,
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(handleScheduled(controller, env));
+  },
+  queue(batch, env) {
+    return handleQueue(batch, env);
+  },
+} satisfies ExportedHandler<Env, WebhookJob>;
@@ -0,0 +1,61 @@
+import { isRetryableError } from './clients/http';
+import { parseDeletePolicy } from './services/contactSyncService';
+import { syncServiceForTenant, TenantService } from './services/tenantService';
+import {
+  isContactDeleteEvent,
+  isContactDndEvent,
+  MAX_WEBHOOK_ATTEMPTS,
+  retryDelaySeconds,
+  WebhookJob,
+  WebhookQueueService,
+} from './services/webhookQueueService';
+
+/**
+ * Queue consumer for webhook-triggered syncs
+ * Transient failures are retried with exponential backoff, then moved to the dead-letter table
+ */
+export async function handleQueue(batch: MessageBatch<WebhookJob>, env: Env): Promise<void> {
+  const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+  const tenants = new TenantService(env.DB);
+
+  for (const message of batch.messages) {
+    const job = message.body;
+    let error: string;
+    let retryable = true;
+
+    try {
+      // Each GHL location syncs with its own credentials
+      const syncService = syncServiceForTenant(env, await tenants.getTenantForJob(job));
+
+      const result = isContactDeleteEvent(job.payload)
+        ? await syncService.handleContactDeleted(job.ghl_contact_id, parseDeletePolicy(env.GHL_DELETE_POLICY))
+        : await syncService.syncSingleContact(
+            job.ghl_contact_id,
+            // DND events don't carry the full contact, so fetch it from GHL
+            isContactDndEvent(job.payload) ? undefined : job.payload
+          );
+      console.log(`Queued sync result for ${job.ghl_contact_id}: ${result.action} (attempt ${message.attempts})`);
+
+      if (result.success) {
+        message.ack();
+        continue;
+      }
+
+      error = result.error || 'Unknown error';
+      retryable = result.retryable ?? true;
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : 'Unknown error';
+      retryable = isRetryableError(caught);
+    }
+
+    // Permanent failures (e.g. CallTools rejecting the contact) go straight to the dead-letter table
+    if (!retryable || message.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      await queueService.recordDeadLetter(message, error);
+      message.ack();
+    } else {
+      const delaySeconds = retryDelaySeconds(message.attempts);
+      console.warn(`Retrying sync for ${job.ghl_contact_id} in ${delaySeconds}s: ${error}`);
+      message.retry({ delaySeconds });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { ContactSyncService } from './services/contactSyncService';
+import { SyncRunService } from './services/syncRunService';
+import { hasGhlCredentials, syncServiceForTenant, TenantService } from './services/tenantService';
+import { WebhookQueueService } from './services/webhookQueueService';
+
+// Must match the cron expressions in wrangler.jsonc
+export const SYNC_RUN_CRON = '* * * * *';
+export const INCREMENTAL_SYNC_CRON = '*/5 * * * *';
+export const HELD_RELEASE_CRON = '*/10 * * * *';
+export const RECONCILE_CRON = '0 * * * *';
+export const POLICY_ROLLOVER_CRON = '15 6 * * *';
+export const RETRY_FAILED_CRON = '*/15 * * * *';
+
+/**
+ * Cron entry point
+ * Each cron expression fires as its own invocation, so every job gets its own subrequest budget
+ */
+export async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+  console.log(`Scheduled sync triggered by cron "${controller.cron}"`);
+
+  switch (controller.cron) {
+    case SYNC_RUN_CRON: {
+      // Continue the active full sync run, one chunk per invocation; runs sync the default account
+      if (!hasDefaultAccount(env)) {
+        console.error('Sync run skipped: GHL credentials or CALLTOOLS_API_KEY not configured');
+        break;
+      }
+      const runService = new SyncRunService(env.DB, syncServiceForTenant(env, null));
+      await runService.continueActiveRun();
+      break;
+    }
+    case INCREMENTAL_SYNC_CRON: {
+      // Pull GHL contacts changed since the last checkpoint so missed webhooks self-heal
+      const maxPages = env.INCREMENTAL_SYNC_MAX_PAGES ? parseInt(env.INCREMENTAL_SYNC_MAX_PAGES) : undefined;
+      await forEachAccount(env, async (syncService) => {
+        await syncService.syncUpdatedContacts(maxPages);
+      });
+      break;
+    }
+    case HELD_RELEASE_CRON: {
+      // Queue contacts held outside their calling window once it opens
+      const batchSize = env.HELD_RELEASE_BATCH_SIZE ? parseInt(env.HELD_RELEASE_BATCH_SIZE) : 100;
+      const queueService = new WebhookQueueService(env.WEBHOOK_QUEUE, env.DB);
+      await forEachAccount(env, async (syncService) => {
+        const contactIds = await syncService.releaseHeldContacts(batchSize);
+        await queueService.enqueueBatch(
+          contactIds.map((ghlContactId) => ({ source: 'calling_window' as const, ghl_contact_id: ghlContactId }))
+        );
+      });
+      break;
+    }
+    case RECONCILE_CRON: {
+      // Check the next batch of synced contacts for drift from their GHL segment
+      const batchSize = env.RECONCILE_BATCH_SIZE ? parseInt(env.RECONCILE_BATCH_SIZE) : 50;
+      await forEachAccount(env, async (syncService) => {
+        await syncService.reconcileNextBatch(batchSize, env.RECONCILE_AUTO_FIX === 'true');
+      });
+      break;
+    }
+    case POLICY_ROLLOVER_CRON: {
+      // Move clients whose latest policy year has passed into the lapsed / renewal bucket
+      const batchSize = env.POLICY_ROLLOVER_BATCH_SIZE ? parseInt(env.POLICY_ROLLOVER_BATCH_SIZE) : 100;
+      await forEachAccount(env, async (syncService) => {
+        await syncService.rolloverExpiredPolicies(batchSize, env.POLICY_LAPSED_BUCKET ?? '', env.POLICY_LAPSED_TAG ?? '');
+      });
+      break;
+    }
+    case RETRY_FAILED_CRON: {
+      // Sync failed contacts again once their backoff has passed
+      const batchSize = env.RETRY_FAILED_BATCH_SIZE ? parseInt(env.RETRY_FAILED_BATCH_SIZE) : 25;
+      const maxAttempts = env.RETRY_FAILED_MAX_ATTEMPTS ? parseInt(env.RETRY_FAILED_MAX_ATTEMPTS) : 5;
+      const baseDelayMinutes = env.RETRY_FAILED_BASE_DELAY_MINUTES ? parseInt(env.RETRY_FAILED_BASE_DELAY_MINUTES) : 15;
+      await forEachAccount(env, async (syncService) => {
+        await syncService.retryFailedContacts(batchSize, maxAttempts, baseDelayMinutes);
+      });
+      break;
+    }
+    default:
+      console.warn(`No scheduled job registered for cron "${controller.cron}"`);
+  }
+}
+
+function hasDefaultAccount(env: Env): boolean {
+  return hasGhlCredentials(env) && Boolean(env.CALLTOOLS_API_KEY);
+}
+
+/**
+ * Run a job for the default account, when configured, and then for every enabled tenant
+ * A failing account is logged and skipped so the others still run
+ */
+async function forEachAccount(env: Env, job: (syncService: ContactSyncService) => Promise<void>): Promise<void> {
+  const tenants = await new TenantService(env.DB).getEnabledTenants();
+
+  if (hasDefaultAccount(env)) {
+    try {
+      await job(syncServiceForTenant(env, null));
+    } catch (error) {
+      console.error('Scheduled job failed for the default account:', error);
+    }
+  } else if (tenants.length === 0) {
+    console.error('Scheduled sync skipped: GHL credentials or CALLTOOLS_API_KEY not configured');
+  }
+
+  for (const tenant of tenants) {
+    try {
+      await job(syncServiceForTenant(env, tenant));
+    } catch (error) {
+      console.error(`Scheduled job failed for tenant "${tenant.name}":`, error);
+    }
+  }
+}
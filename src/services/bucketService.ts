@@ -0,0 +1,188 @@
+/**
+ * Bucket Service
+ * Manages CallTools buckets (dialer lists) and tracks which synced contacts are in them
+ */
+
+import { CallToolsBucket, CallToolsClient } from '../clients/calltools';
+import { SyncedContact } from './contactSyncService';
+import { SuppressionService } from './suppressionService';
+import { responseStatusFromError, SyncEventService } from './syncEventService';
+
+export interface BucketSummary extends CallToolsBucket {
+  synced_contact_count: number; // members known in synced_contacts
+}
+
+/**
+ * A contact that must not be put in a dialer bucket, e.g. a suppressed phone
+ */
+export class BucketMemberBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BucketMemberBlockedError';
+  }
+}
+
+// Membership comes from each contact's latest successful bucket event, so
+// contacts added or removed directly in CallTools aren't reflected
+const LATEST_BUCKET_EVENTS = `
+  SELECT e.ghl_contact_id, e.detail AS bucket_id, e.event_type
+  FROM sync_events e
+  JOIN (
+    SELECT ghl_contact_id, detail, MAX(id) AS id
+    FROM sync_events
+    WHERE event_type IN ('bucket_added', 'bucket_removed') AND status = 'success'
+    GROUP BY ghl_contact_id, detail
+  ) latest ON latest.id = e.id
+`;
+
+export class BucketService {
+  private db: D1Database;
+  private client: CallToolsClient;
+  private tenantId: number | null;
+  private events: SyncEventService;
+  private suppressions: SuppressionService;
+
+  // Bucket IDs are per CallTools account, so only the tenant's contacts are considered
+  constructor(db: D1Database, client: CallToolsClient, tenantId: number | null = null) {
+    this.db = db;
+    this.client = client;
+    this.tenantId = tenantId;
+    this.events = new SyncEventService(db);
+    this.suppressions = new SuppressionService(db);
+  }
+
+  /**
+   * List the account's buckets with the number of synced contacts in each
+   */
+  async listBuckets(): Promise<BucketSummary[]> {
+    const buckets = await this.client.getBuckets();
+
+    const result = await this.db
+      .prepare(`
+        SELECT m.bucket_id, COUNT(*) AS count
+        FROM (${LATEST_BUCKET_EVENTS}) m
+        JOIN synced_contacts sc ON sc.ghl_contact_id = m.ghl_contact_id
+        WHERE m.event_type = 'bucket_added' AND sc.sync_status != 'deleted' AND sc.tenant_id IS ?
+        GROUP BY m.bucket_id
+      `)
+      .bind(this.tenantId)
+      .all<{ bucket_id: string; count: number }>();
+
+    const counts = new Map((result.results || []).map((row) => [row.bucket_id, row.count]));
+    return buckets.map((bucket) => ({
+      ...bucket,
+      synced_contact_count: counts.get(String(bucket.id)) ?? 0,
+    }));
+  }
+
+  async createBucket(name: string, description?: string): Promise<CallToolsBucket> {
+    return await this.client.createBucket(name, description);
+  }
+
+  async updateBucket(bucketId: string, changes: { name?: string; description?: string }): Promise<CallToolsBucket> {
+    return await this.client.updateBucket(bucketId, changes);
+  }
+
+  /**
+   * List the synced contacts in a bucket, most recently synced first
+   */
+  async getMembers(bucketId: string, limit: number = 100, offset: number = 0): Promise<{ members: SyncedContact[]; total: number }> {
+    const from = `
+      FROM (${LATEST_BUCKET_EVENTS}) m
+      JOIN synced_contacts sc ON sc.ghl_contact_id = m.ghl_contact_id
+      WHERE m.bucket_id = ? AND m.event_type = 'bucket_added' AND sc.sync_status != 'deleted' AND sc.tenant_id IS ?
+    `;
+
+    const [members, total] = await Promise.all([
+      this.db
+        .prepare(`SELECT sc.* ${from} ORDER BY sc.last_sync_at DESC, sc.id DESC LIMIT ? OFFSET ?`)
+        .bind(bucketId, this.tenantId, limit, offset)
+        .all<SyncedContact>(),
+      this.db
+        .prepare(`SELECT COUNT(*) AS count ${from}`)
+        .bind(bucketId, this.tenantId)
+        .first<{ count: number }>(),
+    ]);
+
+    return {
+      members: members.results || [],
+      total: total?.count ?? 0,
+    };
+  }
+
+  /**
+   * Add a synced contact to a bucket
+   * Returns null if the contact isn't synced to this account's CallTools; throws
+   * BucketMemberBlockedError for suppressed and merged contacts, which never go to the dialer
+   */
+  async addMember(bucketId: string, ghlContactId: string): Promise<SyncedContact | null> {
+    return await this.changeMembership(bucketId, ghlContactId, 'bucket_added');
+  }
+
+  /**
+   * Remove a synced contact from a bucket
+   * Returns null if the contact isn't synced to this account's CallTools
+   */
+  async removeMember(bucketId: string, ghlContactId: string): Promise<SyncedContact | null> {
+    return await this.changeMembership(bucketId, ghlContactId, 'bucket_removed');
+  }
+
+  private async changeMembership(
+    bucketId: string,
+    ghlContactId: string,
+    eventType: 'bucket_added' | 'bucket_removed'
+  ): Promise<SyncedContact | null> {
+    const contact = await this.db
+      .prepare(`
+        SELECT * FROM synced_contacts
+        WHERE ghl_contact_id = ? AND tenant_id IS ? AND calltools_contact_id IS NOT NULL AND sync_status != 'deleted'
+      `)
+      .bind(ghlContactId, this.tenantId)
+      .first<SyncedContact>();
+
+    if (!contact) {
+      return null;
+    }
+    if (eventType === 'bucket_added') {
+      await this.assertDialable(contact);
+    }
+
+    const event = {
+      ghl_contact_id: ghlContactId,
+      calltools_contact_id: contact.calltools_contact_id,
+      event_type: eventType,
+      detail: bucketId,
+      message: 'Changed through the bucket API',
+    };
+
+    try {
+      const status = eventType === 'bucket_added'
+        ? await this.client.addContactToBucket(contact.calltools_contact_id!, bucketId)
+        : await this.client.removeContactFromBucket(contact.calltools_contact_id!, bucketId);
+      this.events.record({ ...event, response_status: status });
+      return contact;
+    } catch (error) {
+      this.events.record({
+        ...event,
+        status: 'failed',
+        response_status: responseStatusFromError(error),
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    } finally {
+      await this.events.flush();
+    }
+  }
+
+  private async assertDialable(contact: SyncedContact): Promise<void> {
+    if (contact.merged_into) {
+      throw new BucketMemberBlockedError(`Contact was merged into ${contact.merged_into}`);
+    }
+    if (contact.sync_status === 'suppressed') {
+      throw new BucketMemberBlockedError('Contact is suppressed');
+    }
+    if (contact.phone && await this.suppressions.find(contact.phone)) {
+      throw new BucketMemberBlockedError(`${contact.phone} is on the suppression list`);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * CallTools Lookup Cache
+ * Remembers CallTools tag and bucket IDs by name, so tagging and bucketing a contact cost a single PATCH
+ */
+
+import { CallToolsClient } from '../clients/calltools';
+
+export type LookupKind = 'tag' | 'bucket';
+
+export interface CachedLookup {
+  id: number;
+  account: string;
+  kind: LookupKind;
+  name: string;
+  calltools_id: string;
+  expires_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const DEFAULT_LOOKUP_TTL_SECONDS = 24 * 60 * 60;
+
+export class CallToolsLookupCache {
+  private db: D1Database;
+  private account: string;
+  private ttlSeconds: number;
+
+  // IDs differ between CallTools accounts, so each account (tenant) has its own entries
+  constructor(db: D1Database, account: string = 'default', ttlSeconds: number = DEFAULT_LOOKUP_TTL_SECONDS) {
+    this.db = db;
+    this.account = account;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Get the cached CallTools ID for a name, unless it expired
+   */
+  async get(kind: LookupKind, name: string): Promise<string | null> {
+    const entry = await this.db
+      .prepare(`
+        SELECT calltools_id FROM calltools_lookup_cache
+        WHERE account = ? AND kind = ? AND name = ? AND expires_at > ?
+      `)
+      .bind(this.account, kind, normalizeName(name), new Date().toISOString())
+      .first<{ calltools_id: string }>();
+
+    return entry?.calltools_id ?? null;
+  }
+
+  /**
+   * Cache the CallTools IDs of several names at once
+   */
+  async setMany(kind: LookupKind, entries: Array<{ name: string; calltools_id: string }>): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000).toISOString();
+    const statement = this.db.prepare(`
+      INSERT INTO calltools_lookup_cache (account, kind, name, calltools_id, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(account, kind, name) DO UPDATE SET
+        calltools_id = excluded.calltools_id,
+        expires_at = excluded.expires_at
+    `);
+
+    await this.db.batch(
+      entries.map((entry) =>
+        statement.bind(this.account, kind, normalizeName(entry.name), String(entry.calltools_id), expiresAt)
+      )
+    );
+    return entries.length;
+  }
+
+  async set(kind: LookupKind, name: string, calltoolsId: string): Promise<void> {
+    await this.setMany(kind, [{ name, calltools_id: calltoolsId }]);
+  }
+
+  /**
+   * Drop every name cached for a CallTools ID, e.g. after CallTools answered 404 for it
+   */
+  async invalidate(kind: LookupKind, calltoolsId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM calltools_lookup_cache WHERE account = ? AND kind = ? AND calltools_id = ?')
+      .bind(this.account, kind, String(calltoolsId))
+      .run();
+  }
+
+  /**
+   * Cache every tag and bucket in the CallTools account
+   */
+  async warm(client: CallToolsClient): Promise<{ tags: number; buckets: number }> {
+    const [tags, buckets] = await Promise.all([client.getTags(), client.getBuckets()]);
+
+    return {
+      tags: await this.setMany('tag', tags.map((tag) => ({ name: tag.name, calltools_id: String(tag.id) }))),
+      buckets: await this.setMany('bucket', buckets.map((bucket) => ({ name: bucket.name, calltools_id: String(bucket.id) }))),
+    };
+  }
+
+  /**
+   * Get every entry for this account, expired ones included
+   */
+  async list(): Promise<CachedLookup[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM calltools_lookup_cache WHERE account = ? ORDER BY kind ASC, name ASC')
+      .bind(this.account)
+      .all<CachedLookup>();
+
+    return result.results || [];
+  }
+
+  /**
+   * Remove every entry for this account
+   */
+  async flush(): Promise<number> {
+    const result = await this.db
+      .prepare('DELETE FROM calltools_lookup_cache WHERE account = ?')
+      .bind(this.account)
+      .run();
+
+    return result.meta.changes;
+  }
+}
+
+/**
+ * Cache account for a tenant, or for the default account when tenantId is null
+ */
+export function lookupCacheAccount(tenantId: number | null): string {
+  return tenantId === null ? 'default' : `tenant:${tenantId}`;
+}
+
+// CallTools matches tag and bucket names without regard to case
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,201 @@
+/**
+ * Contact Import Service
+ * Validates lead vendor CSV files and pushes each row to GHL and through the regular CallTools sync
+ */
+
+import { GHLContactInput } from '../clients/gohighlevel';
+import { parseCsv } from '../utils/csv';
+import { parsePhone } from '../utils/phone';
+import { ContactSyncOutcome, ContactSyncService } from './contactSyncService';
+import { splitRuleList } from './segmentRuleService';
+
+export type ImportField = 'first_name' | 'last_name' | 'name' | 'phone' | 'email' | 'tags' | 'state';
+
+export interface ImportRowResult {
+  row: number; // line in the file, the header being line 1
+  status: 'imported' | 'invalid' | 'failed';
+  ghl_contact_id: string | null;
+  action: ContactSyncOutcome['action'] | null;
+  bucket_id: string | null;
+  errors: string[];
+}
+
+export interface ImportResult {
+  total: number;
+  imported: number;
+  invalid: number; // rows that failed validation and were not sent anywhere
+  failed: number; // valid rows GHL or CallTools rejected
+  rows: ImportRowResult[];
+}
+
+// Every row costs a GHL upsert plus the CallTools sync calls (about 5 subrequests in all), so files
+// are imported in slices that stay well inside the Workers limit of 1000 subrequests per request
+export const MAX_IMPORT_ROWS = 40;
+
+const IMPORT_FIELDS: ImportField[] = ['first_name', 'last_name', 'name', 'phone', 'email', 'tags', 'state'];
+
+// Header names recognized without a mapping, compared without case, spaces or punctuation
+const DEFAULT_COLUMNS: Record<string, ImportField> = {
+  firstname: 'first_name',
+  first: 'first_name',
+  givenname: 'first_name',
+  lastname: 'last_name',
+  last: 'last_name',
+  surname: 'last_name',
+  familyname: 'last_name',
+  name: 'name',
+  fullname: 'name',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  mobilephone: 'phone',
+  cell: 'phone',
+  cellphone: 'phone',
+  email: 'email',
+  emailaddress: 'email',
+  tags: 'tags',
+  tag: 'tags',
+  state: 'state',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A file that can't be imported at all, e.g. without a phone column
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export class ContactImportService {
+  private syncService: ContactSyncService;
+  private defaultPhoneRegion: string;
+
+  constructor(syncService: ContactSyncService, defaultPhoneRegion: string = 'US') {
+    this.syncService = syncService;
+    this.defaultPhoneRegion = defaultPhoneRegion;
+  }
+
+  /**
+   * Import a CSV file whose first line is a header
+   * mapping is comma-separated column=field pairs for headers that aren't recognized by name;
+   * extraTags are added to every row, e.g. the vendor's lead tag
+   */
+  async importCsv(csv: string, mapping?: string, extraTags: string[] = []): Promise<ImportResult> {
+    const [header, ...rows] = parseCsv(csv);
+    if (!header || rows.length === 0) {
+      throw new ImportFileError('The CSV has no data rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ImportFileError(`The CSV has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+    }
+
+    const columns = mapColumns(header, mapping);
+    if (!columns.includes('phone')) {
+      throw new ImportFileError('No phone column; name it "phone" or map it, e.g. X-Column-Mapping: Mobile=phone');
+    }
+    if (!columns.includes('first_name') && !columns.includes('name')) {
+      throw new ImportFileError('No first name column; name it "first_name" or "name", or map it');
+    }
+
+    const result: ImportResult = { total: rows.length, imported: 0, invalid: 0, failed: 0, rows: [] };
+
+    for (const [index, fields] of rows.entries()) {
+      const rowResult = await this.importRow(index + 2, columns, fields, extraTags);
+      result[rowResult.status]++;
+      result.rows.push(rowResult);
+    }
+
+    console.log(`Imported ${result.imported} of ${result.total} CSV rows (${result.invalid} invalid, ${result.failed} failed)`);
+    return result;
+  }
+
+  private async importRow(
+    row: number,
+    columns: Array<ImportField | null>,
+    fields: string[],
+    extraTags: string[]
+  ): Promise<ImportRowResult> {
+    const rowResult: ImportRowResult = { row, status: 'invalid', ghl_contact_id: null, action: null, bucket_id: null, errors: [] };
+
+    const values: Partial<Record<ImportField, string>> = {};
+    columns.forEach((field, index) => {
+      const value = fields[index]?.trim();
+      if (field && value) values[field] = value;
+    });
+
+    // A full name fills in whichever name columns are missing
+    const [firstFromName, ...lastFromName] = (values.name || '').split(/\s+/);
+    const firstName = values.first_name || firstFromName;
+    const lastName = values.last_name || lastFromName.join(' ');
+
+    if (!firstName) {
+      rowResult.errors.push('First name is required');
+    }
+
+    const phone = parsePhone(values.phone, this.defaultPhoneRegion);
+    if (!phone.valid) {
+      rowResult.errors.push(`Invalid phone: ${phone.reason}`);
+    }
+
+    if (values.email && !EMAIL_PATTERN.test(values.email)) {
+      rowResult.errors.push(`Invalid email: ${values.email}`);
+    }
+
+    if (!phone.valid || rowResult.errors.length > 0) {
+      return rowResult;
+    }
+
+    const input: GHLContactInput = {
+      firstName,
+      lastName: lastName || undefined,
+      email: values.email,
+      phone: phone.e164,
+      tags: [...new Set([...splitRuleList(values.tags), ...extraTags])],
+      state: values.state,
+    };
+
+    try {
+      const outcome = await this.syncService.importContact(input);
+      rowResult.status = outcome.success ? 'imported' : 'failed';
+      rowResult.ghl_contact_id = outcome.contact_id;
+      rowResult.action = outcome.action;
+      rowResult.bucket_id = outcome.bucket_id;
+      if (outcome.error) rowResult.errors.push(outcome.error);
+    } catch (error) {
+      console.error(`Error importing CSV row ${row}:`, error);
+      rowResult.status = 'failed';
+      rowResult.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return rowResult;
+  }
+}
+
+/**
+ * The import field of each header column, or null for columns that aren't imported
+ */
+function mapColumns(header: string[], mapping?: string): Array<ImportField | null> {
+  const mapped = new Map<string, ImportField>();
+  for (const pair of splitRuleList(mapping)) {
+    const [column, field] = pair.split('=').map((part) => part.trim());
+    if (!column || !IMPORT_FIELDS.includes(field as ImportField)) {
+      throw new ImportFileError(`Invalid mapping "${pair}"; use column=field with a field of ${IMPORT_FIELDS.join(', ')}`);
+    }
+    if (!header.some((name) => normalizeHeader(name) === normalizeHeader(column))) {
+      throw new ImportFileError(`Mapped column "${column}" is not in the CSV header`);
+    }
+    mapped.set(normalizeHeader(column), field as ImportField);
+  }
+
+  const headers = header.map(normalizeHeader);
+
+  return headers.map((column) => mapped.get(column) ?? DEFAULT_COLUMNS[column] ?? null);
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
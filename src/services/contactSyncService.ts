@@ -1,20 +1,166 @@
-import { GoHighLevelClient, GHLContact } from '../clients/gohighlevel';
-import { CallToolsClient, CallToolsContact } from '../clients/calltools';
+import { GoHighLevelClient, GHLClient, GHLContact, GHLContactInput } from '../clients/gohighlevel';
+import { CallToolsClient, CallToolsContact, CallToolsContactResponse } from '../clients/calltools';
+import { isRetryableError, RateLimiter } from '../clients/http';
+import { bucketForTimezone, latestPolicyYear, SegmentRule, SegmentRuleService, splitRuleList } from './segmentRuleService';
+import { SyncCheckpointService } from './syncCheckpointService';
+import { SyncEventService, responseStatusFromError } from './syncEventService';
+import { SuppressionService } from './suppressionService';
+import { FieldMappingService } from './fieldMappingService';
+import { CallToolsLookupCache, lookupCacheAccount } from './callToolsLookupCache';
+import { parsePhone, PhoneParseResult } from '../utils/phone';
+import { CallingWindow, inferTimezone, nextWindowOpening, parseCallingWindow, TimezoneInference } from '../utils/timezone';
+
+const GHL_CONTACTS_CHECKPOINT = 'ghl_contacts';
+const RECONCILE_CHECKPOINT = 'reconcile';
+
+// Message of the bucket_added events the policy rollover records, so its buckets can be found again
+const POLICY_LAPSED_BUCKET_MESSAGE = 'Policy lapsed';
 
 export interface SyncResult {
   total_processed: number;
   synced: number;
   updated: number;
   excluded_customers: number;
+  held: number;
   failed: number;
-  bucket_name: string;
-  bucket_id: string | null;
   errors: Array<{
     contact_id: string;
     error: string;
+    retryable?: boolean; // false when syncing again can't help, e.g. an invalid phone
   }>;
 }
 
+export interface ContactSyncOutcome {
+  success: boolean;
+  contact_id: string;
+  action: 'synced' | 'updated' | 'excluded' | 'held' | 'failed';
+  bucket_id: string | null;
+  error?: string;
+  retryable?: boolean; // false when the API rejected the request and retrying won't help
+}
+
+export interface RetryFailedResult {
+  attempted: number;
+  recovered: number;
+  retrying: number; // failed again, with another retry scheduled
+  failed_permanently: number;
+  contacts: Array<{
+    contact_id: string;
+    attempt: number;
+    outcome: 'recovered' | 'retrying' | 'failed_permanently';
+    action: ContactSyncOutcome['action'];
+    error?: string;
+    next_retry_at?: string;
+  }>;
+}
+
+// What happens in CallTools when a contact is deleted in GHL
+export type GhlDeletePolicy = 'remove_from_buckets' | 'delete' | 'mark';
+
+export interface ContactDeleteOutcome {
+  success: boolean;
+  contact_id: string;
+  action: 'deleted' | 'skipped' | 'failed';
+  policy: GhlDeletePolicy;
+  error?: string;
+  retryable?: boolean;
+}
+
+const GHL_DELETE_POLICIES: GhlDeletePolicy[] = ['remove_from_buckets', 'delete', 'mark'];
+
+/**
+ * Read GHL_DELETE_POLICY, falling back to removing the contact from managed buckets
+ */
+export function parseDeletePolicy(value: string | undefined): GhlDeletePolicy {
+  return GHL_DELETE_POLICIES.find((policy) => policy === value) ?? 'remove_from_buckets';
+}
+
+export type CallToolsMatch = 'mapping' | 'phone' | 'email';
+
+interface ResolvedCallToolsContact {
+  contact: CallToolsContactResponse | null;
+  matchedBy: CallToolsMatch | null;
+  staleMappingId: string | null; // stored calltools_contact_id that no longer exists in CallTools
+}
+
+interface ContactRoute {
+  bucketId: string | null;
+  removeBucketIds: string[];
+}
+
+export interface PlannedOperation {
+  type: 'create' | 'update' | 'repair_mapping' | 'move_bucket' | 'add_tag' | 'remove_tag' | 'exclude' | 'mark_customer' | 'hold';
+  target: string | null; // bucket ID, tag name, or when a hold ends
+  from?: string[]; // buckets a move_bucket takes the contact out of
+}
+
+export interface ContactSyncPlan {
+  contact_id: string;
+  rule: string | null;
+  action: ContactSyncOutcome['action'];
+  calltools_contact_id: string | null;
+  matched_by: CallToolsMatch | null;
+  operations: PlannedOperation[];
+  reason?: string;
+}
+
+export interface SyncPlan {
+  summary: SyncResult;
+  contacts: ContactSyncPlan[];
+}
+
+// Ways a contact's CallTools or D1 state can differ from what its GHL tags say
+export type DriftType =
+  | 'missing_calltools_contact' // synced segment, but no CallTools contact
+  | 'missing_bucket' // not in the bucket its segment routes to
+  | 'stray_bucket' // in a managed bucket its segment doesn't route to
+  | 'missing_tag' // lacks its segment's CallTools tag
+  | 'stray_tag' // still has a tag its segment removes
+  | 'customer_not_marked'; // segment marks customers, D1 record doesn't
+
+export interface ContactDrift {
+  type: DriftType;
+  target: string | null; // bucket ID or tag name
+  fixed: boolean;
+  error?: string;
+}
+
+export interface ContactReconciliation {
+  contact_id: string;
+  calltools_contact_id: string | null;
+  rule: string | null;
+  drift: ContactDrift[];
+  error?: string; // the contact couldn't be checked
+}
+
+export interface ReconcileReport {
+  checked: number;
+  drifted: number;
+  fixed: number; // drift items corrected
+  failed: number;
+  contacts: ContactReconciliation[]; // drifted and failed contacts only
+  next_after_id: number | null; // null once the last synced contact was checked
+}
+
+export interface PolicyRolloverResult {
+  checked: number;
+  lapsed: number;
+  current: number; // GHL tags already show a current policy year
+  suppressed: number; // pulled from the dialer instead of lapsed
+  failed: number;
+  errors: Array<{ contact_id: string; error: string }>;
+}
+
+// The CallTools state a contact's GHL tags call for
+interface ExpectedSegment {
+  rule: SegmentRule | null;
+  synced: boolean; // false when the contact belongs in no managed bucket
+  bucketId: string | null;
+  tag: string | null;
+  removeTags: string[];
+  markCustomer: boolean;
+}
+
 export interface SyncedContact {
   id?: number;
   ghl_contact_id: string;
@@ -23,122 +169,353 @@ export interface SyncedContact {
   last_name: string | null;
   phone: string | null;
   email: string | null;
-  sync_status: 'pending' | 'synced' | 'failed' | 'excluded';
+  sync_status: 'pending' | 'synced' | 'failed' | 'failed_permanently' | 'excluded' | 'merged' | 'deleted' | 'suppressed' | 'held';
   last_sync_at: string | null;
   error_message: string | null;
   is_customer: number;
+  merged_into?: string | null;
+  tenant_id?: number | null;
+  timezone?: string | null;
+  timezone_source?: TimezoneInference['source'] | null;
+  held_until?: string | null;
+  policy_year?: number | null; // latest "ACA Active <year>" tag, for year rules
+  policy_lapsed_at?: string | null; // when the policy rollover moved the contact to the lapsed bucket
+  retry_attempts?: number; // retries of a failed sync so far
+  next_retry_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
 export class ContactSyncService {
-  private ghlClient: GoHighLevelClient;
+  private ghlClient: GHLClient;
   private callToolsClient: CallToolsClient;
+  private segmentRules: SegmentRuleService;
+  private checkpoints: SyncCheckpointService;
+  private events: SyncEventService;
+  private suppressions: SuppressionService;
+  private fieldMappings: FieldMappingService;
   private db: D1Database;
+  private defaultPhoneRegion: string;
+  private callingWindow: CallingWindow | null;
+  private tenantId: number | null;
 
+  // ghl is a v1 or v2 GHL client, or a v1 API key
+  // Contacts are only held outside their local calling window when one is configured
+  // tenantId is null for the default account configured through env
+  // Every CallTools request waits for a permit from callToolsRateLimiter, when one is given
   constructor(
-    ghlApiKey: string,
+    ghl: GHLClient | string,
     callToolsApiKey: string,
     callToolsBaseUrl: string | undefined,
-    db: D1Database
+    db: D1Database,
+    defaultPhoneRegion: string = 'US',
+    callingWindow?: string,
+    tenantId: number | null = null,
+    callToolsRateLimiter?: RateLimiter
   ) {
-    this.ghlClient = new GoHighLevelClient(ghlApiKey);
-    this.callToolsClient = new CallToolsClient(callToolsApiKey, callToolsBaseUrl);
+    this.ghlClient = typeof ghl === 'string' ? new GoHighLevelClient(ghl) : ghl;
+    this.callToolsClient = new CallToolsClient(
+      callToolsApiKey,
+      callToolsBaseUrl,
+      { rateLimiter: callToolsRateLimiter },
+      new CallToolsLookupCache(db, lookupCacheAccount(tenantId))
+    );
+    this.segmentRules = new SegmentRuleService(db, tenantId);
+    this.checkpoints = new SyncCheckpointService(db);
+    this.events = new SyncEventService(db);
+    this.suppressions = new SuppressionService(db, defaultPhoneRegion);
+    this.fieldMappings = new FieldMappingService(db, tenantId);
     this.db = db;
+    this.defaultPhoneRegion = defaultPhoneRegion;
+    this.callingWindow = parseCallingWindow(callingWindow);
+    this.tenantId = tenantId;
   }
 
   /**
    * Sync a single contact by ID from GoHighLevel
    * Used for webhook-triggered syncs
    */
-  async syncSingleContact(ghlContactId: string, webhookContactData?: any): Promise<{
-    success: boolean;
-    contact_id: string;
-    action: 'synced' | 'updated' | 'excluded' | 'failed';
-    bucket_id: string | null;
-    error?: string;
+  async syncSingleContact(ghlContactId: string, webhookContactData?: any): Promise<ContactSyncOutcome> {
+    try {
+      const ghlContact = await this.loadGhlContact(ghlContactId, webhookContactData);
+      return await this.syncGhlContact(ghlContact);
+    } catch (error) {
+      console.error(`Error syncing single contact ${ghlContactId}:`, error);
+      return {
+        success: false,
+        contact_id: ghlContactId,
+        action: 'failed',
+        bucket_id: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  /**
+   * Use webhook data if provided, otherwise fetch the contact from GoHighLevel
+   */
+  private async loadGhlContact(ghlContactId: string, webhookContactData?: any): Promise<GHLContact> {
+    if (webhookContactData) {
+      console.log('Using contact data from webhook (avoiding API call)');
+      // Transform webhook data to GHLContact format
+      return {
+        id: webhookContactData.contact_id || ghlContactId,
+        firstName: webhookContactData.first_name,
+        lastName: webhookContactData.last_name,
+        name: webhookContactData.full_name,
+        email: webhookContactData.email,
+        phone: webhookContactData.phone,
+        tags: webhookContactData.tags ? webhookContactData.tags.split(',') : [],
+        contact_type: webhookContactData.contact_type,
+        customFields: webhookContactData.customData,
+        dnd: typeof webhookContactData.dnd === 'boolean' ? webhookContactData.dnd : undefined,
+        state: webhookContactData.state,
+        country: webhookContactData.country,
+        timezone: webhookContactData.timezone,
+      } as GHLContact;
+    }
+
+    console.log('Fetching contact from GoHighLevel API');
+    return await this.ghlClient.getContact(ghlContactId);
+  }
+
+  /**
+   * Dry run of syncSingleContact - returns what would change without writing anything
+   */
+  async planSingleContact(ghlContactId: string, webhookContactData?: any): Promise<ContactSyncPlan> {
+    try {
+      const ghlContact = await this.loadGhlContact(ghlContactId, webhookContactData);
+      return await this.planGhlContact(ghlContact);
+    } catch (error) {
+      return {
+        contact_id: ghlContactId,
+        rule: null,
+        action: 'failed',
+        calltools_contact_id: null,
+        matched_by: null,
+        operations: [],
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Dry run of syncContactsPage
+   */
+  async planContactsPage(offset: number, limit: number): Promise<{
+    plan: SyncPlan;
+    fetched: number;
+    hasMore: boolean;
+    total: number | null;
   }> {
+    const plan: SyncPlan = {
+      summary: {
+        total_processed: 0,
+        synced: 0,
+        updated: 0,
+        excluded_customers: 0,
+        held: 0,
+        failed: 0,
+        errors: [],
+      },
+      contacts: [],
+    };
+
+    console.log(`Planning GHL contacts ${offset}-${offset + limit}...`);
+    const response = await this.ghlClient.getContacts({ limit, skip: offset });
+    const contacts = response.contacts || [];
+
+    for (const ghlContact of contacts) {
+      const contactPlan = await this.planGhlContact(ghlContact);
+      plan.contacts.push(contactPlan);
+      this.tallyOutcome(plan.summary, { ...contactPlan, error: contactPlan.reason });
+    }
+
+    return {
+      plan,
+      fetched: contacts.length,
+      hasMore: contacts.length === limit,
+      total: response.meta?.total ?? null,
+    };
+  }
+
+  /**
+   * Run the same classification and lookups as syncGhlContact without any CallTools or D1 writes
+   */
+  async planGhlContact(ghlContact: GHLContact): Promise<ContactSyncPlan> {
+    const plan: ContactSyncPlan = {
+      contact_id: ghlContact.id,
+      rule: null,
+      action: 'excluded',
+      calltools_contact_id: null,
+      matched_by: null,
+      operations: [],
+    };
+
     try {
-      // Use the Cold Leads bucket ID
-      const bucketId = '11237';
-      console.log(`Using Cold Leads bucket ID: ${bucketId}`);
-
-      // Use webhook data if provided, otherwise fetch from GoHighLevel
-      let ghlContact: any;
-      if (webhookContactData) {
-        console.log('Using contact data from webhook (avoiding API call)');
-        // Transform webhook data to GHLContact format
-        ghlContact = {
-          id: webhookContactData.contact_id,
-          firstName: webhookContactData.first_name,
-          lastName: webhookContactData.last_name,
-          name: webhookContactData.full_name,
-          email: webhookContactData.email,
-          phone: webhookContactData.phone,
-          tags: webhookContactData.tags ? webhookContactData.tags.split(',') : [],
-          contact_type: webhookContactData.contact_type,
-        };
-      } else {
-        console.log('Fetching contact from GoHighLevel API');
-        ghlContact = await this.ghlClient.getContact(ghlContactId);
-      }
-
-      // Check tags
-      const tags = Array.isArray(ghlContact.tags) 
-        ? (ghlContact.tags || []).map((t: string) => t.toLowerCase())
-        : [];
-      
-      // Check if contact has "ACA Active 2025" or "ACA Active 2026" tag
-      const isActiveClient = tags.some(tag => 
-        tag === 'aca active 2025' ||
-        tag === 'aca active 2026'
-      );
-
-      if (isActiveClient) {
-        // Handle active client sync
-        return await this.syncActiveClient(ghlContact);
-      }
-
-      // Check if contact is a customer (but not specifically ACA Active)
-      const isCustomer = tags.some(tag => 
-        tag.includes('customer') || 
-        tag.includes('client') ||
-        tag.includes('won') ||
-        tag.includes('purchased')
-      );
-
-      if (isCustomer) {
-        // Mark as customer and exclude
-        console.log(`Contact ${ghlContactId} excluded: contains customer/client tags`);
-        await this.markAsCustomer(ghlContactId);
+      const suppressionReason = await this.checkSuppression(ghlContact, false);
+      if (suppressionReason) {
+        const record = await this.getSyncedContact(ghlContact.id);
+        plan.operations.push({ type: 'exclude', target: null });
+        plan.reason = suppressionReason;
+
+        // Already pulled from the dialer on an earlier sync
+        if (record?.sync_status !== 'suppressed') {
+          plan.calltools_contact_id = await this.findSuppressedCallToolsContactId(ghlContact, record);
+          if (plan.calltools_contact_id) {
+            plan.operations.push({ type: 'move_bucket', target: null, from: await this.getManagedBucketIds() });
+          }
+        }
+        return plan;
+      }
+
+      const tags: string[] = Array.isArray(ghlContact.tags) ? ghlContact.tags : [];
+      const rule = await this.segmentRules.classify(tags);
+
+      if (!rule) {
+        plan.operations.push({ type: 'exclude', target: null });
+        plan.reason = 'Contact does not match any segment rule';
+        return plan;
+      }
+
+      plan.rule = rule.name;
+
+      if (rule.action === 'exclude') {
+        plan.operations.push({ type: 'exclude', target: null });
+        if (rule.mark_customer === 1) {
+          plan.operations.push({ type: 'mark_customer', target: null });
+        }
+        return plan;
+      }
+
+      const existingRecord = await this.getSyncedContact(ghlContact.id);
+      if (existingRecord?.merged_into) {
+        plan.calltools_contact_id = existingRecord.calltools_contact_id;
+        plan.operations.push({ type: 'exclude', target: null });
+        plan.reason = `Merged into ${existingRecord.merged_into}`;
+        return plan;
+      }
+
+      if (existingRecord?.sync_status === 'deleted') {
+        plan.operations.push({ type: 'exclude', target: null });
+        plan.reason = 'Contact was deleted in GoHighLevel';
+        return plan;
+      }
+
+      if (existingRecord && existingRecord.is_customer === 1 && rule.mark_customer !== 1) {
+        plan.calltools_contact_id = existingRecord.calltools_contact_id;
+        plan.operations.push({ type: 'exclude', target: null });
+        plan.reason = 'Contact is already marked as a customer';
+        return plan;
+      }
+
+      const phone = this.parseContactPhone(ghlContact);
+      if (!phone.valid) {
+        plan.action = 'failed';
+        plan.reason = phone.reason;
+        return plan;
+      }
+
+      const timezone = this.inferContactTimezone(ghlContact, phone.e164);
+      const heldUntil = this.heldUntil(timezone);
+      if (heldUntil && timezone) {
+        plan.action = 'held';
+        plan.operations.push({ type: 'hold', target: heldUntil.toISOString() });
+        plan.reason = `Outside the calling window in ${timezone.timezone}`;
+        return plan;
+      }
+
+      const route = this.routeContact(rule, timezone, existingRecord);
+      const resolved = await this.resolveCallToolsContact(ghlContact, existingRecord, phone.e164);
+      const isNew = !resolved.contact;
+
+      plan.action = isNew ? 'synced' : 'updated';
+      plan.calltools_contact_id = resolved.contact?.id ?? null;
+      plan.matched_by = resolved.matchedBy;
+      if (resolved.staleMappingId) {
+        plan.operations.push({ type: 'repair_mapping', target: resolved.staleMappingId });
+      }
+      plan.operations.push({ type: isNew ? 'create' : 'update', target: null });
+
+      const removeBucketIds = isNew ? [] : route.removeBucketIds;
+      if (route.bucketId || removeBucketIds.length > 0) {
+        plan.operations.push({ type: 'move_bucket', target: route.bucketId, from: removeBucketIds });
+      }
+
+      if (rule.calltools_tag) {
+        plan.operations.push({ type: 'add_tag', target: rule.calltools_tag });
+      }
+
+      if (!isNew) {
+        for (const tagName of splitRuleList(rule.remove_tags)) {
+          plan.operations.push({ type: 'remove_tag', target: tagName });
+        }
+      }
+
+      if (rule.mark_customer === 1) {
+        plan.operations.push({ type: 'mark_customer', target: null });
+      }
+    } catch (error) {
+      plan.action = 'failed';
+      plan.reason = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return plan;
+  }
+
+  /**
+   * Classify an already-loaded GHL contact and sync it to its segment
+   */
+  async syncGhlContact(ghlContact: GHLContact): Promise<ContactSyncOutcome> {
+    const ghlContactId = ghlContact.id;
+    try {
+      // Opted-out numbers are never dialed, whatever segment the contact is in
+      const suppressionReason = await this.checkSuppression(ghlContact, true);
+      if (suppressionReason) {
+        return await this.pullSuppressedContact(ghlContact, suppressionReason);
+      }
+
+      // Find the segment this contact belongs to
+      const tags: string[] = Array.isArray(ghlContact.tags) ? ghlContact.tags : [];
+      const rule = await this.segmentRules.classify(tags);
+      this.events.record({
+        ghl_contact_id: ghlContactId,
+        event_type: 'classified',
+        detail: rule ? rule.name : 'no matching rule',
+      });
+
+      if (!rule) {
+        console.log(`Contact ${ghlContactId} excluded: does not match any segment rule`);
+        this.events.record({
+          ghl_contact_id: ghlContactId,
+          event_type: 'excluded',
+          message: 'Contact does not match any segment rule',
+        });
         return {
           success: true,
           contact_id: ghlContactId,
           action: 'excluded',
           bucket_id: null,
+          error: 'Contact does not match any segment rule',
         };
       }
 
-      // Check if contact has "cold lead" tag
-      const isCold = tags.some(tag => 
-        tag === 'cold lead' ||
-        tag.includes('cold') ||
-        tag.includes('new lead') ||
-        tag.includes('prospect')
-      );
-
-      if (!isCold) {
-        console.log(`Contact ${ghlContactId} excluded: does not have cold lead or active client tag`);
+      if (rule.action === 'exclude') {
+        console.log(`Contact ${ghlContactId} excluded by segment rule "${rule.name}"`);
+        this.events.record({ ghl_contact_id: ghlContactId, event_type: 'excluded', detail: rule.name });
+        if (rule.mark_customer === 1) {
+          await this.markAsCustomer(ghlContactId, rule.name);
+        }
         return {
           success: true,
           contact_id: ghlContactId,
           action: 'excluded',
           bucket_id: null,
-          error: 'Contact does not have cold lead or active client tag',
         };
       }
 
-      console.log(`Contact ${ghlContactId} is a cold lead, proceeding to sync to CallTools`);
+      console.log(`Contact ${ghlContactId} matched segment rule "${rule.name}", proceeding to sync to CallTools`);
 
       // Sync the contact
       const result: SyncResult = {
@@ -146,13 +523,21 @@ export class ContactSyncService {
         synced: 0,
         updated: 0,
         excluded_customers: 0,
+        held: 0,
         failed: 0,
-        bucket_name: 'Cold Leads',
-        bucket_id: bucketId,
         errors: [],
       };
 
-      await this.syncContact(ghlContact, result, bucketId);
+      const bucketId = await this.syncContact(ghlContact, rule, result);
+
+      if (result.excluded_customers > 0 || result.held > 0) {
+        return {
+          success: true,
+          contact_id: ghlContactId,
+          action: result.held > 0 ? 'held' : 'excluded',
+          bucket_id: null,
+        };
+      }
 
       const action = result.synced > 0 ? 'synced' : result.updated > 0 ? 'updated' : 'failed';
 
@@ -162,364 +547,754 @@ export class ContactSyncService {
         action,
         bucket_id: bucketId,
         error: result.errors[0]?.error,
+        retryable: result.errors[0]?.retryable,
       };
     } catch (error) {
       console.error(`Error syncing single contact ${ghlContactId}:`, error);
+      this.events.record({
+        ghl_contact_id: ghlContactId,
+        event_type: 'failed',
+        status: 'failed',
+        response_status: responseStatusFromError(error),
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
       return {
         success: false,
         contact_id: ghlContactId,
         action: 'failed',
         bucket_id: null,
         error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryableError(error),
       };
+    } finally {
+      await this.events.flush();
     }
   }
 
   /**
-   * Sync an active client to CallTools
-   * Handles contacts with "ACA Active 2025" or "ACA Active 2026" tags
+   * Create or update a contact in GHL, then sync it like a webhook would
+   * Used by CSV imports; the imported tags are used if GHL leaves them out of its response
    */
-  private async syncActiveClient(ghlContact: GHLContact): Promise<{
-    success: boolean;
-    contact_id: string;
-    action: 'synced' | 'updated' | 'excluded' | 'failed';
-    bucket_id: string | null;
-    error?: string;
+  async importContact(input: GHLContactInput): Promise<ContactSyncOutcome> {
+    const ghlContact = await this.ghlClient.upsertContact(input);
+    return await this.syncGhlContact({ ...ghlContact, tags: ghlContact.tags ?? input.tags ?? [] });
+  }
+
+  /**
+   * Sync one page of GHL contacts
+   * Full syncs are driven chunk by chunk through SyncRunService so they survive Worker limits
+   */
+  async syncContactsPage(offset: number, limit: number): Promise<{
+    result: SyncResult;
+    fetched: number;
+    hasMore: boolean;
+    total: number | null;
   }> {
-    try {
-      const ACTIVE_CLIENTS_BUCKET_ID = '11252';
-      const COLD_LEADS_BUCKET_ID = '11237';
-      const ACTIVE_CLIENT_TAG = 'ACA Active client';
-      const COLD_LEAD_TAG = 'ACA Cold lead';
+    const result: SyncResult = {
+      total_processed: 0,
+      synced: 0,
+      updated: 0,
+      excluded_customers: 0,
+      held: 0,
+      failed: 0,
+      errors: [],
+    };
 
-      console.log(`Processing active client: ${ghlContact.id}`);
+    console.log(`Fetching GHL contacts ${offset}-${offset + limit}...`);
+    const response = await this.ghlClient.getContacts({ limit, skip: offset });
+    const contacts = response.contacts || [];
 
-      // Check if contact has phone number
-      const phone = ghlContact.phone || '';
-      if (!phone) {
-        console.warn(`Contact ${ghlContact.id} has no phone number, skipping`);
-        return {
-          success: false,
-          contact_id: ghlContact.id,
-          action: 'failed',
-          bucket_id: null,
-          error: 'No phone number',
-        };
+    for (const ghlContact of contacts) {
+      const outcome = await this.syncGhlContact(ghlContact);
+      this.tallyOutcome(result, outcome);
+    }
+
+    return {
+      result,
+      fetched: contacts.length,
+      hasMore: contacts.length === limit,
+      total: response.meta?.total ?? null,
+    };
+  }
+
+  /**
+   * Incremental sync - only contacts added or updated since the stored checkpoint
+   * The checkpoint is advanced after every page so a failed run resumes where it stopped
+   */
+  async syncUpdatedContacts(maxPages: number = 5): Promise<SyncResult> {
+    const result: SyncResult = {
+      total_processed: 0,
+      synced: 0,
+      updated: 0,
+      excluded_customers: 0,
+      held: 0,
+      failed: 0,
+      errors: [],
+    };
+
+    let cursor = await this.checkpoints.get(this.checkpointName(GHL_CONTACTS_CHECKPOINT));
+    console.log(`Incremental sync starting after ${cursor.updatedAfter || 'the beginning'}`);
+
+    for (let page = 0; page < maxPages; page++) {
+      const { contacts, hasMore, nextCursor } = await this.ghlClient.getContactsUpdatedSince(cursor);
+
+      for (const ghlContact of contacts) {
+        const outcome = await this.syncGhlContact(ghlContact);
+        this.tallyOutcome(result, outcome);
       }
 
-      // Prepare CallTools contact data
-      const callToolsContact: CallToolsContact = {
-        first_name: ghlContact.firstName || ghlContact.name || 'Unknown',
-        last_name: ghlContact.lastName || '',
-        mobile_phone_number: phone,
-        personal_email_address: ghlContact.email || '',
-        bucket_id: ACTIVE_CLIENTS_BUCKET_ID,
-      };
+      cursor = nextCursor;
+      await this.checkpoints.save(this.checkpointName(GHL_CONTACTS_CHECKPOINT), cursor);
 
-      // Check if contact already exists in CallTools (search by phone)
-      const existingCallToolsContact = await this.callToolsClient.getContactByExternalId(
-        ghlContact.id,
-        phone
-      );
+      if (!hasMore) {
+        break;
+      }
+    }
+
+    console.log('Incremental sync completed:', result);
+    return result;
+  }
+
+  /**
+   * Add a single contact outcome to a running SyncResult
+   */
+  private tallyOutcome(result: SyncResult, outcome: Pick<ContactSyncOutcome, 'contact_id' | 'action' | 'error'>): void {
+    result.total_processed++;
 
+    if (outcome.action === 'synced') {
+      result.synced++;
+    } else if (outcome.action === 'updated') {
+      result.updated++;
+    } else if (outcome.action === 'excluded') {
+      result.excluded_customers++;
+    } else if (outcome.action === 'held') {
+      result.held++;
+    } else {
+      result.failed++;
+      result.errors.push({
+        contact_id: outcome.contact_id,
+        error: outcome.error || 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Sync a single contact into the CallTools segment described by a rule
+   * Returns the bucket the contact was routed to
+   */
+  private async syncContact(ghlContact: GHLContact, rule: SegmentRule, result: SyncResult): Promise<string | null> {
+    // Check if contact is already tracked in our database
+    const existingRecord = await this.getSyncedContact(ghlContact.id);
+
+    // Merged duplicates would overwrite the survivor's CallTools contact
+    if (existingRecord?.merged_into) {
+      this.events.record({
+        ghl_contact_id: ghlContact.id,
+        calltools_contact_id: existingRecord.calltools_contact_id,
+        event_type: 'excluded',
+        detail: rule.name,
+        message: `Merged into ${existingRecord.merged_into}`,
+      });
+      result.excluded_customers++;
+      return null;
+    }
+
+    // A late sync event must not recreate a contact GHL already deleted
+    if (existingRecord?.sync_status === 'deleted') {
+      this.events.record({
+        ghl_contact_id: ghlContact.id,
+        event_type: 'excluded',
+        detail: rule.name,
+        message: 'Contact was deleted in GoHighLevel',
+      });
+      result.excluded_customers++;
+      return null;
+    }
+
+    // Skip customers unless this segment is meant for them
+    if (existingRecord && existingRecord.is_customer === 1 && rule.mark_customer !== 1) {
+      this.events.record({
+        ghl_contact_id: ghlContact.id,
+        calltools_contact_id: existingRecord.calltools_contact_id,
+        event_type: 'excluded',
+        detail: rule.name,
+        message: 'Contact is already marked as a customer',
+      });
+      result.excluded_customers++;
+      return null;
+    }
+
+    // Prepare CallTools contact data
+    const parsedPhone = this.parseContactPhone(ghlContact);
+    if (!parsedPhone.valid) {
+      console.warn(`Contact ${ghlContact.id} skipped: ${parsedPhone.reason}`);
+      // Retrying can't fix the number; a GHL update with a valid one syncs the contact again
+      await this.updateSyncRecord(ghlContact.id, {
+        sync_status: 'failed_permanently',
+        error_message: parsedPhone.reason,
+      });
+      this.events.record({
+        ghl_contact_id: ghlContact.id,
+        event_type: 'failed',
+        status: 'failed',
+        message: parsedPhone.reason,
+      });
+      result.failed++;
+      result.errors.push({ contact_id: ghlContact.id, error: parsedPhone.reason, retryable: false });
+      return null;
+    }
+
+    const phone = parsedPhone.e164;
+
+    // Don't push leads to the dialer while it's outside their local calling hours
+    const timezone = this.inferContactTimezone(ghlContact, phone);
+    const heldUntil = this.heldUntil(timezone);
+    if (heldUntil && timezone) {
+      await this.holdContact(ghlContact, rule, phone, timezone, heldUntil);
+      result.held++;
+      return null;
+    }
+
+    const route = this.routeContact(rule, timezone, existingRecord);
+
+    // Mapped fields never override the name, phone, email or bucket set here
+    const mapped = await this.fieldMappings.apply(ghlContact);
+    const callToolsContact: CallToolsContact = {
+      ...mapped.fields,
+      first_name: ghlContact.firstName || ghlContact.name || 'Unknown',
+      last_name: ghlContact.lastName || '',
+      mobile_phone_number: phone,
+      personal_email_address: ghlContact.email || '',
+      bucket_id: route.bucketId || undefined,
+      custom_fields: Object.keys(mapped.custom_fields).length > 0 ? mapped.custom_fields : undefined,
+      // Don't send tags in create payload - add them separately after creation
+    };
+
+    try {
+      // Check if contact already exists in CallTools
+      const resolved = await this.resolveCallToolsContact(ghlContact, existingRecord, phone);
+      const existingCallToolsContact = resolved.contact;
+
+      if (resolved.staleMappingId) {
+        // Drop the dead mapping now so a failure below doesn't leave it in place
+        await this.updateSyncRecord(ghlContact.id, { calltools_contact_id: null });
+        this.events.record({
+          ghl_contact_id: ghlContact.id,
+          calltools_contact_id: resolved.staleMappingId,
+          event_type: 'mapping_repaired',
+          message: `Stored CallTools contact ${resolved.staleMappingId} no longer exists`,
+        });
+      }
+
+      let callToolsContactId: string;
       if (existingCallToolsContact) {
-        console.log(`Updating existing contact ${ghlContact.id} as active client`);
-        
-        // Update contact details
+        // Update existing contact
         await this.callToolsClient.updateContact(
           existingCallToolsContact.id,
           callToolsContact
         );
+        callToolsContactId = existingCallToolsContact.id;
+      } else {
+        // Create new contact
+        const createdContact = await this.callToolsClient.createContact(callToolsContact);
+        callToolsContactId = createdContact.id;
+      }
 
-        // Add to Active Clients bucket
-        await this.callToolsClient.addContactToBucket(
-          existingCallToolsContact.id,
-          ACTIVE_CLIENTS_BUCKET_ID
-        );
-        console.log(`Added contact to Active Clients bucket (${ACTIVE_CLIENTS_BUCKET_ID})`);
+      this.events.record({
+        ghl_contact_id: ghlContact.id,
+        calltools_contact_id: callToolsContactId,
+        event_type: existingCallToolsContact ? 'contact_updated' : 'contact_created',
+        detail: rule.name,
+        message: resolved.matchedBy ? `Matched by ${resolved.matchedBy}` : null,
+      });
 
-        // Remove from Cold Leads bucket
-        try {
-          await this.callToolsClient.removeContactFromBucket(
-            existingCallToolsContact.id,
-            COLD_LEADS_BUCKET_ID
-          );
-          console.log(`Removed contact from Cold Leads bucket (${COLD_LEADS_BUCKET_ID})`);
-        } catch (error) {
-          console.log(`Could not remove from Cold Leads bucket (may not be in it):`, error);
-        }
+      await this.applySegment(ghlContact.id, callToolsContactId, rule, route, !existingCallToolsContact);
 
-        // Add "ACA Active client" tag
-        await this.callToolsClient.addTagToContact(
-          existingCallToolsContact.id,
-          ACTIVE_CLIENT_TAG
-        );
-        console.log(`Added "${ACTIVE_CLIENT_TAG}" tag`);
+      await this.createOrUpdateSyncRecord({
+        ghl_contact_id: ghlContact.id,
+        calltools_contact_id: callToolsContactId,
+        first_name: callToolsContact.first_name,
+        last_name: callToolsContact.last_name || null,
+        phone: callToolsContact.mobile_phone_number || null,
+        email: ghlContact.email || null,
+        sync_status: 'synced',
+        last_sync_at: new Date().toISOString(),
+        error_message: null,
+        is_customer: rule.mark_customer === 1 ? 1 : 0,
+        timezone: timezone?.timezone ?? null,
+        timezone_source: timezone?.source ?? null,
+        held_until: null,
+        policy_year: latestPolicyYear(rule, Array.isArray(ghlContact.tags) ? ghlContact.tags : []),
+      });
 
-        // Remove "ACA Cold lead" tag if it exists
-        try {
-          await this.callToolsClient.removeTagFromContact(
-            existingCallToolsContact.id,
-            COLD_LEAD_TAG
-          );
-          console.log(`Removed "${COLD_LEAD_TAG}" tag`);
-        } catch (error) {
-          console.log(`Could not remove "${COLD_LEAD_TAG}" tag (may not exist):`, error);
-        }
+      if (existingCallToolsContact) {
+        result.updated++;
+        console.log(`Updated contact ${ghlContact.id} in CallTools for segment "${rule.name}"`);
+      } else {
+        result.synced++;
+        console.log(`Created contact ${ghlContact.id} in CallTools for segment "${rule.name}"`);
+      }
 
-        // Update sync record
-        await this.updateSyncRecord(ghlContact.id, {
-          calltools_contact_id: existingCallToolsContact.id,
-          first_name: callToolsContact.first_name,
-          last_name: callToolsContact.last_name,
-          phone: callToolsContact.mobile_phone_number,
-          email: callToolsContact.email,
-          sync_status: 'synced',
-          last_sync_at: new Date().toISOString(),
-          error_message: null,
-        });
+      return route.bucketId;
+    } catch (error) {
+      await this.updateSyncRecord(ghlContact.id, {
+        sync_status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
 
-        // Mark as customer in our database
-        await this.markAsCustomer(ghlContact.id);
+  /**
+   * Infer a GHL contact's time zone from its GHL fields or E.164 phone
+   */
+  private inferContactTimezone(ghlContact: GHLContact, phone: string): TimezoneInference | null {
+    return inferTimezone({
+      timezone: ghlContact.timezone,
+      state: ghlContact.state,
+      country: ghlContact.country,
+      phone,
+    });
+  }
 
-        console.log(`Successfully updated contact ${ghlContact.id} as active client`);
+  /**
+   * When a contact's calling window opens, or null if it can be dialed now
+   * Contacts in an unknown time zone are never held
+   */
+  private heldUntil(timezone: TimezoneInference | null): Date | null {
+    if (!this.callingWindow || !timezone) {
+      return null;
+    }
+    return nextWindowOpening(timezone.timezone, this.callingWindow);
+  }
 
-        return {
-          success: true,
-          contact_id: ghlContact.id,
-          action: 'updated',
-          bucket_id: ACTIVE_CLIENTS_BUCKET_ID,
-        };
-      } else {
-        console.log(`Creating new contact ${ghlContact.id} as active client`);
+  /**
+   * The bucket a contact goes to for its time zone, and the buckets it leaves
+   * A contact whose zone changed since its last sync leaves its old zone's bucket
+   */
+  private routeContact(
+    rule: SegmentRule,
+    timezone: TimezoneInference | null,
+    existingRecord: SyncedContact | null
+  ): ContactRoute {
+    const bucketId = bucketForTimezone(rule, timezone?.timezone ?? null);
+    const removeBucketIds = splitRuleList(rule.remove_bucket_ids);
 
-        // Create new contact
-        const createdContact = await this.callToolsClient.createContact(callToolsContact);
-        console.log(`Created contact with ID: ${createdContact.id}`);
+    if (existingRecord?.timezone && existingRecord.timezone !== timezone?.timezone) {
+      const previousBucketId = bucketForTimezone(rule, existingRecord.timezone);
+      if (previousBucketId && previousBucketId !== bucketId && !removeBucketIds.includes(previousBucketId)) {
+        removeBucketIds.push(previousBucketId);
+      }
+    }
 
-        // Add to Active Clients bucket
-        await this.callToolsClient.addContactToBucket(
-          createdContact.id,
-          ACTIVE_CLIENTS_BUCKET_ID
-        );
-        console.log(`Added contact to Active Clients bucket (${ACTIVE_CLIENTS_BUCKET_ID})`);
+    return { bucketId, removeBucketIds };
+  }
 
-        // Add "ACA Active client" tag
-        await this.callToolsClient.addTagToContact(
-          createdContact.id,
-          ACTIVE_CLIENT_TAG
-        );
-        console.log(`Added "${ACTIVE_CLIENT_TAG}" tag`);
+  /**
+   * Park a contact until its calling window opens
+   * releaseHeldContacts picks it up again once held_until has passed
+   */
+  private async holdContact(
+    ghlContact: GHLContact,
+    rule: SegmentRule,
+    phone: string,
+    timezone: TimezoneInference,
+    heldUntil: Date
+  ): Promise<void> {
+    const reason = `Outside the calling window in ${timezone.timezone} until ${heldUntil.toISOString()}`;
+    console.log(`Contact ${ghlContact.id} held: ${reason}`);
 
-        // Create sync record
-        await this.createOrUpdateSyncRecord({
-          ghl_contact_id: ghlContact.id,
-          calltools_contact_id: createdContact.id,
-          first_name: callToolsContact.first_name,
-          last_name: callToolsContact.last_name || null,
-          phone: callToolsContact.mobile_phone_number,
-          email: callToolsContact.email || null,
-          sync_status: 'synced',
-          last_sync_at: new Date().toISOString(),
-          error_message: null,
-          is_customer: 1, // Mark as customer
+    await this.updateSyncRecord(ghlContact.id, {
+      phone,
+      sync_status: 'held',
+      error_message: reason,
+      timezone: timezone.timezone,
+      timezone_source: timezone.source,
+      held_until: heldUntil.toISOString(),
+    });
+    this.events.record({
+      ghl_contact_id: ghlContact.id,
+      event_type: 'held',
+      detail: rule.name,
+      message: reason,
+    });
+  }
+
+  /**
+   * Claim held contacts whose calling window has opened so they can be synced again
+   * Claimed contacts go back to pending, so a second call never returns them twice
+   */
+  async releaseHeldContacts(limit: number): Promise<string[]> {
+    const result = await this.db
+      .prepare(`
+        UPDATE synced_contacts
+        SET sync_status = 'pending', held_until = NULL, error_message = NULL
+        WHERE id IN (
+          SELECT id FROM synced_contacts
+          WHERE sync_status = 'held' AND held_until <= ? AND tenant_id IS ?
+          ORDER BY held_until ASC
+          LIMIT ?
+        )
+        RETURNING ghl_contact_id
+      `)
+      .bind(new Date().toISOString(), this.tenantId, limit)
+      .all<{ ghl_contact_id: string }>();
+
+    return (result.results || []).map((row) => row.ghl_contact_id);
+  }
+
+  /**
+   * Sync failed contacts again once their backoff has passed
+   * A contact that fails again waits twice as long before the next retry; after maxAttempts
+   * retries, or an error retrying won't fix, it is marked failed_permanently
+   */
+  async retryFailedContacts(limit: number, maxAttempts: number, baseDelayMinutes: number): Promise<RetryFailedResult> {
+    const result: RetryFailedResult = { attempted: 0, recovered: 0, retrying: 0, failed_permanently: 0, contacts: [] };
+
+    const records = await this.db
+      .prepare(`
+        SELECT * FROM synced_contacts
+        WHERE sync_status = 'failed' AND tenant_id IS ? AND (next_retry_at IS NULL OR next_retry_at <= ?)
+        ORDER BY next_retry_at ASC, id ASC
+        LIMIT ?
+      `)
+      .bind(this.tenantId, new Date().toISOString(), limit)
+      .all<SyncedContact>();
+
+    for (const record of records.results || []) {
+      const attempt = (record.retry_attempts ?? 0) + 1;
+      const outcome = await this.syncSingleContact(record.ghl_contact_id);
+      result.attempted++;
+
+      if (outcome.success) {
+        // Excluded outcomes don't always write the row, so a status the sync left at 'failed' is replaced here;
+        // otherwise the contact would be picked up and "recovered" again on every run
+        await this.db
+          .prepare(`
+            UPDATE synced_contacts
+            SET sync_status = CASE WHEN sync_status = 'failed' THEN ? ELSE sync_status END,
+                retry_attempts = 0, next_retry_at = NULL, error_message = NULL
+            WHERE ghl_contact_id = ?
+          `)
+          .bind(outcome.action === 'updated' ? 'synced' : outcome.action, record.ghl_contact_id)
+          .run();
+
+        result.recovered++;
+        result.contacts.push({ contact_id: record.ghl_contact_id, attempt, outcome: 'recovered', action: outcome.action });
+        continue;
+      }
+
+      if (attempt >= maxAttempts || outcome.retryable === false) {
+        await this.db
+          .prepare(`
+            UPDATE synced_contacts SET sync_status = 'failed_permanently', retry_attempts = ?, next_retry_at = NULL
+            WHERE ghl_contact_id = ?
+          `)
+          .bind(attempt, record.ghl_contact_id)
+          .run();
+        this.events.record({
+          ghl_contact_id: record.ghl_contact_id,
+          calltools_contact_id: record.calltools_contact_id,
+          event_type: 'failed',
+          status: 'failed',
+          detail: 'failed_permanently',
+          message: `Gave up after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}: ${outcome.error ?? 'Unknown error'}`,
         });
+        await this.events.flush();
 
-        console.log(`Successfully created contact ${ghlContact.id} as active client`);
+        result.failed_permanently++;
+        result.contacts.push({
+          contact_id: record.ghl_contact_id,
+          attempt,
+          outcome: 'failed_permanently',
+          action: outcome.action,
+          error: outcome.error,
+        });
+        continue;
+      }
 
-        return {
-          success: true,
-          contact_id: ghlContact.id,
-          action: 'synced',
-          bucket_id: ACTIVE_CLIENTS_BUCKET_ID,
-        };
+      const nextRetryAt = new Date(Date.now() + baseDelayMinutes * 2 ** (attempt - 1) * 60 * 1000).toISOString();
+      await this.db
+        .prepare('UPDATE synced_contacts SET retry_attempts = ?, next_retry_at = ? WHERE ghl_contact_id = ?')
+        .bind(attempt, nextRetryAt, record.ghl_contact_id)
+        .run();
+
+      result.retrying++;
+      result.contacts.push({
+        contact_id: record.ghl_contact_id,
+        attempt,
+        outcome: 'retrying',
+        action: outcome.action,
+        error: outcome.error,
+        next_retry_at: nextRetryAt,
+      });
+    }
+
+    console.log(
+      `Retried ${result.attempted} failed contacts: ${result.recovered} recovered, ${result.retrying} retrying, ${result.failed_permanently} failed permanently`
+    );
+    return result;
+  }
+
+  /**
+   * Check whether a contact may be dialed
+   * GHL's DND flag is mirrored into the suppression list when record is set
+   * Returns the reason the contact is suppressed, or null
+   */
+  private async checkSuppression(ghlContact: GHLContact, record: boolean): Promise<string | null> {
+    const phone = parsePhone(ghlContact.phone, this.defaultPhoneRegion);
+
+    if (ghlContact.dnd === true) {
+      if (record && phone.valid) {
+        await this.suppressions.add(phone.e164, 'ghl_dnd', {
+          reason: 'DND enabled in GoHighLevel',
+          ghl_contact_id: ghlContact.id,
+        });
       }
-    } catch (error) {
-      console.error(`Error syncing active client ${ghlContact.id}:`, error);
-      return {
-        success: false,
-        contact_id: ghlContact.id,
-        action: 'failed',
-        bucket_id: null,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      return 'DND enabled in GoHighLevel';
+    }
+
+    if (ghlContact.dnd === false && record) {
+      await this.suppressions.liftGhlDnd(ghlContact.id);
     }
+
+    if (!phone.valid) {
+      return null;
+    }
+
+    const suppression = await this.suppressions.find(phone.e164);
+    return suppression ? `Phone is on the suppression list (${suppression.reason || suppression.source})` : null;
   }
 
   /**
-   * Main sync function - syncs cold contacts from GHL to CallTools
+   * Every bucket the rules manage, plus the lapsed / renewal buckets the policy rollover moved clients into
+   * Lapsed buckets come from the rollover's events since their names are configured in env
    */
-  async syncColdContacts(): Promise<SyncResult> {
-    const bucketName = 'Cold Leads';
-    const result: SyncResult = {
-      total_processed: 0,
-      synced: 0,
-      updated: 0,
-      excluded_customers: 0,
-      failed: 0,
-      bucket_name: bucketName,
-      bucket_id: null,
-      errors: [],
-    };
+  private async getManagedBucketIds(): Promise<string[]> {
+    const lapsed = await this.db
+      .prepare(`
+        SELECT DISTINCT e.detail AS bucket_id
+        FROM sync_events e
+        JOIN synced_contacts sc ON sc.ghl_contact_id = e.ghl_contact_id
+        WHERE e.event_type = 'bucket_added' AND e.message = ? AND e.status = 'success' AND sc.tenant_id IS ?
+      `)
+      .bind(POLICY_LAPSED_BUCKET_MESSAGE, this.tenantId)
+      .all<{ bucket_id: string }>();
 
-    try {
-      // Use the Cold Leads bucket ID
-      const bucketId = '11237';
-      result.bucket_id = bucketId;
-      console.log(`Using Cold Leads bucket ID: ${bucketId}`);
-
-      console.log('Fetching cold contacts from GoHighLevel...');
-      const coldContacts = await this.ghlClient.getColdContactsExcludingCustomers();
-      result.total_processed = coldContacts.length;
-      
-      console.log(`Found ${coldContacts.length} cold contacts to process`);
-
-      // Process each contact
-      for (const ghlContact of coldContacts) {
+    return [
+      ...new Set([
+        ...(await this.segmentRules.getManagedBucketIds()),
+        ...(lapsed.results || []).map((row) => row.bucket_id),
+      ]),
+    ];
+  }
+
+  /**
+   * Take a suppressed contact out of every managed bucket and keep it from being synced
+   */
+  private async pullSuppressedContact(ghlContact: GHLContact, reason: string): Promise<ContactSyncOutcome> {
+    const record = await this.getSyncedContact(ghlContact.id);
+    console.log(`Contact ${ghlContact.id} suppressed: ${reason}`);
+
+    // Skip the bucket calls when an earlier sync already pulled the contact
+    const callToolsContactId = record?.sync_status === 'suppressed'
+      ? record.calltools_contact_id
+      : await this.findSuppressedCallToolsContactId(ghlContact, record);
+
+    if (callToolsContactId && record?.sync_status !== 'suppressed') {
+      for (const bucketId of await this.getManagedBucketIds()) {
         try {
-          await this.syncContact(ghlContact, result, bucketId || '');
-        } catch (error) {
-          result.failed++;
-          result.errors.push({
-            contact_id: ghlContact.id,
-            error: error instanceof Error ? error.message : 'Unknown error',
+          const status = await this.callToolsClient.removeContactFromBucket(callToolsContactId, bucketId);
+          this.events.record({
+            ghl_contact_id: ghlContact.id,
+            calltools_contact_id: callToolsContactId,
+            event_type: 'bucket_removed',
+            detail: bucketId,
+            response_status: status,
           });
-          console.error(`Failed to sync contact ${ghlContact.id}:`, error);
+        } catch (error) {
+          console.log(`Could not remove from bucket ${bucketId} (may not be in it):`, error);
         }
       }
+    }
 
-      console.log('Sync completed:', result);
-      return result;
-    } catch (error) {
-      console.error('Error during sync:', error);
-      throw error;
+    await this.updateSyncRecord(ghlContact.id, {
+      calltools_contact_id: callToolsContactId,
+      sync_status: 'suppressed',
+      error_message: reason,
+    });
+    this.events.record({
+      ghl_contact_id: ghlContact.id,
+      calltools_contact_id: callToolsContactId,
+      event_type: 'suppressed',
+      message: reason,
+    });
+
+    return {
+      success: true,
+      contact_id: ghlContact.id,
+      action: 'excluded',
+      bucket_id: null,
+      error: reason,
+    };
+  }
+
+  /**
+   * The CallTools contact a suppressed GHL contact may already be dialed through
+   * Uses the stored mapping, or a phone search for contacts we never synced
+   */
+  private async findSuppressedCallToolsContactId(
+    ghlContact: GHLContact,
+    record: SyncedContact | null
+  ): Promise<string | null> {
+    if (record?.calltools_contact_id) {
+      return record.calltools_contact_id;
+    }
+
+    const phone = parsePhone(ghlContact.phone, this.defaultPhoneRegion);
+    if (!phone.valid) {
+      return null;
+    }
+
+    const contact = await this.callToolsClient.findContactByPhone(phone.e164);
+    return contact ? String(contact.id) : null;
+  }
+
+  /**
+   * Find the CallTools contact for a GHL contact
+   * Tries the stored mapping (verified with a GET), then a phone search, then an email search
+   */
+  private async resolveCallToolsContact(
+    ghlContact: GHLContact,
+    existingRecord: SyncedContact | null,
+    phone: string
+  ): Promise<ResolvedCallToolsContact> {
+    let staleMappingId: string | null = null;
+
+    if (existingRecord?.calltools_contact_id) {
+      const mapped = await this.callToolsClient.getContact(existingRecord.calltools_contact_id);
+      if (mapped) {
+        return { contact: mapped, matchedBy: 'mapping', staleMappingId };
+      }
+      staleMappingId = existingRecord.calltools_contact_id;
+      console.warn(`Stored CallTools contact ${staleMappingId} for ${ghlContact.id} was deleted, searching again`);
+    }
+
+    const byPhone = await this.callToolsClient.findContactByPhone(phone);
+    if (byPhone) {
+      return { contact: byPhone, matchedBy: 'phone', staleMappingId };
+    }
+
+    if (ghlContact.email) {
+      const byEmail = await this.callToolsClient.findContactByEmail(ghlContact.email);
+      if (byEmail) {
+        return { contact: byEmail, matchedBy: 'email', staleMappingId };
+      }
+    }
+
+    return { contact: null, matchedBy: null, staleMappingId };
+  }
+
+  /**
+   * Parse a GHL contact's phone into E.164 using the configured default region
+   */
+  private parseContactPhone(ghlContact: GHLContact): PhoneParseResult {
+    const parsed = parsePhone(ghlContact.phone, this.defaultPhoneRegion);
+    if (!parsed.valid && ghlContact.phone) {
+      return { valid: false, reason: `Invalid phone number: ${parsed.reason}` };
     }
+    return parsed;
   }
 
   /**
-   * Sync a single contact
+   * Apply a segment rule's bucket and tag changes to a CallTools contact
+   * Removals are skipped for newly created contacts since they can't be in any bucket yet
    */
-  private async syncContact(ghlContact: GHLContact, result: SyncResult, bucketId: string): Promise<void> {
-    // Check if contact is already tracked in our database
-    const existingRecord = await this.getSyncedContact(ghlContact.id);
+  private async applySegment(
+    ghlContactId: string,
+    callToolsContactId: string,
+    rule: SegmentRule,
+    route: ContactRoute,
+    isNew: boolean
+  ): Promise<void> {
+    const event = { ghl_contact_id: ghlContactId, calltools_contact_id: callToolsContactId };
 
-    // Skip if marked as customer
-    if (existingRecord && existingRecord.is_customer === 1) {
-      result.excluded_customers++;
-      return;
+    if (route.bucketId) {
+      try {
+        const status = await this.callToolsClient.addContactToBucket(callToolsContactId, route.bucketId);
+        this.events.record({ ...event, event_type: 'bucket_added', detail: route.bucketId, response_status: status });
+        console.log(`Added contact ${callToolsContactId} to bucket ${route.bucketId}`);
+      } catch (error) {
+        this.events.record({
+          ...event,
+          event_type: 'bucket_added',
+          detail: route.bucketId,
+          status: 'failed',
+          response_status: responseStatusFromError(error),
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
     }
 
-    // Prepare CallTools contact data
-    const phone = ghlContact.phone || '';
-    if (!phone) {
-      console.warn(`Contact ${ghlContact.id} has no phone number, skipping`);
-      await this.updateSyncRecord(ghlContact.id, {
-        sync_status: 'failed',
-        error_message: 'No phone number',
-      });
-      result.failed++;
-      return;
+    if (!isNew) {
+      for (const bucketId of route.removeBucketIds) {
+        try {
+          const status = await this.callToolsClient.removeContactFromBucket(callToolsContactId, bucketId);
+          this.events.record({ ...event, event_type: 'bucket_removed', detail: bucketId, response_status: status });
+          console.log(`Removed contact ${callToolsContactId} from bucket ${bucketId}`);
+        } catch (error) {
+          this.events.record({
+            ...event,
+            event_type: 'bucket_removed',
+            detail: bucketId,
+            status: 'failed',
+            response_status: responseStatusFromError(error),
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+          console.log(`Could not remove from bucket ${bucketId} (may not be in it):`, error);
+        }
+      }
     }
 
-    const callToolsContact: CallToolsContact = {
-      first_name: ghlContact.firstName || ghlContact.name || 'Unknown',
-      last_name: ghlContact.lastName || '',
-      mobile_phone_number: phone,
-      personal_email_address: ghlContact.email || '',
-      bucket_id: bucketId, // Assign to Cold Leads bucket
-      // Don't send tags in create payload - add them separately after creation
-    };
-
-    try {
-      // Check if contact already exists in CallTools (search by phone)
-      const existingCallToolsContact = await this.callToolsClient.getContactByExternalId(
-        ghlContact.id,
-        phone
-      );
+    if (rule.calltools_tag) {
+      const outcome = await this.callToolsClient.addTagToContact(callToolsContactId, rule.calltools_tag);
+      this.events.record({
+        ...event,
+        event_type: 'tag_added',
+        detail: rule.calltools_tag,
+        status: outcome.ok ? 'success' : 'failed',
+        response_status: outcome.status,
+        message: outcome.error ?? null,
+      });
+    }
 
-      if (existingCallToolsContact) {
-        // Update existing contact
-        await this.callToolsClient.updateContact(
-          existingCallToolsContact.id,
-          callToolsContact
-        );
-        
-        // Add contact to Cold Leads bucket
-        if (bucketId) {
-          await this.callToolsClient.addContactToBucket(
-            existingCallToolsContact.id,
-            bucketId
-          );
-          console.log(`Added contact ${existingCallToolsContact.id} to bucket ${bucketId}`);
-        }
-        
-        // Add ACA Cold lead tag
-        await this.callToolsClient.addTagToContact(
-          existingCallToolsContact.id,
-          'ACA Cold lead'
-        );
-        
-        await this.updateSyncRecord(ghlContact.id, {
-          calltools_contact_id: existingCallToolsContact.id,
-          first_name: callToolsContact.first_name,
-          last_name: callToolsContact.last_name,
-          phone: callToolsContact.mobile_phone_number,
-          email: callToolsContact.email,
-          sync_status: 'synced',
-          last_sync_at: new Date().toISOString(),
-          error_message: null,
-        });
-        
-        result.updated++;
-        console.log(`Updated contact ${ghlContact.id} in CallTools and added to Cold Leads bucket`);
-      } else {
-        // Create new contact
-        const createdContact = await this.callToolsClient.createContact(callToolsContact);
-        
-        // Add contact to Cold Leads bucket
-        if (bucketId) {
-          await this.callToolsClient.addContactToBucket(
-            createdContact.id,
-            bucketId
-          );
-          console.log(`Added contact ${createdContact.id} to bucket ${bucketId}`);
-        }
-        
-        // Add ACA Cold lead tag
-        await this.callToolsClient.addTagToContact(
-          createdContact.id,
-          'ACA Cold lead'
-        );
-        
-        await this.createOrUpdateSyncRecord({
-          ghl_contact_id: ghlContact.id,
-          calltools_contact_id: createdContact.id,
-          first_name: callToolsContact.first_name,
-          last_name: callToolsContact.last_name || null,
-          phone: callToolsContact.mobile_phone_number,
-          email: callToolsContact.email || null,
-          sync_status: 'synced',
-          last_sync_at: new Date().toISOString(),
-          error_message: null,
-          is_customer: 0,
+    if (!isNew) {
+      for (const tagName of splitRuleList(rule.remove_tags)) {
+        const outcome = await this.callToolsClient.removeTagFromContact(callToolsContactId, tagName);
+        this.events.record({
+          ...event,
+          event_type: 'tag_removed',
+          detail: tagName,
+          status: outcome.ok ? 'success' : 'failed',
+          response_status: outcome.status,
+          message: outcome.error ?? null,
         });
-        
-        result.synced++;
-        console.log(`Created contact ${ghlContact.id} in CallTools and added to Cold Leads bucket`);
       }
-    } catch (error) {
-      await this.updateSyncRecord(ghlContact.id, {
-        sync_status: 'failed',
-        error_message: error instanceof Error ? error.message : 'Unknown error',
-      });
-      throw error;
     }
   }
 
+  /**
+   * Name of a checkpoint for this account; each tenant reads its own GHL location, so keeps its own cursors
+   */
+  private checkpointName(name: string): string {
+    return this.tenantId === null ? name : `${name}:tenant:${this.tenantId}`;
+  }
+
   /**
    * Get a synced contact record from the database
    */
-  private async getSyncedContact(ghlContactId: string): Promise<SyncedContact | null> {
+  async getSyncedContact(ghlContactId: string): Promise<SyncedContact | null> {
     const result = await this.db
       .prepare('SELECT * FROM synced_contacts WHERE ghl_contact_id = ?')
       .bind(ghlContactId)
@@ -546,7 +1321,15 @@ export class ContactSyncService {
               sync_status = ?,
               last_sync_at = ?,
               error_message = ?,
-              is_customer = ?
+              is_customer = ?,
+              timezone = COALESCE(?, timezone),
+              timezone_source = COALESCE(?, timezone_source),
+              held_until = ?,
+              policy_year = ?,
+              policy_lapsed_at = CASE WHEN ? IS NULL THEN policy_lapsed_at ELSE NULL END,
+              retry_attempts = 0,
+              next_retry_at = NULL,
+              tenant_id = COALESCE(?, tenant_id)
           WHERE ghl_contact_id = ?
         `)
         .bind(
@@ -559,6 +1342,12 @@ export class ContactSyncService {
           data.last_sync_at,
           data.error_message,
           data.is_customer,
+          data.timezone ?? null,
+          data.timezone_source ?? null,
+          data.held_until ?? null,
+          data.policy_year ?? null,
+          data.policy_year ?? null,
+          this.tenantId,
           data.ghl_contact_id
         )
         .run();
@@ -575,8 +1364,13 @@ export class ContactSyncService {
             sync_status,
             last_sync_at,
             error_message,
-            is_customer
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            is_customer,
+            timezone,
+            timezone_source,
+            held_until,
+            policy_year,
+            tenant_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `)
         .bind(
           data.ghl_contact_id,
@@ -588,7 +1382,12 @@ export class ContactSyncService {
           data.sync_status,
           data.last_sync_at || null,
           data.error_message || null,
-          data.is_customer
+          data.is_customer,
+          data.timezone ?? null,
+          data.timezone_source ?? null,
+          data.held_until ?? null,
+          data.policy_year ?? null,
+          this.tenantId
         )
         .run();
     }
@@ -599,7 +1398,7 @@ export class ContactSyncService {
    */
   private async updateSyncRecord(
     ghlContactId: string,
-    updates: Partial<Pick<SyncedContact, 'calltools_contact_id' | 'sync_status' | 'last_sync_at' | 'error_message' | 'first_name' | 'last_name' | 'phone' | 'email'>>
+    updates: Partial<Pick<SyncedContact, 'calltools_contact_id' | 'sync_status' | 'last_sync_at' | 'error_message' | 'first_name' | 'last_name' | 'phone' | 'email' | 'timezone' | 'timezone_source' | 'held_until'>>
   ): Promise<void> {
     const existing = await this.getSyncedContact(ghlContactId);
     
@@ -616,6 +1415,9 @@ export class ContactSyncService {
         last_sync_at: updates.last_sync_at || null,
         error_message: updates.error_message || null,
         is_customer: 0,
+        timezone: updates.timezone ?? null,
+        timezone_source: updates.timezone_source ?? null,
+        held_until: updates.held_until ?? null,
       });
       return;
     }
@@ -646,6 +1448,11 @@ export class ContactSyncService {
     if (updates.sync_status !== undefined) {
       fields.push('sync_status = ?');
       values.push(updates.sync_status);
+
+      // The retry backoff only applies while the contact keeps failing
+      if (updates.sync_status !== 'failed') {
+        fields.push('retry_attempts = 0', 'next_retry_at = NULL');
+      }
     }
     if (updates.last_sync_at !== undefined) {
       fields.push('last_sync_at = ?');
@@ -655,6 +1462,18 @@ export class ContactSyncService {
       fields.push('error_message = ?');
       values.push(updates.error_message);
     }
+    if (updates.timezone !== undefined) {
+      fields.push('timezone = ?');
+      values.push(updates.timezone);
+    }
+    if (updates.timezone_source !== undefined) {
+      fields.push('timezone_source = ?');
+      values.push(updates.timezone_source);
+    }
+    if (updates.held_until !== undefined) {
+      fields.push('held_until = ?');
+      values.push(updates.held_until);
+    }
 
     if (fields.length === 0) return;
 
@@ -666,10 +1485,337 @@ export class ContactSyncService {
       .run();
   }
 
+  /**
+   * Apply the delete policy to a contact that was deleted in GoHighLevel
+   * The sync record is kept with status 'deleted' so stats stay accurate
+   */
+  async handleContactDeleted(ghlContactId: string, policy: GhlDeletePolicy): Promise<ContactDeleteOutcome> {
+    try {
+      const record = await this.getSyncedContact(ghlContactId);
+      if (!record) {
+        console.log(`Deleted GHL contact ${ghlContactId} was never synced, nothing to do`);
+        return { success: true, contact_id: ghlContactId, action: 'skipped', policy };
+      }
+
+      // A merged duplicate shares the survivor's CallTools contact, which must outlive the duplicate
+      const callToolsContactId = record.merged_into ? null : record.calltools_contact_id;
+      if (record.merged_into) {
+        console.log(`Deleted GHL contact ${ghlContactId} was merged into ${record.merged_into}, leaving CallTools as is`);
+      }
+      if (callToolsContactId && policy === 'delete') {
+        try {
+          await this.callToolsClient.deleteContact(callToolsContactId);
+          this.events.record({
+            ghl_contact_id: ghlContactId,
+            calltools_contact_id: callToolsContactId,
+            event_type: 'contact_deleted',
+          });
+        } catch (error) {
+          // Already gone in CallTools
+          if (responseStatusFromError(error) !== 404) throw error;
+        }
+      } else if (callToolsContactId && policy === 'remove_from_buckets') {
+        for (const bucketId of await this.getManagedBucketIds()) {
+          try {
+            const status = await this.callToolsClient.removeContactFromBucket(callToolsContactId, bucketId);
+            this.events.record({
+              ghl_contact_id: ghlContactId,
+              calltools_contact_id: callToolsContactId,
+              event_type: 'bucket_removed',
+              detail: bucketId,
+              response_status: status,
+            });
+          } catch (error) {
+            console.log(`Could not remove from bucket ${bucketId} (may not be in it):`, error);
+          }
+        }
+      }
+
+      await this.updateSyncRecord(ghlContactId, {
+        sync_status: 'deleted',
+        error_message: null,
+      });
+      this.events.record({
+        ghl_contact_id: ghlContactId,
+        calltools_contact_id: callToolsContactId,
+        event_type: 'ghl_deleted',
+        detail: policy,
+      });
+
+      console.log(`Handled GHL deletion of ${ghlContactId} with policy "${policy}"`);
+      return { success: true, contact_id: ghlContactId, action: 'deleted', policy };
+    } catch (error) {
+      console.error(`Error handling deletion of ${ghlContactId}:`, error);
+      return {
+        success: false,
+        contact_id: ghlContactId,
+        action: 'failed',
+        policy,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryableError(error),
+      };
+    } finally {
+      await this.events.flush();
+    }
+  }
+
+  /**
+   * Compare synced contacts after afterId with their GHL segment and CallTools state
+   * With fix, applies the fewest operations that bring each drifted contact back in line
+   */
+  async reconcileContacts(afterId: number, limit: number, fix: boolean = false): Promise<ReconcileReport> {
+    const report: ReconcileReport = {
+      checked: 0,
+      drifted: 0,
+      fixed: 0,
+      failed: 0,
+      contacts: [],
+      next_after_id: null,
+    };
+
+    // Held and pending contacts haven't reached CallTools yet; merged and deleted ones never will again
+    const result = await this.db
+      .prepare(`
+        SELECT * FROM synced_contacts
+        WHERE id > ? AND tenant_id IS ? AND merged_into IS NULL
+          AND sync_status IN ('synced', 'excluded', 'suppressed', 'failed')
+        ORDER BY id ASC
+        LIMIT ?
+      `)
+      .bind(afterId, this.tenantId, limit)
+      .all<SyncedContact>();
+    const records = result.results || [];
+
+    for (const record of records) {
+      const reconciliation = await this.reconcileContact(record, fix);
+      report.checked++;
+
+      if (reconciliation.error) {
+        report.failed++;
+      } else if (reconciliation.drift.length > 0) {
+        report.drifted++;
+        report.fixed += reconciliation.drift.filter((drift) => drift.fixed).length;
+      }
+
+      if (reconciliation.error || reconciliation.drift.length > 0) {
+        report.contacts.push(reconciliation);
+      }
+    }
+
+    report.next_after_id = records.length === limit ? records[records.length - 1].id! : null;
+    console.log(`Reconciled ${report.checked} contacts: ${report.drifted} drifted, ${report.fixed} fixed, ${report.failed} failed`);
+    return report;
+  }
+
+  /**
+   * Reconcile the next batch after the stored checkpoint, starting over once every contact was checked
+   */
+  async reconcileNextBatch(limit: number, fix: boolean = false): Promise<ReconcileReport> {
+    const cursor = await this.checkpoints.get(this.checkpointName(RECONCILE_CHECKPOINT));
+    const report = await this.reconcileContacts(cursor.startAfterId ? parseInt(cursor.startAfterId) : 0, limit, fix);
+
+    await this.checkpoints.save(this.checkpointName(RECONCILE_CHECKPOINT), {
+      updatedAfter: null,
+      startAfterId: report.next_after_id !== null ? String(report.next_after_id) : null,
+    });
+    return report;
+  }
+
+  /**
+   * Find and optionally fix one contact's drift
+   */
+  private async reconcileContact(record: SyncedContact, fix: boolean): Promise<ContactReconciliation> {
+    const reconciliation: ContactReconciliation = {
+      contact_id: record.ghl_contact_id,
+      calltools_contact_id: record.calltools_contact_id,
+      rule: null,
+      drift: [],
+    };
+    const addDrift = (type: DriftType, target: string | null = null) =>
+      reconciliation.drift.push({ type, target, fixed: false });
+
+    try {
+      const ghlContact = await this.ghlClient.getContact(record.ghl_contact_id);
+      const expected = await this.expectedSegment(ghlContact, record);
+      reconciliation.rule = expected.rule?.name ?? null;
+
+      if (expected.markCustomer && record.is_customer !== 1) {
+        addDrift('customer_not_marked');
+      }
+
+      const callToolsContact = record.calltools_contact_id
+        ? await this.callToolsClient.getContact(record.calltools_contact_id)
+        : null;
+
+      if (expected.synced && !callToolsContact) {
+        addDrift('missing_calltools_contact');
+      } else if (callToolsContact) {
+        const bucketIds = new Set((callToolsContact.buckets || []).map(String));
+        if (callToolsContact.bucket_id) {
+          bucketIds.add(String(callToolsContact.bucket_id));
+        }
+
+        if (expected.bucketId && !bucketIds.has(expected.bucketId)) {
+          addDrift('missing_bucket', expected.bucketId);
+        }
+        // Lapsed clients sit in the lapsed / renewal bucket until their tags show a current policy
+        const lapsed = Boolean(record.policy_lapsed_at) && !expected.synced;
+        for (const bucketId of lapsed ? [] : await this.getManagedBucketIds()) {
+          if (bucketId !== expected.bucketId && bucketIds.has(bucketId)) {
+            addDrift('stray_bucket', bucketId);
+          }
+        }
+
+        if (expected.tag && !(await this.callToolsContactHasTag(callToolsContact, expected.tag))) {
+          addDrift('missing_tag', expected.tag);
+        }
+        for (const tagName of expected.removeTags) {
+          if (await this.callToolsContactHasTag(callToolsContact, tagName)) {
+            addDrift('stray_tag', tagName);
+          }
+        }
+      }
+
+      for (const drift of reconciliation.drift) {
+        this.events.record({
+          ghl_contact_id: record.ghl_contact_id,
+          calltools_contact_id: record.calltools_contact_id,
+          event_type: 'drift_detected',
+          detail: drift.type,
+          message: drift.target,
+        });
+      }
+
+      if (fix) {
+        for (const drift of reconciliation.drift) {
+          await this.fixDrift(ghlContact, record, drift);
+        }
+      }
+    } catch (error) {
+      console.error(`Error reconciling contact ${record.ghl_contact_id}:`, error);
+      reconciliation.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      await this.events.flush();
+    }
+
+    return reconciliation;
+  }
+
+  /**
+   * The segment a contact's GHL tags put it in, following the same rules as syncGhlContact
+   * Contacts outside a synced segment belong in none of the managed buckets
+   */
+  private async expectedSegment(ghlContact: GHLContact, record: SyncedContact): Promise<ExpectedSegment> {
+    const unsynced: ExpectedSegment = { rule: null, synced: false, bucketId: null, tag: null, removeTags: [], markCustomer: false };
+
+    if (await this.checkSuppression(ghlContact, false)) {
+      return unsynced;
+    }
+
+    const rule = await this.segmentRules.classify(Array.isArray(ghlContact.tags) ? ghlContact.tags : []);
+    if (!rule) {
+      return unsynced;
+    }
+
+    const markCustomer = rule.mark_customer === 1;
+    if (rule.action === 'exclude' || (record.is_customer === 1 && !markCustomer)) {
+      return { ...unsynced, rule, markCustomer: rule.action === 'exclude' && markCustomer };
+    }
+
+    return {
+      rule,
+      synced: true,
+      bucketId: bucketForTimezone(rule, record.timezone ?? null),
+      tag: rule.calltools_tag,
+      removeTags: splitRuleList(rule.remove_tags),
+      markCustomer,
+    };
+  }
+
+  /**
+   * CallTools returns a contact's tags as IDs or as tag objects, depending on the endpoint
+   */
+  private async callToolsContactHasTag(contact: CallToolsContactResponse, tagName: string): Promise<boolean> {
+    const tags = contact.tags || [];
+    const normalizedName = tagName.trim().toLowerCase();
+    if (tags.some((tag) => typeof tag === 'object' && tag.name.trim().toLowerCase() === normalizedName)) {
+      return true;
+    }
+
+    // Bare IDs need the tag's ID to compare against
+    const tagIds = tags.filter((tag) => typeof tag !== 'object').map(String);
+    if (tagIds.length === 0) {
+      return false;
+    }
+    const tagId = await this.callToolsClient.getTagId(tagName);
+    return tagId !== null && tagIds.includes(String(tagId));
+  }
+
+  /**
+   * Apply the single operation that corrects a drift item
+   */
+  private async fixDrift(ghlContact: GHLContact, record: SyncedContact, drift: ContactDrift): Promise<void> {
+    const callToolsContactId = record.calltools_contact_id!;
+    const event = {
+      ghl_contact_id: record.ghl_contact_id,
+      calltools_contact_id: record.calltools_contact_id,
+      detail: drift.target,
+      message: 'Drift fix',
+    };
+
+    try {
+      switch (drift.type) {
+        case 'missing_calltools_contact': {
+          // A full sync finds or recreates the contact and applies its segment
+          const outcome = await this.syncGhlContact(ghlContact);
+          if (!outcome.success) {
+            throw new Error(outcome.error || 'Sync failed');
+          }
+          break;
+        }
+        case 'missing_bucket':
+        case 'stray_bucket': {
+          const added = drift.type === 'missing_bucket';
+          const status = added
+            ? await this.callToolsClient.addContactToBucket(callToolsContactId, drift.target!)
+            : await this.callToolsClient.removeContactFromBucket(callToolsContactId, drift.target!);
+          this.events.record({ ...event, event_type: added ? 'bucket_added' : 'bucket_removed', response_status: status });
+          break;
+        }
+        case 'missing_tag':
+        case 'stray_tag': {
+          const added = drift.type === 'missing_tag';
+          const outcome = added
+            ? await this.callToolsClient.addTagToContact(callToolsContactId, drift.target!)
+            : await this.callToolsClient.removeTagFromContact(callToolsContactId, drift.target!);
+          this.events.record({
+            ...event,
+            event_type: added ? 'tag_added' : 'tag_removed',
+            status: outcome.ok ? 'success' : 'failed',
+            response_status: outcome.status,
+            message: outcome.error ?? event.message,
+          });
+          if (!outcome.ok) {
+            throw new Error(outcome.error || 'Tag update failed');
+          }
+          break;
+        }
+        case 'customer_not_marked':
+          await this.markAsCustomer(record.ghl_contact_id, 'reconciliation');
+          break;
+      }
+      drift.fixed = true;
+    } catch (error) {
+      drift.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Could not fix ${drift.type} for contact ${record.ghl_contact_id}:`, error);
+    }
+  }
+
   /**
    * Mark a contact as customer (will be excluded from future syncs)
+   * reason is the rule or person that marked it; note says why
    */
-  async markAsCustomer(ghlContactId: string): Promise<void> {
+  async markAsCustomer(ghlContactId: string, reason: string = 'manual', note?: string): Promise<void> {
     await this.updateSyncRecord(ghlContactId, {
       sync_status: 'excluded',
     });
@@ -678,17 +1824,240 @@ export class ContactSyncService {
       .prepare('UPDATE synced_contacts SET is_customer = 1 WHERE ghl_contact_id = ?')
       .bind(ghlContactId)
       .run();
+
+    this.events.record({ ghl_contact_id: ghlContactId, event_type: 'marked_customer', detail: reason, message: note ?? null });
+    await this.events.flush();
+  }
+
+  /**
+   * Mark a contact as customer by hand and take it out of the lead buckets and tags in CallTools
+   * Syncs only skip customers, so without this the contact would stay in Cold Leads
+   */
+  async markCustomerManually(ghlContactId: string, markedBy: string = 'manual', note?: string): Promise<void> {
+    await this.markAsCustomer(ghlContactId, markedBy, note);
+
+    const record = await this.getSyncedContact(ghlContactId);
+    const callToolsContactId = record?.calltools_contact_id;
+    if (!callToolsContactId) {
+      return;
+    }
+
+    const event = { ghl_contact_id: ghlContactId, calltools_contact_id: callToolsContactId };
+    const { bucketIds, tags } = await this.segmentRules.getLeadTargets();
+
+    try {
+      for (const bucketId of bucketIds) {
+        try {
+          const status = await this.callToolsClient.removeContactFromBucket(callToolsContactId, bucketId);
+          this.events.record({ ...event, event_type: 'bucket_removed', detail: bucketId, response_status: status });
+        } catch (error) {
+          console.log(`Could not remove from bucket ${bucketId} (may not be in it):`, error);
+        }
+      }
+
+      for (const tagName of tags) {
+        const outcome = await this.callToolsClient.removeTagFromContact(callToolsContactId, tagName);
+        this.events.record({
+          ...event,
+          event_type: 'tag_removed',
+          detail: tagName,
+          status: outcome.ok ? 'success' : 'failed',
+          response_status: outcome.status,
+          message: outcome.error ?? null,
+        });
+      }
+    } finally {
+      await this.events.flush();
+    }
+  }
+
+  /**
+   * Clear a contact's customer mark and sync it again, so it lands in the segment its GHL tags call for
+   * A contact whose tags still match a customer rule is marked again by that sync
+   * Returns null when this account has no such contact
+   */
+  async reinstateCustomer(ghlContactId: string, reinstatedBy: string, reason: string): Promise<ContactSyncOutcome | null> {
+    const updated = await this.db
+      .prepare(`UPDATE synced_contacts SET is_customer = 0, sync_status = 'pending' WHERE ghl_contact_id = ? AND tenant_id IS ?`)
+      .bind(ghlContactId, this.tenantId)
+      .run();
+    if (updated.meta.changes === 0) {
+      return null;
+    }
+
+    this.events.record({
+      ghl_contact_id: ghlContactId,
+      event_type: 'customer_reinstated',
+      detail: reinstatedBy,
+      message: reason,
+    });
+    await this.events.flush();
+
+    return await this.syncSingleContact(ghlContactId);
+  }
+
+  /**
+   * Move clients whose latest policy year has passed out of the year rules' buckets and tags
+   * and into the lapsed / renewal bucket and tag; an empty name skips that step
+   * Contacts that failed stay unlapsed, so the next run retries them
+   */
+  async rolloverExpiredPolicies(limit: number, lapsedBucketName: string, lapsedTag: string): Promise<PolicyRolloverResult> {
+    const result: PolicyRolloverResult = { checked: 0, lapsed: 0, current: 0, suppressed: 0, failed: 0, errors: [] };
+    const currentYear = new Date().getUTCFullYear();
+
+    const records = await this.db
+      .prepare(`
+        SELECT * FROM synced_contacts
+        WHERE policy_year < ? AND policy_lapsed_at IS NULL AND tenant_id IS ?
+          AND calltools_contact_id IS NOT NULL AND merged_into IS NULL
+          AND sync_status NOT IN ('deleted', 'suppressed')
+        ORDER BY policy_year ASC, id ASC
+        LIMIT ?
+      `)
+      .bind(currentYear, this.tenantId, limit)
+      .all<SyncedContact>();
+
+    for (const record of records.results || []) {
+      result.checked++;
+      try {
+        result[await this.lapsePolicy(record, lapsedBucketName, lapsedTag)]++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error rolling over policy of contact ${record.ghl_contact_id}:`, error);
+        result.failed++;
+        result.errors.push({ contact_id: record.ghl_contact_id, error: message });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lapse one contact's policy, unless its GHL tags gained a current year since it last synced
+   * A contact that opted out meanwhile is pulled from the dialer instead
+   */
+  private async lapsePolicy(
+    record: SyncedContact,
+    lapsedBucketName: string,
+    lapsedTag: string
+  ): Promise<'lapsed' | 'current' | 'suppressed'> {
+    const ghlContact = await this.ghlClient.getContact(record.ghl_contact_id);
+
+    const suppressionReason = await this.checkSuppression(ghlContact, true);
+    if (suppressionReason) {
+      try {
+        await this.pullSuppressedContact(ghlContact, suppressionReason);
+        return 'suppressed';
+      } finally {
+        await this.events.flush();
+      }
+    }
+
+    const tags = Array.isArray(ghlContact.tags) ? ghlContact.tags : [];
+    const rule = await this.segmentRules.classify(tags);
+
+    // The next sync moves the contact to its current year; until then only the stored year is refreshed
+    if (rule?.match_mode === 'year') {
+      await this.db
+        .prepare('UPDATE synced_contacts SET policy_year = ? WHERE ghl_contact_id = ?')
+        .bind(latestPolicyYear(rule, tags), record.ghl_contact_id)
+        .run();
+      return 'current';
+    }
+
+    const callToolsContactId = record.calltools_contact_id!;
+    const event = { ghl_contact_id: record.ghl_contact_id, calltools_contact_id: callToolsContactId };
+    const { bucketIds, tags: yearTags } = await this.segmentRules.getYearTargets();
+
+    try {
+      for (const bucketId of bucketIds) {
+        try {
+          const status = await this.callToolsClient.removeContactFromBucket(callToolsContactId, bucketId);
+          this.events.record({ ...event, event_type: 'bucket_removed', detail: bucketId, response_status: status });
+        } catch (error) {
+          console.log(`Could not remove from bucket ${bucketId} (may not be in it):`, error);
+        }
+      }
+
+      for (const tagName of yearTags) {
+        const outcome = await this.callToolsClient.removeTagFromContact(callToolsContactId, tagName);
+        this.events.record({
+          ...event,
+          event_type: 'tag_removed',
+          detail: tagName,
+          status: outcome.ok ? 'success' : 'failed',
+          response_status: outcome.status,
+          message: outcome.error ?? null,
+        });
+      }
+
+      if (lapsedBucketName) {
+        const bucketId = await this.callToolsClient.getOrCreateBucket(lapsedBucketName);
+        const status = await this.callToolsClient.addContactToBucket(callToolsContactId, bucketId);
+        this.events.record({
+          ...event,
+          event_type: 'bucket_added',
+          detail: bucketId,
+          response_status: status,
+          message: POLICY_LAPSED_BUCKET_MESSAGE,
+        });
+      }
+
+      if (lapsedTag) {
+        const outcome = await this.callToolsClient.addTagToContact(callToolsContactId, lapsedTag);
+        this.events.record({
+          ...event,
+          event_type: 'tag_added',
+          detail: lapsedTag,
+          status: outcome.ok ? 'success' : 'failed',
+          response_status: outcome.status,
+          message: outcome.error ?? null,
+        });
+        if (!outcome.ok) {
+          throw new Error(outcome.error || 'Tag update failed');
+        }
+      }
+
+      await this.db
+        .prepare('UPDATE synced_contacts SET policy_lapsed_at = ? WHERE ghl_contact_id = ?')
+        .bind(new Date().toISOString(), record.ghl_contact_id)
+        .run();
+
+      this.events.record({
+        ...event,
+        event_type: 'policy_lapsed',
+        detail: String(record.policy_year),
+        message: lapsedBucketName || null,
+      });
+      console.log(`Lapsed ${record.policy_year} policy of contact ${record.ghl_contact_id}`);
+      return 'lapsed';
+    } catch (error) {
+      this.events.record({
+        ...event,
+        event_type: 'failed',
+        status: 'failed',
+        response_status: responseStatusFromError(error),
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    } finally {
+      await this.events.flush();
+    }
   }
 
   /**
-   * Get sync statistics
+   * Get sync statistics, for one tenant when tenantId is given
    */
-  async getSyncStats(): Promise<{
+  async getSyncStats(tenantId?: number): Promise<{
     total_contacts: number;
     synced: number;
     failed: number;
+    failed_permanently: number;
     excluded_customers: number;
     pending: number;
+    deleted: number;
+    suppressed: number;
+    held: number;
   }> {
     const stats = await this.db
       .prepare(`
@@ -696,18 +2065,28 @@ export class ContactSyncService {
           COUNT(*) as total_contacts,
           SUM(CASE WHEN sync_status = 'synced' THEN 1 ELSE 0 END) as synced,
           SUM(CASE WHEN sync_status = 'failed' THEN 1 ELSE 0 END) as failed,
+          SUM(CASE WHEN sync_status = 'failed_permanently' THEN 1 ELSE 0 END) as failed_permanently,
           SUM(CASE WHEN is_customer = 1 THEN 1 ELSE 0 END) as excluded_customers,
-          SUM(CASE WHEN sync_status = 'pending' THEN 1 ELSE 0 END) as pending
+          SUM(CASE WHEN sync_status = 'pending' THEN 1 ELSE 0 END) as pending,
+          SUM(CASE WHEN sync_status = 'deleted' THEN 1 ELSE 0 END) as deleted,
+          SUM(CASE WHEN sync_status = 'suppressed' THEN 1 ELSE 0 END) as suppressed,
+          SUM(CASE WHEN sync_status = 'held' THEN 1 ELSE 0 END) as held
         FROM synced_contacts
+        ${tenantId !== undefined ? 'WHERE tenant_id = ?' : ''}
       `)
+      .bind(...(tenantId !== undefined ? [tenantId] : []))
       .first<any>();
 
     return {
       total_contacts: stats?.total_contacts || 0,
       synced: stats?.synced || 0,
       failed: stats?.failed || 0,
+      failed_permanently: stats?.failed_permanently || 0,
       excluded_customers: stats?.excluded_customers || 0,
       pending: stats?.pending || 0,
+      deleted: stats?.deleted || 0,
+      suppressed: stats?.suppressed || 0,
+      held: stats?.held || 0,
     };
   }
 }
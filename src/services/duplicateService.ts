@@ -0,0 +1,257 @@
+/**
+ * Duplicate Service
+ * Finds GHL contacts that share a phone, email or CallTools contact and merges them onto a survivor
+ */
+
+import { CallToolsClient } from '../clients/calltools';
+import { normalizePhone } from '../utils/phone';
+import { SyncedContact } from './contactSyncService';
+import { SyncEventService } from './syncEventService';
+
+export type DuplicateKeyType = 'calltools_contact_id' | 'phone' | 'email';
+
+export interface DuplicateGroup {
+  key_type: DuplicateKeyType;
+  key: string;
+  ghl_contact_ids: string[];
+  calltools_contact_ids: string[];
+  many_to_one: boolean; // several GHL contacts resolve to the same CallTools contact
+  calltools_matches?: string[]; // CallTools contacts found by searching the phone, when verified
+}
+
+// Each verified group costs one CallTools subrequest
+const MAX_VERIFIED_GROUPS = 40;
+
+// SQL expression of each grouping key; phones are stored in E.164, emails are compared without case
+const KEY_EXPRESSIONS: Record<DuplicateKeyType, string> = {
+  calltools_contact_id: 'calltools_contact_id',
+  phone: 'phone',
+  email: 'LOWER(TRIM(email))',
+};
+
+// D1 caps bound parameters per statement
+const MAX_BOUND_KEYS = 50;
+
+// A merge binds every duplicate ID (plus the survivor) in one statement, so it stays under the same cap
+export const MAX_MERGE_DUPLICATES = 50;
+
+export class DuplicateService {
+  private db: D1Database;
+  private defaultPhoneRegion: string;
+  private callToolsClient?: CallToolsClient;
+  private tenantId: number | null;
+  private events: SyncEventService;
+
+  // The CallTools client is only needed to verify phone groups against CallTools search results;
+  // only the tenant's contacts are grouped, since contacts of different tenants are never duplicates
+  constructor(
+    db: D1Database,
+    defaultPhoneRegion: string = 'US',
+    callToolsClient?: CallToolsClient,
+    tenantId: number | null = null
+  ) {
+    this.db = db;
+    this.defaultPhoneRegion = defaultPhoneRegion;
+    this.callToolsClient = callToolsClient;
+    this.tenantId = tenantId;
+    this.events = new SyncEventService(db);
+  }
+
+  /**
+   * Group synced contacts that share a CallTools contact, a normalized phone or an email
+   * Contacts that were already merged are left out
+   */
+  async findDuplicates(keyTypes: DuplicateKeyType[] = ['calltools_contact_id', 'phone', 'email']): Promise<DuplicateGroup[]> {
+    const groups: DuplicateGroup[] = [];
+
+    for (const keyType of keyTypes) {
+      // Only contacts sharing a key are read; the grouping itself happens in D1
+      const expression = KEY_EXPRESSIONS[keyType];
+      const where = `merged_into IS NULL AND tenant_id IS ? AND ${expression} IS NOT NULL AND ${expression} != ''`;
+      const result = await this.db
+        .prepare(`
+          SELECT * FROM synced_contacts
+          WHERE ${where} AND ${expression} IN (
+            SELECT ${expression} FROM synced_contacts
+            WHERE ${where}
+            GROUP BY ${expression}
+            HAVING COUNT(*) > 1
+          )
+          ORDER BY id ASC
+        `)
+        .bind(this.tenantId, this.tenantId)
+        .all<SyncedContact>();
+
+      const contacts = keyType === 'phone'
+        ? await this.withLegacyPhones(result.results || [])
+        : result.results || [];
+
+      const buckets = new Map<string, SyncedContact[]>();
+      for (const contact of contacts) {
+        const key = this.keyFor(contact, keyType);
+        if (!key) continue;
+        buckets.set(key, [...(buckets.get(key) || []), contact]);
+      }
+
+      for (const [key, members] of buckets) {
+        if (members.length < 2) continue;
+        groups.push(this.toGroup(keyType, key, members));
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Attach the CallTools contacts found by searching each phone group
+   * More than one match means the person is also duplicated inside CallTools
+   */
+  async verifyPhoneGroups(groups: DuplicateGroup[]): Promise<DuplicateGroup[]> {
+    if (!this.callToolsClient) {
+      throw new Error('A CallToolsClient is required to verify duplicates against CallTools');
+    }
+
+    const phoneGroups = groups.filter((group) => group.key_type === 'phone').slice(0, MAX_VERIFIED_GROUPS);
+    for (const group of phoneGroups) {
+      const matches = await this.callToolsClient.findContactsByPhone(group.key);
+      group.calltools_matches = matches.map((contact) => String(contact.id));
+    }
+
+    return groups;
+  }
+
+  /**
+   * Get synced contact records by GHL contact ID
+   */
+  async getContacts(ghlContactIds: string[]): Promise<SyncedContact[]> {
+    if (ghlContactIds.length === 0) return [];
+
+    const result = await this.db
+      .prepare(`SELECT * FROM synced_contacts WHERE ghl_contact_id IN (${ghlContactIds.map(() => '?').join(', ')})`)
+      .bind(...ghlContactIds)
+      .all<SyncedContact>();
+
+    return result.results || [];
+  }
+
+  /**
+   * Merge duplicates onto a survivor
+   * Duplicates are relinked to the survivor's CallTools contact and skipped by future syncs,
+   * so they can no longer overwrite the survivor's name in CallTools
+   */
+  async merge(survivor: SyncedContact, duplicates: SyncedContact[]): Promise<SyncedContact[]> {
+    const calltoolsContactId =
+      survivor.calltools_contact_id ||
+      duplicates.find((duplicate) => duplicate.calltools_contact_id)?.calltools_contact_id ||
+      null;
+    const duplicateIds = duplicates.map((duplicate) => duplicate.ghl_contact_id);
+    const placeholders = duplicateIds.map(() => '?').join(', ');
+
+    await this.db.batch([
+      this.db
+        .prepare('UPDATE synced_contacts SET calltools_contact_id = ? WHERE ghl_contact_id = ?')
+        .bind(calltoolsContactId, survivor.ghl_contact_id),
+      this.db
+        .prepare(`
+          UPDATE synced_contacts
+          SET merged_into = ?,
+              calltools_contact_id = ?,
+              sync_status = 'merged',
+              error_message = NULL
+          WHERE ghl_contact_id IN (${placeholders})
+        `)
+        .bind(survivor.ghl_contact_id, calltoolsContactId, ...duplicateIds),
+      // Contacts merged into a duplicate earlier now point at the new survivor
+      this.db
+        .prepare(`UPDATE synced_contacts SET merged_into = ?, calltools_contact_id = ? WHERE merged_into IN (${placeholders})`)
+        .bind(survivor.ghl_contact_id, calltoolsContactId, ...duplicateIds),
+    ]);
+
+    for (const duplicate of duplicates) {
+      this.events.record({
+        ghl_contact_id: duplicate.ghl_contact_id,
+        calltools_contact_id: calltoolsContactId,
+        event_type: 'merged',
+        detail: survivor.ghl_contact_id,
+        message: duplicate.calltools_contact_id && duplicate.calltools_contact_id !== calltoolsContactId
+          ? `Relinked from CallTools contact ${duplicate.calltools_contact_id}`
+          : null,
+      });
+    }
+    await this.events.flush();
+
+    console.log(`Merged ${duplicateIds.join(', ')} into ${survivor.ghl_contact_id}`);
+    return await this.getContacts([survivor.ghl_contact_id, ...duplicateIds]);
+  }
+
+  /**
+   * Add the contacts whose stored phone predates normalization, and the E.164 contacts they duplicate
+   * Rows written before phone normalization may hold raw GHL input that SQL can't group
+   */
+  private async withLegacyPhones(contacts: SyncedContact[]): Promise<SyncedContact[]> {
+    const legacy = await this.db
+      .prepare(`
+        SELECT * FROM synced_contacts
+        WHERE merged_into IS NULL AND tenant_id IS ? AND phone IS NOT NULL AND phone != '' AND phone NOT LIKE '+%'
+      `)
+      .bind(this.tenantId)
+      .all<SyncedContact>();
+    if (!legacy.results?.length) {
+      return contacts;
+    }
+
+    const byId = new Map(contacts.map((contact) => [contact.ghl_contact_id, contact]));
+    legacy.results.forEach((contact) => byId.set(contact.ghl_contact_id, contact));
+
+    const phones = [
+      ...new Set(
+        legacy.results
+          .map((contact) => normalizePhone(contact.phone, this.defaultPhoneRegion))
+          .filter((phone): phone is string => Boolean(phone))
+      ),
+    ];
+    for (let i = 0; i < phones.length; i += MAX_BOUND_KEYS) {
+      const chunk = phones.slice(i, i + MAX_BOUND_KEYS);
+      const matches = await this.db
+        .prepare(`
+          SELECT * FROM synced_contacts
+          WHERE merged_into IS NULL AND tenant_id IS ? AND phone IN (${chunk.map(() => '?').join(', ')})
+        `)
+        .bind(this.tenantId, ...chunk)
+        .all<SyncedContact>();
+      (matches.results || []).forEach((contact) => byId.set(contact.ghl_contact_id, contact));
+    }
+
+    return [...byId.values()].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  /**
+   * Normalized grouping key for a contact, or null if it has none
+   */
+  private keyFor(contact: SyncedContact, keyType: DuplicateKeyType): string | null {
+    if (keyType === 'calltools_contact_id') {
+      return contact.calltools_contact_id;
+    }
+    if (keyType === 'phone') {
+      // Rows written before phone normalization may hold raw GHL input
+      return normalizePhone(contact.phone, this.defaultPhoneRegion);
+    }
+    const email = contact.email?.trim().toLowerCase();
+    return email || null;
+  }
+
+  private toGroup(keyType: DuplicateKeyType, key: string, members: SyncedContact[]): DuplicateGroup {
+    const calltoolsIds = members
+      .map((member) => member.calltools_contact_id)
+      .filter((id): id is string => Boolean(id));
+    const distinctCalltoolsIds = [...new Set(calltoolsIds)];
+
+    return {
+      key_type: keyType,
+      key,
+      ghl_contact_ids: members.map((member) => member.ghl_contact_id),
+      calltools_contact_ids: distinctCalltoolsIds,
+      many_to_one: calltoolsIds.length > distinctCalltoolsIds.length,
+    };
+  }
+}
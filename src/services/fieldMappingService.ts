@@ -0,0 +1,176 @@
+/**
+ * Field Mapping Service
+ * Copies GoHighLevel standard and custom fields onto the CallTools contact payload
+ */
+
+import { GHLContact } from '../clients/gohighlevel';
+import { splitRuleList } from './segmentRuleService';
+
+export type FieldTransform = 'none' | 'uppercase' | 'lowercase' | 'date' | 'lookup';
+
+export interface FieldMapping {
+  id: number;
+  ghl_field: string;
+  calltools_field: string;
+  transform: FieldTransform;
+  transform_options: string | null;
+  default_value: string | null;
+  tenant_id: number | null;
+  enabled: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MappedFieldValue {
+  mapping_id: number;
+  ghl_field: string;
+  calltools_field: string;
+  source_value: string | null;
+  value: string | null;
+  defaulted: boolean;
+}
+
+export interface MappedFields {
+  fields: Record<string, string>;
+  custom_fields: Record<string, string>;
+  values: MappedFieldValue[];
+}
+
+// Prefix that addresses a custom field on either side of a mapping
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+export class FieldMappingService {
+  private db: D1Database;
+  private tenantId: number | null;
+  private mappings: FieldMapping[] | null = null;
+
+  // Shared mappings (tenant_id NULL) apply to every tenant; tenantId adds that tenant's own mappings
+  constructor(db: D1Database, tenantId: number | null = null) {
+    this.db = db;
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Get enabled mappings in the order they are applied
+   * Mappings are loaded once per service instance
+   */
+  async getActiveMappings(): Promise<FieldMapping[]> {
+    if (this.mappings) {
+      return this.mappings;
+    }
+
+    const result = await this.db
+      .prepare('SELECT * FROM field_mappings WHERE enabled = 1 AND (tenant_id IS NULL OR tenant_id = ?) ORDER BY id ASC')
+      .bind(this.tenantId)
+      .all<FieldMapping>();
+
+    this.mappings = result.results || [];
+    return this.mappings;
+  }
+
+  /**
+   * Map a GHL contact's fields with the enabled mappings
+   */
+  async apply(ghlContact: GHLContact): Promise<MappedFields> {
+    return applyFieldMappings(await this.getActiveMappings(), ghlContact);
+  }
+}
+
+/**
+ * Map a GHL contact's fields
+ * When several mappings target the same CallTools field, the last one wins
+ */
+export function applyFieldMappings(mappings: FieldMapping[], ghlContact: GHLContact): MappedFields {
+  const mapped: MappedFields = { fields: {}, custom_fields: {}, values: [] };
+
+  for (const mapping of mappings) {
+    const sourceValue = readGhlField(ghlContact, mapping.ghl_field);
+    const transformed = sourceValue === null ? null : transformValue(sourceValue, mapping);
+    const value = transformed ?? (mapping.default_value || null);
+
+    mapped.values.push({
+      mapping_id: mapping.id,
+      ghl_field: mapping.ghl_field,
+      calltools_field: mapping.calltools_field,
+      source_value: sourceValue,
+      value,
+      defaulted: transformed === null && value !== null,
+    });
+
+    if (value === null) continue;
+
+    if (mapping.calltools_field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      mapped.custom_fields[mapping.calltools_field.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+    } else {
+      mapped.fields[mapping.calltools_field] = value;
+    }
+  }
+
+  return mapped;
+}
+
+/**
+ * Read a GHL field as a string, or null when it is empty
+ * custom.<key> looks in customFields by key, then in GHL's customField array by ID
+ */
+export function readGhlField(ghlContact: GHLContact, field: string): string | null {
+  let value: unknown;
+
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const key = field.slice(CUSTOM_FIELD_PREFIX.length);
+    value = ghlContact.customFields?.[key];
+    if (value === undefined && Array.isArray(ghlContact.customField)) {
+      value = ghlContact.customField.find((customField) => customField.id === key)?.value;
+    }
+  } else {
+    // Dotted paths reach into nested objects, e.g. attributionSource.medium
+    value = ghlContact;
+    for (const part of field.split('.')) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+    }
+  }
+
+  if (value === undefined || value === null) return null;
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return text.trim() || null;
+}
+
+/**
+ * Apply a mapping's transform, or return null if the value can't be transformed
+ */
+function transformValue(value: string, mapping: FieldMapping): string | null {
+  switch (mapping.transform) {
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'date':
+      return formatDate(value, mapping.transform_options || DEFAULT_DATE_FORMAT);
+    case 'lookup': {
+      const entry = splitRuleList(mapping.transform_options)
+        .map((pair) => pair.split('=').map((part) => part.trim()))
+        .find(([from]) => from.toLowerCase() === value.toLowerCase());
+      return entry?.[1] ?? null;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Format a date with YYYY, MM and DD tokens, in UTC
+ */
+function formatDate(value: string, format: string): string | null {
+  // GHL sends dates as ISO strings or millisecond timestamps
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return format
+    .replace('YYYY', String(date.getUTCFullYear()))
+    .replace('MM', String(date.getUTCMonth() + 1).padStart(2, '0'))
+    .replace('DD', String(date.getUTCDate()).padStart(2, '0'));
+}
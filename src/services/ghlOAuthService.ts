@@ -0,0 +1,233 @@
+/**
+ * GHL OAuth Service
+ * Installs the app on GHL locations through the v2 authorization-code flow and keeps their tokens fresh
+ */
+
+import { GhlApiError, HttpTransport } from '../clients/http';
+
+export interface GhlOAuthToken {
+  id: number;
+  location_id: string;
+  company_id: string | null;
+  access_token: string;
+  refresh_token: string;
+  scope: string | null;
+  expires_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface GhlTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // seconds
+  scope?: string;
+  userType?: string;
+  locationId?: string;
+  companyId?: string;
+}
+
+const GHL_AUTHORIZE_URL = 'https://marketplace.gohighlevel.com/oauth/chooselocation';
+const GHL_TOKEN_URL = 'https://services.leadconnectorhq.com/oauth/token';
+
+// contacts.write lets the CSV import upsert contacts
+export const DEFAULT_GHL_OAUTH_SCOPES = 'contacts.readonly contacts.write';
+
+// Access tokens this close to expiring are refreshed before use
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// How long an install may take between the redirect to GHL and its callback
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export class GhlOAuthService {
+  private db: D1Database;
+  private clientId: string;
+  private clientSecret: string;
+  private http: HttpTransport;
+
+  constructor(db: D1Database, clientId: string, clientSecret: string) {
+    this.db = db;
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.http = new HttpTransport(GhlApiError);
+  }
+
+  /**
+   * URL that sends an agency user to GHL to pick the location to install on
+   */
+  authorizationUrl(redirectUri: string, state: string, scopes: string = DEFAULT_GHL_OAUTH_SCOPES): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      redirect_uri: redirectUri,
+      client_id: this.clientId,
+      scope: scopes,
+      state,
+    });
+    return `${GHL_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Store a new single-use state for an install about to start
+   */
+  async createState(): Promise<string> {
+    const now = Date.now();
+    const state = crypto.randomUUID();
+
+    await this.db.batch([
+      this.db.prepare('DELETE FROM ghl_oauth_states WHERE expires_at < ?').bind(new Date(now).toISOString()),
+      this.db
+        .prepare('INSERT INTO ghl_oauth_states (state, expires_at) VALUES (?, ?)')
+        .bind(state, new Date(now + STATE_TTL_MS).toISOString()),
+    ]);
+    return state;
+  }
+
+  /**
+   * Use up a state GHL echoed back; false when the worker never issued it, it expired or it was already used
+   */
+  async consumeState(state: string): Promise<boolean> {
+    const consumed = await this.db
+      .prepare('DELETE FROM ghl_oauth_states WHERE state = ? AND expires_at >= ? RETURNING state')
+      .bind(state, new Date().toISOString())
+      .first<{ state: string }>();
+
+    return consumed !== null;
+  }
+
+  /**
+   * Exchange the authorization code GHL redirected back with and store the location's tokens
+   */
+  async install(code: string, redirectUri: string): Promise<GhlOAuthToken> {
+    const response = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      user_type: 'Location',
+    });
+
+    if (!response.locationId) {
+      throw new Error('GoHighLevel OAuth error: the app must be installed on a location, not an agency');
+    }
+
+    const token = await this.saveToken(response.locationId, response);
+    console.log(`Installed GHL app on location ${token.location_id}`);
+    return token;
+  }
+
+  /**
+   * Get the stored tokens for a location, if it installed the app
+   */
+  async getToken(locationId: string): Promise<GhlOAuthToken | null> {
+    const token = await this.db
+      .prepare('SELECT * FROM ghl_oauth_tokens WHERE location_id = ?')
+      .bind(locationId)
+      .first<GhlOAuthToken>();
+
+    return token || null;
+  }
+
+  /**
+   * Get a usable access token for a location, refreshing it first when it is about to expire
+   */
+  async getAccessToken(locationId: string): Promise<string> {
+    const token = await this.requireToken(locationId);
+
+    if (Date.parse(token.expires_at) - EXPIRY_MARGIN_MS <= Date.now()) {
+      return await this.refreshAccessToken(locationId, token.access_token);
+    }
+    return token.access_token;
+  }
+
+  /**
+   * Trade the location's refresh token for a new access token
+   * rejectedAccessToken is the token that stopped working; if the stored one differs, another
+   * request already refreshed it and the stored one is returned as is
+   */
+  async refreshAccessToken(locationId: string, rejectedAccessToken?: string): Promise<string> {
+    const token = await this.requireToken(locationId);
+    if (rejectedAccessToken && token.access_token !== rejectedAccessToken) {
+      return token.access_token;
+    }
+
+    try {
+      const response = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: token.refresh_token,
+        user_type: 'Location',
+      });
+      const refreshed = await this.saveToken(locationId, response);
+      console.log(`Refreshed GHL access token for location ${locationId}`);
+      return refreshed.access_token;
+    } catch (error) {
+      // Refresh tokens are single use, so a concurrent refresh makes ours fail after it already stored new tokens
+      const latest = await this.getToken(locationId);
+      if (latest && latest.refresh_token !== token.refresh_token) {
+        return latest.access_token;
+      }
+      throw error;
+    }
+  }
+
+  private async requireToken(locationId: string): Promise<GhlOAuthToken> {
+    const token = await this.getToken(locationId);
+    if (!token) {
+      throw new Error(`GHL location ${locationId} has not installed the app`);
+    }
+    return token;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<GhlTokenResponse> {
+    const response = await this.http.request(GHL_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        ...params,
+      }).toString(),
+    });
+
+    return await response.json<GhlTokenResponse>();
+  }
+
+  private async saveToken(locationId: string, response: GhlTokenResponse): Promise<GhlOAuthToken> {
+    const expiresAt = new Date(Date.now() + response.expires_in * 1000).toISOString();
+
+    const token = await this.db
+      .prepare(`
+        INSERT INTO ghl_oauth_tokens (location_id, company_id, access_token, refresh_token, scope, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(location_id) DO UPDATE SET
+          company_id = COALESCE(excluded.company_id, company_id),
+          access_token = excluded.access_token,
+          refresh_token = excluded.refresh_token,
+          scope = COALESCE(excluded.scope, scope),
+          expires_at = excluded.expires_at
+        RETURNING *
+      `)
+      .bind(
+        locationId,
+        response.companyId ?? null,
+        response.access_token,
+        response.refresh_token,
+        response.scope ?? null,
+        expiresAt
+      )
+      .first<GhlOAuthToken>();
+
+    return token!;
+  }
+}
+
+/**
+ * Build the OAuth service from the marketplace app credentials in env
+ */
+export function ghlOAuthServiceFromEnv(env: Env): GhlOAuthService {
+  if (!env.GHL_CLIENT_ID || !env.GHL_CLIENT_SECRET) {
+    throw new Error('GHL_CLIENT_ID and GHL_CLIENT_SECRET must be configured to use the GHL v2 API');
+  }
+  return new GhlOAuthService(env.DB, env.GHL_CLIENT_ID, env.GHL_CLIENT_SECRET);
+}
@@ -0,0 +1,219 @@
+/**
+ * Segment Rule Service
+ * Decides which CallTools segment (bucket + tag) a GoHighLevel contact belongs to
+ */
+
+export interface SegmentRule {
+  id: number;
+  name: string;
+  priority: number;
+  match_mode: 'exact' | 'contains' | 'year';
+  match_tags: string;
+  action: 'sync' | 'exclude';
+  calltools_bucket_id: string | null;
+  calltools_tag: string | null;
+  remove_bucket_ids: string | null;
+  remove_tags: string | null;
+  timezone_bucket_ids: string | null;
+  tenant_id: number | null;
+  mark_customer: number;
+  enabled: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Split a comma-separated rule column into trimmed, non-empty values
+ */
+export function splitRuleList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parse a rule's timezone=bucket pairs into a map of IANA time zone to bucket ID
+ */
+export function parseTimezoneBuckets(value: string | null | undefined): Map<string, string> {
+  const buckets = new Map<string, string>();
+  for (const pair of splitRuleList(value)) {
+    const [timezone, bucketId] = pair.split('=').map((part) => part.trim());
+    if (timezone && bucketId) buckets.set(timezone, bucketId);
+  }
+  return buckets;
+}
+
+/**
+ * The bucket a rule routes a contact in the given time zone to
+ * Falls back to the rule's default bucket when the zone is unknown or has no bucket of its own
+ */
+export function bucketForTimezone(rule: SegmentRule, timezone: string | null): string | null {
+  const timezoneBucket = timezone ? parseTimezoneBuckets(rule.timezone_bucket_ids).get(timezone) : undefined;
+  return timezoneBucket ?? rule.calltools_bucket_id;
+}
+
+// Stands for a four-digit year in the match_tags of year rules, e.g. "aca active {year}"
+export const YEAR_PLACEHOLDER = '{year}';
+
+/**
+ * Years in the GHL tags that match a year rule's patterns
+ */
+export function matchTagYears(rule: SegmentRule, tags: string[]): number[] {
+  const patterns = splitRuleList(rule.match_tags)
+    .filter((pattern) => pattern.includes(YEAR_PLACEHOLDER))
+    .map((pattern) => {
+      const [before, after] = pattern.toLowerCase().split(YEAR_PLACEHOLDER).map(escapeRegExp);
+      return new RegExp(`^${before}(\\d{4})${after}$`);
+    });
+
+  const years: number[] = [];
+  for (const tag of tags) {
+    for (const pattern of patterns) {
+      const match = tag.trim().toLowerCase().match(pattern);
+      if (match) years.push(parseInt(match[1]));
+    }
+  }
+  return years;
+}
+
+/**
+ * The latest policy year in the tags, or null if none match the rule
+ */
+export function latestPolicyYear(rule: SegmentRule, tags: string[]): number | null {
+  const years = matchTagYears(rule, tags);
+  return years.length > 0 ? Math.max(...years) : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class SegmentRuleService {
+  private db: D1Database;
+  private tenantId: number | null;
+  private rules: SegmentRule[] | null = null;
+
+  // Shared rules (tenant_id NULL) apply to every tenant; tenantId adds that tenant's own rules
+  constructor(db: D1Database, tenantId: number | null = null) {
+    this.db = db;
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Get enabled rules in evaluation order
+   * Rules are loaded once per service instance
+   */
+  async getActiveRules(): Promise<SegmentRule[]> {
+    if (this.rules) {
+      return this.rules;
+    }
+
+    const result = await this.db
+      .prepare(`
+        SELECT * FROM segment_rules
+        WHERE enabled = 1 AND (tenant_id IS NULL OR tenant_id = ?)
+        ORDER BY priority ASC, id ASC
+      `)
+      .bind(this.tenantId)
+      .all<SegmentRule>();
+
+    this.rules = result.results || [];
+    return this.rules;
+  }
+
+  /**
+   * Every CallTools bucket the rules put contacts into or take them out of
+   * Disabled rules are included since their buckets may still hold synced contacts
+   */
+  async getManagedBucketIds(): Promise<string[]> {
+    const result = await this.db
+      .prepare(`
+        SELECT calltools_bucket_id, remove_bucket_ids, timezone_bucket_ids FROM segment_rules
+        WHERE tenant_id IS NULL OR tenant_id = ?
+      `)
+      .bind(this.tenantId)
+      .all<Pick<SegmentRule, 'calltools_bucket_id' | 'remove_bucket_ids' | 'timezone_bucket_ids'>>();
+
+    const bucketIds = new Set<string>();
+    for (const rule of result.results || []) {
+      if (rule.calltools_bucket_id) bucketIds.add(rule.calltools_bucket_id);
+      splitRuleList(rule.remove_bucket_ids).forEach((bucketId) => bucketIds.add(bucketId));
+      parseTimezoneBuckets(rule.timezone_bucket_ids).forEach((bucketId) => bucketIds.add(bucketId));
+    }
+
+    return [...bucketIds];
+  }
+
+  /**
+   * Buckets and tags of the sync rules for leads (sync rules that don't mark customers)
+   * A contact marked as a customer is taken out of these; disabled rules are included
+   */
+  async getLeadTargets(): Promise<{ bucketIds: string[]; tags: string[] }> {
+    return await this.getSyncTargets('mark_customer = 0');
+  }
+
+  /**
+   * Buckets and tags of the year rules (e.g. ACA Active clients)
+   * A client whose policy year expired is taken out of these; disabled rules are included
+   */
+  async getYearTargets(): Promise<{ bucketIds: string[]; tags: string[] }> {
+    return await this.getSyncTargets(`match_mode = 'year'`);
+  }
+
+  private async getSyncTargets(condition: string): Promise<{ bucketIds: string[]; tags: string[] }> {
+    const result = await this.db
+      .prepare(`
+        SELECT calltools_bucket_id, calltools_tag, timezone_bucket_ids FROM segment_rules
+        WHERE action = 'sync' AND ${condition} AND (tenant_id IS NULL OR tenant_id = ?)
+      `)
+      .bind(this.tenantId)
+      .all<Pick<SegmentRule, 'calltools_bucket_id' | 'calltools_tag' | 'timezone_bucket_ids'>>();
+
+    const bucketIds = new Set<string>();
+    const tags = new Set<string>();
+    for (const rule of result.results || []) {
+      if (rule.calltools_bucket_id) bucketIds.add(rule.calltools_bucket_id);
+      parseTimezoneBuckets(rule.timezone_bucket_ids).forEach((bucketId) => bucketIds.add(bucketId));
+      if (rule.calltools_tag) tags.add(rule.calltools_tag);
+    }
+
+    return { bucketIds: [...bucketIds], tags: [...tags] };
+  }
+
+  /**
+   * Find the first rule whose tag condition matches the given GHL tags
+   */
+  async classify(tags: string[]): Promise<SegmentRule | null> {
+    const rules = await this.getActiveRules();
+    const normalizedTags = tags.map((tag) => tag.trim().toLowerCase());
+
+    for (const rule of rules) {
+      if (this.matches(rule, normalizedTags)) {
+        return rule;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a single rule against already-normalized tags
+   */
+  private matches(rule: SegmentRule, tags: string[]): boolean {
+    // Year rules only match policies that haven't expired; the yearly rollover handles the rest
+    if (rule.match_mode === 'year') {
+      const currentYear = new Date().getUTCFullYear();
+      return matchTagYears(rule, tags).some((year) => year >= currentYear);
+    }
+
+    const patterns = splitRuleList(rule.match_tags).map((p) => p.toLowerCase());
+
+    return tags.some((tag) =>
+      patterns.some((pattern) =>
+        rule.match_mode === 'exact' ? tag === pattern : tag.includes(pattern)
+      )
+    );
+  }
+}
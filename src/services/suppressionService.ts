@@ -0,0 +1,141 @@
+/**
+ * Suppression Service
+ * Do-Not-Call list of E.164 phone numbers that must never be dialed
+ */
+
+import { parsePhone } from '../utils/phone';
+
+export type SuppressionSource = 'manual' | 'import' | 'ghl_dnd';
+
+export interface Suppression {
+  id: number;
+  phone: string;
+  source: SuppressionSource;
+  reason: string | null;
+  ghl_contact_id: string | null;
+  suppressed_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SuppressionEntry {
+  phone: string;
+  reason?: string | null;
+  suppressed_at?: string;
+}
+
+export interface SuppressionImportResult {
+  imported: Suppression[];
+  already_suppressed: string[];
+  invalid: Array<{ phone: string; error: string }>;
+}
+
+// D1 caps bound parameters per query
+const MAX_PHONES_PER_QUERY = 90;
+
+export class SuppressionService {
+  private db: D1Database;
+  private defaultPhoneRegion: string;
+
+  constructor(db: D1Database, defaultPhoneRegion: string = 'US') {
+    this.db = db;
+    this.defaultPhoneRegion = defaultPhoneRegion;
+  }
+
+  /**
+   * Get the suppression for an E.164 phone, if any
+   */
+  async find(phone: string): Promise<Suppression | null> {
+    const suppression = await this.db
+      .prepare('SELECT * FROM suppressed_phones WHERE phone = ?')
+      .bind(phone)
+      .first<Suppression>();
+
+    return suppression || null;
+  }
+
+  /**
+   * Suppress an E.164 phone
+   * An existing entry is kept as is, so the original source and date survive
+   */
+  async add(
+    phone: string,
+    source: SuppressionSource,
+    details: { reason?: string | null; ghl_contact_id?: string | null; suppressed_at?: string } = {}
+  ): Promise<Suppression | null> {
+    return await this.db
+      .prepare(`
+        INSERT INTO suppressed_phones (phone, source, reason, ghl_contact_id, suppressed_at)
+        VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        ON CONFLICT(phone) DO NOTHING
+        RETURNING *
+      `)
+      .bind(
+        phone,
+        source,
+        details.reason ?? null,
+        details.ghl_contact_id ?? null,
+        details.suppressed_at ?? null
+      )
+      .first<Suppression>();
+  }
+
+  /**
+   * Bulk import entries, normalizing each phone
+   */
+  async importEntries(entries: SuppressionEntry[], source: SuppressionSource = 'import'): Promise<SuppressionImportResult> {
+    const result: SuppressionImportResult = { imported: [], already_suppressed: [], invalid: [] };
+
+    for (const entry of entries) {
+      const parsed = parsePhone(entry.phone, this.defaultPhoneRegion);
+      if (!parsed.valid) {
+        result.invalid.push({ phone: entry.phone, error: parsed.reason });
+        continue;
+      }
+
+      const suppression = await this.add(parsed.e164, source, entry);
+      if (suppression) {
+        result.imported.push(suppression);
+      } else {
+        result.already_suppressed.push(parsed.e164);
+      }
+    }
+
+    console.log(`Imported ${result.imported.length} suppressions (${result.already_suppressed.length} existing, ${result.invalid.length} invalid)`);
+    return result;
+  }
+
+  /**
+   * Remove the DND suppression recorded for a GHL contact once DND is turned off in GHL
+   * Manual and imported entries are left alone
+   */
+  async liftGhlDnd(ghlContactId: string): Promise<void> {
+    await this.db
+      .prepare(`DELETE FROM suppressed_phones WHERE source = 'ghl_dnd' AND ghl_contact_id = ?`)
+      .bind(ghlContactId)
+      .run();
+  }
+
+  /**
+   * GHL contacts already in CallTools whose phone is one of the given E.164 numbers
+   */
+  async findSyncedContactIds(phones: string[]): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (let i = 0; i < phones.length; i += MAX_PHONES_PER_QUERY) {
+      const chunk = phones.slice(i, i + MAX_PHONES_PER_QUERY);
+      const result = await this.db
+        .prepare(`
+          SELECT ghl_contact_id FROM synced_contacts
+          WHERE phone IN (${chunk.map(() => '?').join(', ')})
+            AND calltools_contact_id IS NOT NULL
+        `)
+        .bind(...chunk)
+        .all<{ ghl_contact_id: string }>();
+
+      ids.push(...(result.results || []).map((row) => row.ghl_contact_id));
+    }
+
+    return ids;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Sync Checkpoint Service
+ * Persists incremental sync cursors in D1 so scheduled runs resume where the last one stopped
+ */
+
+import { GHLContactCursor } from '../clients/gohighlevel';
+
+export class SyncCheckpointService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Load a cursor, or an empty cursor if the checkpoint was never saved
+   */
+  async get(name: string): Promise<GHLContactCursor> {
+    const row = await this.db
+      .prepare('SELECT updated_after, start_after_id FROM sync_checkpoints WHERE name = ?')
+      .bind(name)
+      .first<{ updated_after: string | null; start_after_id: string | null }>();
+
+    return {
+      updatedAfter: row?.updated_after || null,
+      startAfterId: row?.start_after_id || null,
+    };
+  }
+
+  /**
+   * Save a cursor
+   */
+  async save(name: string, cursor: GHLContactCursor): Promise<void> {
+    await this.db
+      .prepare(`
+        INSERT INTO sync_checkpoints (name, updated_after, start_after_id, last_run_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET
+          updated_after = excluded.updated_after,
+          start_after_id = excluded.start_after_id,
+          last_run_at = excluded.last_run_at
+      `)
+      .bind(name, cursor.updatedAfter, cursor.startAfterId, new Date().toISOString())
+      .run();
+  }
+}
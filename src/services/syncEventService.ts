@@ -0,0 +1,129 @@
+/**
+ * Sync Event Service
+ * Records every classification decision and CallTools side effect for a contact
+ */
+
+import { ApiError } from '../clients/http';
+
+export type SyncEventType =
+  | 'classified'
+  | 'excluded'
+  | 'contact_created'
+  | 'contact_updated'
+  | 'mapping_repaired'
+  | 'bucket_added'
+  | 'bucket_removed'
+  | 'tag_added'
+  | 'tag_removed'
+  | 'marked_customer'
+  | 'customer_reinstated'
+  | 'policy_lapsed'
+  | 'merged'
+  | 'contact_deleted'
+  | 'ghl_deleted'
+  | 'suppressed'
+  | 'held'
+  | 'drift_detected'
+  | 'failed';
+
+export interface SyncEvent {
+  id?: number;
+  ghl_contact_id: string;
+  calltools_contact_id: string | null;
+  event_type: SyncEventType;
+  detail: string | null;
+  status: 'success' | 'failed';
+  response_status: number | null;
+  message: string | null;
+  created_at?: string;
+}
+
+export type SyncEventInput = Pick<SyncEvent, 'ghl_contact_id' | 'event_type'> &
+  Partial<Omit<SyncEvent, 'id' | 'created_at'>>;
+
+/**
+ * HTTP status of a failed API request, or null if the error didn't come from a response
+ */
+export function responseStatusFromError(error: unknown): number | null {
+  return error instanceof ApiError ? error.status : null;
+}
+
+export class SyncEventService {
+  private db: D1Database;
+  private pending: SyncEvent[] = [];
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Buffer an event; call flush() to write buffered events in one batch
+   */
+  record(event: SyncEventInput): void {
+    this.pending.push({
+      calltools_contact_id: null,
+      detail: null,
+      status: 'success',
+      response_status: null,
+      message: null,
+      ...event,
+    });
+  }
+
+  /**
+   * Write all buffered events
+   * Failures are logged and swallowed so history never breaks a sync
+   */
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+
+    const events = this.pending;
+    this.pending = [];
+
+    try {
+      await this.db.batch(
+        events.map((event) =>
+          this.db
+            .prepare(`
+              INSERT INTO sync_events (
+                ghl_contact_id,
+                calltools_contact_id,
+                event_type,
+                detail,
+                status,
+                response_status,
+                message
+              ) VALUES (?, ?, ?, ?, ?, ?, ?)
+            `)
+            .bind(
+              event.ghl_contact_id,
+              event.calltools_contact_id,
+              event.event_type,
+              event.detail,
+              event.status,
+              event.response_status,
+              event.message
+            )
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to write ${events.length} sync events:`, error);
+    }
+  }
+
+  /**
+   * Get a contact's timeline, oldest first
+   */
+  async getHistory(ghlContactId: string, limit: number = 100): Promise<SyncEvent[]> {
+    const result = await this.db
+      .prepare(`
+        SELECT * FROM (
+          SELECT * FROM sync_events WHERE ghl_contact_id = ? ORDER BY id DESC LIMIT ?
+        ) ORDER BY id ASC
+      `)
+      .bind(ghlContactId, limit)
+      .all<SyncEvent>();
+
+    return result.results || [];
+  }
+}
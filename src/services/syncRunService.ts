@@ -0,0 +1,254 @@
+/**
+ * Sync Run Service
+ * Drives full syncs as resumable runs that process one bounded chunk per invocation
+ */
+
+import { ContactSyncService } from './contactSyncService';
+
+export type SyncRunStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface SyncRun {
+  id: number;
+  status: SyncRunStatus;
+  cursor_offset: number;
+  chunk_size: number;
+  total_contacts: number | null;
+  total_processed: number;
+  synced: number;
+  updated: number;
+  excluded_customers: number;
+  held: number;
+  failed: number;
+  consecutive_failures: number;
+  last_error: string | null;
+  locked_until: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A run that can't be resumed because an invocation is still processing its chunk
+ */
+export class SyncRunLockedError extends Error {
+  constructor(runId: number, lockedUntil: string) {
+    super(`Sync run ${runId} is processing a chunk until ${lockedUntil}`);
+    this.name = 'SyncRunLockedError';
+  }
+}
+
+// A chunk that errors this many times in a row fails the run
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// How long an invocation may hold a run before another one can pick it up
+const LOCK_TTL_MS = 15 * 60 * 1000;
+
+export class SyncRunService {
+  private db: D1Database;
+  private syncService?: ContactSyncService;
+
+  // The sync service is only needed to process chunks, not to read or pause runs
+  constructor(db: D1Database, syncService?: ContactSyncService) {
+    this.db = db;
+    this.syncService = syncService;
+  }
+
+  /**
+   * Queue a new full sync run
+   */
+  async createRun(chunkSize: number): Promise<SyncRun> {
+    const run = await this.db
+      .prepare('INSERT INTO sync_runs (status, chunk_size) VALUES (?, ?) RETURNING *')
+      .bind('queued', chunkSize)
+      .first<SyncRun>();
+
+    if (!run) {
+      throw new Error('Failed to create sync run');
+    }
+
+    console.log(`Created sync run ${run.id} (chunk size ${chunkSize})`);
+    return run;
+  }
+
+  /**
+   * Get a run by ID
+   */
+  async getRun(runId: number): Promise<SyncRun | null> {
+    const run = await this.db
+      .prepare('SELECT * FROM sync_runs WHERE id = ?')
+      .bind(runId)
+      .first<SyncRun>();
+
+    return run || null;
+  }
+
+  /**
+   * Get the oldest run that still has work to do
+   */
+  async getActiveRun(): Promise<SyncRun | null> {
+    const run = await this.db
+      .prepare(`SELECT * FROM sync_runs WHERE status IN ('queued', 'running') ORDER BY id ASC LIMIT 1`)
+      .first<SyncRun>();
+
+    return run || null;
+  }
+
+  /**
+   * Process the next chunk of a run
+   * Returns the run unchanged if another invocation currently holds it
+   * A pause requested while the chunk was in flight is preserved
+   */
+  async processNextChunk(runId: number): Promise<SyncRun | null> {
+    if (!this.syncService) {
+      throw new Error('A ContactSyncService is required to process sync run chunks');
+    }
+
+    const now = new Date();
+    const claimed = await this.db
+      .prepare(`
+        UPDATE sync_runs
+        SET status = 'running',
+            locked_until = ?,
+            started_at = COALESCE(started_at, ?)
+        WHERE id = ?
+          AND status IN ('queued', 'running')
+          AND (locked_until IS NULL OR locked_until < ?)
+        RETURNING *
+      `)
+      .bind(
+        new Date(now.getTime() + LOCK_TTL_MS).toISOString(),
+        now.toISOString(),
+        runId,
+        now.toISOString()
+      )
+      .first<SyncRun>();
+
+    if (!claimed) {
+      console.log(`Sync run ${runId} is not runnable or is locked by another invocation`);
+      return await this.getRun(runId);
+    }
+
+    try {
+      const page = await this.syncService.syncContactsPage(claimed.cursor_offset, claimed.chunk_size);
+      const status: SyncRunStatus = page.hasMore ? 'running' : 'completed';
+
+      await this.db
+        .prepare(`
+          UPDATE sync_runs
+          SET status = CASE WHEN status = 'paused' AND ? = 'running' THEN 'paused' ELSE ? END,
+              cursor_offset = cursor_offset + ?,
+              total_contacts = COALESCE(?, total_contacts),
+              total_processed = total_processed + ?,
+              synced = synced + ?,
+              updated = updated + ?,
+              excluded_customers = excluded_customers + ?,
+              held = held + ?,
+              failed = failed + ?,
+              consecutive_failures = 0,
+              last_error = ?,
+              locked_until = NULL,
+              completed_at = ?
+          WHERE id = ?
+        `)
+        .bind(
+          status,
+          status,
+          page.fetched,
+          page.total,
+          page.result.total_processed,
+          page.result.synced,
+          page.result.updated,
+          page.result.excluded_customers,
+          page.result.held,
+          page.result.failed,
+          page.result.errors[0]?.error ?? claimed.last_error,
+          status === 'completed' ? new Date().toISOString() : null,
+          runId
+        )
+        .run();
+
+      console.log(`Sync run ${runId} processed ${page.fetched} contacts (${status})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failures = claimed.consecutive_failures + 1;
+      const status: SyncRunStatus = failures >= MAX_CONSECUTIVE_FAILURES ? 'failed' : 'running';
+
+      console.error(`Sync run ${runId} chunk failed (${failures}/${MAX_CONSECUTIVE_FAILURES}):`, error);
+
+      await this.db
+        .prepare(`
+          UPDATE sync_runs
+          SET status = CASE WHEN status = 'paused' AND ? = 'running' THEN 'paused' ELSE ? END,
+              consecutive_failures = ?,
+              last_error = ?,
+              locked_until = NULL
+          WHERE id = ?
+        `)
+        .bind(status, status, failures, message, runId)
+        .run();
+    }
+
+    return await this.getRun(runId);
+  }
+
+  /**
+   * Continue the oldest active run, if any
+   * Called from the cron handler
+   */
+  async continueActiveRun(): Promise<SyncRun | null> {
+    const run = await this.getActiveRun();
+    if (!run) {
+      return null;
+    }
+
+    return await this.processNextChunk(run.id);
+  }
+
+  /**
+   * Pause a queued or running run so the cron handler leaves it alone
+   */
+  async pauseRun(runId: number): Promise<SyncRun | null> {
+    await this.db
+      .prepare(`UPDATE sync_runs SET status = 'paused' WHERE id = ? AND status IN ('queued', 'running')`)
+      .bind(runId)
+      .run();
+
+    return await this.getRun(runId);
+  }
+
+  /**
+   * Resume a paused, failed or stalled run and process its next chunk immediately
+   * A lock left behind by an invocation that died mid-chunk is taken over once it expired;
+   * a live one throws SyncRunLockedError, since running the chunk twice would skip a page
+   */
+  async resumeRun(runId: number): Promise<SyncRun | null> {
+    const run = await this.getRun(runId);
+    if (!run || run.status === 'completed') {
+      return run;
+    }
+
+    const resumed = await this.db
+      .prepare(`
+        UPDATE sync_runs
+        SET status = 'running',
+            consecutive_failures = 0,
+            locked_until = NULL
+        WHERE id = ?
+          AND status != 'completed'
+          AND (locked_until IS NULL OR locked_until < ?)
+      `)
+      .bind(runId, new Date().toISOString())
+      .run();
+
+    if (resumed.meta.changes === 0) {
+      const current = await this.getRun(runId);
+      if (current?.locked_until) {
+        throw new SyncRunLockedError(runId, current.locked_until);
+      }
+      return current;
+    }
+
+    return await this.processNextChunk(runId);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Tenant Service
+ * Maps GHL locations to the credentials of the CallTools account they sync into
+ */
+
+import { CallToolsClient } from '../clients/calltools';
+import { GHLClient, GoHighLevelClient } from '../clients/gohighlevel';
+import { LeadConnectorClient } from '../clients/leadConnector';
+import { callToolsRateLimiter } from '../durableObjects/rateLimiter';
+import { CallToolsLookupCache, lookupCacheAccount } from './callToolsLookupCache';
+import { ContactSyncService } from './contactSyncService';
+import { ghlOAuthServiceFromEnv } from './ghlOAuthService';
+import { WebhookJob } from './webhookQueueService';
+
+export interface Tenant {
+  id: number;
+  name: string;
+  ghl_location_id: string;
+  ghl_api_key_secret: string;
+  calltools_api_key_secret: string;
+  calltools_base_url: string | null;
+  enabled: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export class TenantDisabledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantDisabledError';
+  }
+}
+
+export class UnknownLocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownLocationError';
+  }
+}
+
+export class TenantService {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Get a tenant by ID
+   */
+  async getTenant(tenantId: number): Promise<Tenant | null> {
+    const tenant = await this.db
+      .prepare('SELECT * FROM tenants WHERE id = ?')
+      .bind(tenantId)
+      .first<Tenant>();
+
+    return tenant || null;
+  }
+
+  /**
+   * Get every enabled tenant, e.g. to run the scheduled jobs for each
+   */
+  async getEnabledTenants(): Promise<Tenant[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM tenants WHERE enabled = 1 ORDER BY id ASC')
+      .all<Tenant>();
+
+    return result.results || [];
+  }
+
+  /**
+   * Get the enabled tenant for a GHL location, or null for the default account
+   * Requests without a location, or from defaultLocationId, use the default account. A disabled tenant's
+   * location is refused, and so is a location no tenant claims once defaultLocationId is configured
+   */
+  async findByLocationId(locationId: string | null | undefined, defaultLocationId?: string): Promise<Tenant | null> {
+    if (!locationId || locationId === defaultLocationId) {
+      return null;
+    }
+
+    const tenant = await this.db
+      .prepare('SELECT * FROM tenants WHERE ghl_location_id = ?')
+      .bind(locationId)
+      .first<Tenant>();
+
+    if (tenant && !tenant.enabled) {
+      throw new TenantDisabledError(`Tenant "${tenant.name}" for location ${locationId} is disabled`);
+    }
+    if (!tenant && defaultLocationId) {
+      throw new UnknownLocationError(`Location ${locationId} belongs to no tenant or the default account`);
+    }
+    return tenant || null;
+  }
+
+  /**
+   * Get the tenant a queued job belongs to
+   * Jobs that don't carry a tenant (cron releases, suppression pulls) use the contact's stored tenant
+   */
+  async getTenantForJob(job: WebhookJob): Promise<Tenant | null> {
+    if (job.tenant_id === undefined) {
+      return await this.getTenantForContact(job.ghl_contact_id);
+    }
+    return await this.requireEnabledTenant(job.tenant_id);
+  }
+
+  /**
+   * Get the tenant a synced contact was stored with, or null for the default account
+   */
+  async getTenantForContact(ghlContactId: string): Promise<Tenant | null> {
+    const record = await this.db
+      .prepare('SELECT tenant_id FROM synced_contacts WHERE ghl_contact_id = ?')
+      .bind(ghlContactId)
+      .first<{ tenant_id: number | null }>();
+
+    return await this.requireEnabledTenant(record?.tenant_id ?? null);
+  }
+
+  private async requireEnabledTenant(tenantId: number | null): Promise<Tenant | null> {
+    if (tenantId === null) {
+      return null;
+    }
+
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} no longer exists`);
+    }
+    if (tenant.enabled !== 1) {
+      throw new Error(`Tenant "${tenant.name}" is disabled`);
+    }
+    return tenant;
+  }
+}
+
+/**
+ * Build a sync service with a tenant's credentials, or the default account's when tenant is null
+ */
+export function syncServiceForTenant(env: Env, tenant: Tenant | null): ContactSyncService {
+  if (!tenant) {
+    return new ContactSyncService(
+      ghlClientForTenant(env, null),
+      env.CALLTOOLS_API_KEY,
+      env.CALLTOOLS_BASE_URL,
+      env.DB,
+      env.DEFAULT_PHONE_REGION,
+      env.CALLING_WINDOW,
+      null,
+      callToolsRateLimiter(env, null)
+    );
+  }
+
+  return new ContactSyncService(
+    ghlClientForTenant(env, tenant),
+    readTenantSecret(env, tenant, tenant.calltools_api_key_secret, 'CallTools API key'),
+    tenant.calltools_base_url || env.CALLTOOLS_BASE_URL,
+    env.DB,
+    env.DEFAULT_PHONE_REGION,
+    env.CALLING_WINDOW,
+    tenant.id,
+    callToolsRateLimiter(env, tenant.id)
+  );
+}
+
+/**
+ * Build the GHL client for a tenant, or for the default account when tenant is null
+ * GHL_API_VERSION=v2 uses the OAuth tokens stored when the location installed the app
+ */
+export function ghlClientForTenant(env: Env, tenant: Tenant | null): GHLClient {
+  if (env.GHL_API_VERSION === 'v2') {
+    const locationId = tenant ? tenant.ghl_location_id : env.GHL_LOCATION_ID;
+    if (!locationId) {
+      throw new Error('GHL_LOCATION_ID must be configured to use the GHL v2 API');
+    }
+    return new LeadConnectorClient(locationId, ghlOAuthServiceFromEnv(env));
+  }
+
+  return new GoHighLevelClient(
+    tenant ? readTenantSecret(env, tenant, tenant.ghl_api_key_secret, 'GHL API key') : env.GHL_API_KEY
+  );
+}
+
+/**
+ * Build the CallTools client for a tenant, or for the default account when tenant is null
+ */
+export function callToolsClientForTenant(env: Env, tenant: Tenant | null): CallToolsClient {
+  const tenantId = tenant ? tenant.id : null;
+  return new CallToolsClient(
+    tenant ? readTenantSecret(env, tenant, tenant.calltools_api_key_secret, 'CallTools API key') : env.CALLTOOLS_API_KEY,
+    tenant?.calltools_base_url || env.CALLTOOLS_BASE_URL,
+    { rateLimiter: callToolsRateLimiter(env, tenantId) },
+    new CallToolsLookupCache(env.DB, lookupCacheAccount(tenantId))
+  );
+}
+
+/**
+ * Whether the default account has the credentials its GHL API version needs
+ */
+export function hasGhlCredentials(env: Env): boolean {
+  if (env.GHL_API_VERSION === 'v2') {
+    return Boolean(env.GHL_LOCATION_ID && env.GHL_CLIENT_ID && env.GHL_CLIENT_SECRET);
+  }
+  return Boolean(env.GHL_API_KEY);
+}
+
+/**
+ * Tenant credentials live in Worker secrets; the tenants table only stores their names
+ */
+function readTenantSecret(env: Env, tenant: Tenant, secretName: string, label: string): string {
+  const value = (env as unknown as Record<string, unknown>)[secretName];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`${label} secret "${secretName}" for tenant "${tenant.name}" is not configured`);
+  }
+  return value;
+}
@@ -0,0 +1,155 @@
+/**
+ * Webhook Queue Service
+ * Moves webhook-triggered syncs onto Cloudflare Queues with retries and a D1 dead-letter store
+ */
+
+export interface WebhookJob {
+  source: 'webhook' | 'workflow' | 'suppression' | 'calling_window';
+  ghl_contact_id: string;
+  payload?: Record<string, any>; // Contact data from the webhook, avoids a GHL API call
+  tenant_id?: number | null; // null for the default account; omitted to use the contact's stored tenant
+  received_at: string;
+}
+
+export interface WebhookDeadLetter {
+  id: number;
+  message_id: string;
+  source: WebhookJob['source'];
+  ghl_contact_id: string;
+  payload: string | null;
+  tenant_id: number | null;
+  attempts: number;
+  last_error: string | null;
+  status: 'dead' | 'requeued';
+  requeued_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * GHL sends ContactDelete when a contact is deleted; the payload has no contact data to sync
+ */
+export function isContactDeleteEvent(payload?: Record<string, any>): boolean {
+  return payload?.type === 'ContactDelete';
+}
+
+/**
+ * GHL sends ContactDndUpdate when DND changes; the contact is re-fetched so the sync sees the current flag
+ */
+export function isContactDndEvent(payload?: Record<string, any>): boolean {
+  return payload?.type === 'ContactDndUpdate';
+}
+
+// Queue.sendBatch accepts at most 100 messages
+const MAX_BATCH_SIZE = 100;
+
+// Messages that fail this many times are moved to the dead-letter table
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+
+/**
+ * Exponential backoff for the next delivery: 30s, 60s, 120s, ... capped at 15 minutes
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+export class WebhookQueueService {
+  private queue: Queue<WebhookJob>;
+  private db: D1Database;
+
+  constructor(queue: Queue<WebhookJob>, db: D1Database) {
+    this.queue = queue;
+    this.db = db;
+  }
+
+  /**
+   * Enqueue a contact sync job
+   */
+  async enqueue(job: Omit<WebhookJob, 'received_at'>): Promise<void> {
+    await this.queue.send({
+      ...job,
+      received_at: new Date().toISOString(),
+    });
+    console.log(`Queued ${job.source} sync for contact ${job.ghl_contact_id}`);
+  }
+
+  /**
+   * Enqueue many contact sync jobs
+   */
+  async enqueueBatch(jobs: Omit<WebhookJob, 'received_at'>[]): Promise<void> {
+    const receivedAt = new Date().toISOString();
+
+    for (let i = 0; i < jobs.length; i += MAX_BATCH_SIZE) {
+      await this.queue.sendBatch(
+        jobs.slice(i, i + MAX_BATCH_SIZE).map((job) => ({ body: { ...job, received_at: receivedAt } }))
+      );
+    }
+    console.log(`Queued ${jobs.length} sync jobs`);
+  }
+
+  /**
+   * Store a job that exhausted its retries
+   */
+  async recordDeadLetter(message: Message<WebhookJob>, error: string): Promise<void> {
+    const job = message.body;
+
+    await this.db
+      .prepare(`
+        INSERT INTO webhook_dead_letters (
+          message_id,
+          source,
+          ghl_contact_id,
+          payload,
+          tenant_id,
+          attempts,
+          last_error
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        message.id,
+        job.source,
+        job.ghl_contact_id,
+        job.payload ? JSON.stringify(job.payload) : null,
+        job.tenant_id ?? null,
+        message.attempts,
+        error
+      )
+      .run();
+
+    console.error(`Dead-lettered ${job.source} sync for contact ${job.ghl_contact_id} after ${message.attempts} attempts: ${error}`);
+  }
+
+  /**
+   * Get a dead letter by ID
+   */
+  async getDeadLetter(id: number): Promise<WebhookDeadLetter | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM webhook_dead_letters WHERE id = ?')
+      .bind(id)
+      .first<WebhookDeadLetter>();
+
+    return result || null;
+  }
+
+  /**
+   * Put a dead letter back on the queue with a fresh retry budget
+   */
+  async requeue(deadLetter: WebhookDeadLetter): Promise<WebhookDeadLetter | null> {
+    await this.enqueue({
+      source: deadLetter.source,
+      ghl_contact_id: deadLetter.ghl_contact_id,
+      payload: deadLetter.payload ? JSON.parse(deadLetter.payload) : undefined,
+      tenant_id: deadLetter.tenant_id ?? undefined,
+    });
+
+    await this.db
+      .prepare(`UPDATE webhook_dead_letters SET status = 'requeued', requeued_at = ? WHERE id = ?`)
+      .bind(new Date().toISOString(), deadLetter.id)
+      .run();
+
+    return await this.getDeadLetter(deadLetter.id);
+  }
+}
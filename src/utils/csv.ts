@@ -0,0 +1,69 @@
+/**
+ * CSV reading and writing
+ * Follows RFC 4180: quoted fields may hold commas, quotes ("") and line breaks
+ */
+
+/**
+ * Split CSV text into rows of fields
+ * Blank lines are skipped and a leading byte order mark is dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format one CSV line, quoting fields that need it
+ */
+export function formatCsvRow(fields: Array<string | number | null | undefined>): string {
+  return fields
+    .map((value) => {
+      const field = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    })
+    .join(',') + '\r\n';
+}
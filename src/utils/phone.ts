@@ -0,0 +1,151 @@
+/**
+ * Phone number normalization
+ * Parses GHL phone input into E.164 for CallTools lookups, CallTools contacts and the synced_contacts table
+ */
+
+interface PhoneRegion {
+  callingCode: string;
+  trunkPrefix?: string; // national dialing prefix dropped in E.164, e.g. the 0 in 020 7946 0000
+  nationalLengths: number[];
+}
+
+// Regions we can parse without a leading + or 00
+const REGIONS: Record<string, PhoneRegion> = {
+  US: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10] },
+  CA: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10] },
+  PR: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10] },
+  MX: { callingCode: '52', nationalLengths: [10] },
+  GB: { callingCode: '44', trunkPrefix: '0', nationalLengths: [9, 10] },
+  IE: { callingCode: '353', trunkPrefix: '0', nationalLengths: [7, 8, 9] },
+  AU: { callingCode: '61', trunkPrefix: '0', nationalLengths: [9] },
+  NZ: { callingCode: '64', trunkPrefix: '0', nationalLengths: [8, 9, 10] },
+  DE: { callingCode: '49', trunkPrefix: '0', nationalLengths: [6, 7, 8, 9, 10, 11, 12, 13] },
+  FR: { callingCode: '33', trunkPrefix: '0', nationalLengths: [9] },
+  ES: { callingCode: '34', nationalLengths: [9] },
+  IN: { callingCode: '91', trunkPrefix: '0', nationalLengths: [10] },
+  PH: { callingCode: '63', trunkPrefix: '0', nationalLengths: [10] },
+};
+
+// E.164 allows at most 15 digits including the calling code
+const MAX_E164_DIGITS = 15;
+const MIN_E164_DIGITS = 8;
+
+// "ext. 12", "extension 12", "x12" or "#12" at the end of the number
+const EXTENSION_PATTERN = /\s*(?:extension|ext\.?|x|#|,|;)\s*(\d{1,6})\s*$/i;
+
+export type PhoneParseResult =
+  | { valid: true; e164: string; region: string | null; extension: string | null }
+  | { valid: false; reason: string };
+
+/**
+ * Parse a phone number into E.164
+ * Numbers without a + or 00 international prefix are read in the default region
+ */
+export function parsePhone(input: string | null | undefined, defaultRegion: string = 'US'): PhoneParseResult {
+  const raw = (input || '').trim();
+  if (!raw) {
+    return { valid: false, reason: 'No phone number' };
+  }
+
+  let extension: string | null = null;
+  let number = raw;
+  const extensionMatch = number.match(EXTENSION_PATTERN);
+  if (extensionMatch) {
+    extension = extensionMatch[1];
+    number = number.slice(0, extensionMatch.index);
+  }
+
+  if (/[a-z]/i.test(number)) {
+    return { valid: false, reason: `"${raw}" contains letters` };
+  }
+
+  const international = number.startsWith('+') || /^\s*00/.test(number);
+  let digits = number.replace(/\D/g, '');
+  if (!international) {
+    const region = REGIONS[defaultRegion.toUpperCase()];
+    if (!region) {
+      return { valid: false, reason: `Unsupported default phone region "${defaultRegion}"` };
+    }
+    return parseNational(raw, digits, defaultRegion.toUpperCase(), region, extension);
+  }
+
+  if (digits.startsWith('00') && !number.startsWith('+')) {
+    digits = digits.slice(2);
+  }
+
+  return parseInternational(raw, digits, extension);
+}
+
+/**
+ * Parse a phone number into E.164, or null when it isn't valid
+ */
+export function normalizePhone(input: string | null | undefined, defaultRegion: string = 'US'): string | null {
+  const parsed = parsePhone(input, defaultRegion);
+  return parsed.valid ? parsed.e164 : null;
+}
+
+function parseNational(
+  raw: string,
+  digits: string,
+  regionCode: string,
+  region: PhoneRegion,
+  extension: string | null
+): PhoneParseResult {
+  let national = digits;
+
+  // Accept numbers that already carry the calling code, e.g. 15551234567 in the US or 447700900123 in GB
+  if (
+    national.startsWith(region.callingCode) &&
+    region.nationalLengths.includes(national.length - region.callingCode.length)
+  ) {
+    national = national.slice(region.callingCode.length);
+  } else if (
+    region.trunkPrefix &&
+    national.startsWith(region.trunkPrefix) &&
+    region.nationalLengths.includes(national.length - region.trunkPrefix.length)
+  ) {
+    national = national.slice(region.trunkPrefix.length);
+  }
+
+  if (!region.nationalLengths.includes(national.length)) {
+    return { valid: false, reason: `"${raw}" is not a valid ${regionCode} phone number` };
+  }
+
+  if (region.callingCode === '1' && !isValidNanpNumber(national)) {
+    return { valid: false, reason: `"${raw}" has an invalid area code or exchange` };
+  }
+
+  return { valid: true, e164: `+${region.callingCode}${national}`, region: regionCode, extension };
+}
+
+function parseInternational(raw: string, digits: string, extension: string | null): PhoneParseResult {
+  if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS) {
+    return { valid: false, reason: `"${raw}" has the wrong number of digits for an international number` };
+  }
+
+  // Validate the national part for regions we know; accept other calling codes on length alone
+  for (const [regionCode, region] of Object.entries(REGIONS)) {
+    if (!digits.startsWith(region.callingCode)) continue;
+
+    const national = digits.slice(region.callingCode.length);
+    if (!region.nationalLengths.includes(national.length)) {
+      return { valid: false, reason: `"${raw}" is not a valid +${region.callingCode} phone number` };
+    }
+    if (region.callingCode === '1' && !isValidNanpNumber(national)) {
+      return { valid: false, reason: `"${raw}" has an invalid area code or exchange` };
+    }
+
+    // +1 is shared across NANP countries; don't guess which one
+    const resolvedRegion = region.callingCode === '1' ? null : regionCode;
+    return { valid: true, e164: `+${digits}`, region: resolvedRegion, extension };
+  }
+
+  return { valid: true, e164: `+${digits}`, region: null, extension };
+}
+
+/**
+ * NANP area codes and exchanges can't start with 0 or 1
+ */
+function isValidNanpNumber(national: string): boolean {
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(national);
+}
@@ -0,0 +1,199 @@
+/**
+ * Contact time zones and calling windows
+ * Infers a lead's IANA time zone from GHL data or an offline NANP area code table
+ */
+
+export type TimezoneSource = 'ghl' | 'state' | 'area_code';
+
+export interface TimezoneInference {
+  timezone: string;
+  source: TimezoneSource;
+}
+
+export interface CallingWindow {
+  start: number; // minutes after local midnight
+  end: number;
+}
+
+// US states, territories and Canadian provinces; split states use the zone most of their population is in
+const REGION_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver',
+  PR: 'America/Puerto_Rico', VI: 'America/St_Thomas', GU: 'Pacific/Guam', AS: 'Pacific/Pago_Pago',
+  MP: 'Pacific/Saipan',
+  AB: 'America/Edmonton', BC: 'America/Vancouver', MB: 'America/Winnipeg', NB: 'America/Moncton',
+  NL: 'America/St_Johns', NS: 'America/Halifax', NT: 'America/Edmonton', NU: 'America/Iqaluit',
+  ON: 'America/Toronto', PE: 'America/Halifax', QC: 'America/Toronto', SK: 'America/Regina',
+  YT: 'America/Whitehorse',
+};
+
+const REGION_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  'puerto rico': 'PR', 'virgin islands': 'VI', guam: 'GU', 'american samoa': 'AS',
+  'northern mariana islands': 'MP',
+  alberta: 'AB', 'british columbia': 'BC', manitoba: 'MB', 'new brunswick': 'NB',
+  'newfoundland and labrador': 'NL', newfoundland: 'NL', 'nova scotia': 'NS',
+  'northwest territories': 'NT', nunavut: 'NU', ontario: 'ON', 'prince edward island': 'PE',
+  quebec: 'QC', 'québec': 'QC', saskatchewan: 'SK', yukon: 'YT',
+};
+
+// Geographic NANP area codes by state or province
+const AREA_CODE_REGIONS: Record<string, string> = {
+  AL: '205 251 256 334 659 938', AK: '907', AZ: '480 520 602 623 928', AR: '327 479 501 870',
+  CA: '209 213 279 310 323 341 350 408 415 424 442 510 530 559 562 619 626 628 650 657 661 669 707 714 747 760 805 818 820 831 840 858 909 916 925 949 951',
+  CO: '303 719 720 970 983', CT: '203 475 860 959', DE: '302', DC: '202 771',
+  FL: '239 305 321 324 352 386 407 448 561 645 656 689 727 728 754 772 786 813 850 863 904 941 954',
+  GA: '229 404 470 478 678 706 762 770 912 943', HI: '808', ID: '208 986',
+  IL: '217 224 309 312 331 447 464 618 630 708 730 773 779 815 847 861 872',
+  IN: '219 260 317 463 574 765 812 930', IA: '319 515 563 641 712', KS: '316 620 785 913',
+  KY: '270 364 502 606 859', LA: '225 318 337 504 985', ME: '207', MD: '227 240 301 410 443 667',
+  MA: '339 351 413 508 617 774 781 857 978', MI: '231 248 269 313 517 586 616 679 734 810 906 947 989',
+  MN: '218 320 507 612 651 763 952', MS: '228 601 662 769', MO: '235 314 417 557 573 636 660 816',
+  MT: '406', NE: '308 402 531', NV: '702 725 775', NH: '603',
+  NJ: '201 551 609 640 732 848 856 862 908 973', NM: '505 575',
+  NY: '212 315 329 332 347 363 516 518 585 607 624 631 646 680 716 718 838 845 914 917 929 934',
+  NC: '252 336 472 704 743 828 910 919 980 984', ND: '701',
+  OH: '216 220 234 283 326 330 380 419 436 440 513 567 614 740 937', OK: '405 539 572 580 918',
+  OR: '458 503 541 971', PA: '215 223 267 272 412 445 484 570 582 610 717 724 814 835 878',
+  RI: '401', SC: '803 839 843 854 864', SD: '605', TN: '423 615 629 731 865 901 931',
+  TX: '210 214 254 281 325 346 361 409 430 432 469 512 682 713 726 737 806 817 830 832 903 915 936 940 945 956 972 979',
+  UT: '385 435 801', VT: '802', VA: '276 434 540 571 703 757 804 826 948',
+  WA: '206 253 360 425 509 564', WV: '304 681', WI: '262 274 414 534 608 715 920', WY: '307',
+  PR: '787 939', VI: '340', GU: '671', AS: '684', MP: '670',
+  AB: '368 403 587 780 825', BC: '236 250 257 604 672 778', MB: '204 431 584', NB: '428 506',
+  NL: '709 879', NS: '782 902',
+  ON: '226 249 289 343 365 382 387 416 437 519 548 613 647 683 705 742 753 807 905 942',
+  QC: '263 354 367 418 438 450 468 514 579 581 819 873', SK: '306 474 639',
+};
+
+// Area codes in a different zone than the rest of their state
+const AREA_CODE_OVERRIDES: Record<string, string> = {
+  '219': 'America/Chicago', // Northwest Indiana
+  '270': 'America/Chicago', // Western Kentucky
+  '364': 'America/Chicago',
+  '423': 'America/New_York', // East Tennessee
+  '865': 'America/New_York',
+  '915': 'America/Denver', // El Paso
+};
+
+const AREA_CODE_TIMEZONES = new Map<string, string>();
+for (const [region, codes] of Object.entries(AREA_CODE_REGIONS)) {
+  for (const code of codes.split(' ')) {
+    AREA_CODE_TIMEZONES.set(code, AREA_CODE_OVERRIDES[code] ?? REGION_TIMEZONES[region]);
+  }
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Infer a contact's time zone
+ * An explicit GHL time zone wins, then the address state or province, then the phone's area code
+ */
+export function inferTimezone(contact: {
+  timezone?: string | null;
+  state?: string | null;
+  country?: string | null;
+  phone?: string | null; // E.164
+}): TimezoneInference | null {
+  if (contact.timezone && isValidTimezone(contact.timezone)) {
+    return { timezone: contact.timezone, source: 'ghl' };
+  }
+
+  const country = (contact.country || '').trim().toUpperCase();
+  if (contact.state && (!country || ['US', 'USA', 'CA', 'CAN'].includes(country))) {
+    const state = contact.state.trim();
+    const region = REGION_NAMES[state.toLowerCase()] ?? state.toUpperCase();
+    if (REGION_TIMEZONES[region]) {
+      return { timezone: REGION_TIMEZONES[region], source: 'state' };
+    }
+  }
+
+  const areaCode = contact.phone?.match(/^\+1(\d{3})\d{7}$/)?.[1];
+  const timezone = areaCode ? AREA_CODE_TIMEZONES.get(areaCode) : undefined;
+  return timezone ? { timezone, source: 'area_code' } : null;
+}
+
+/**
+ * Check that the runtime knows an IANA time zone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a "HH:MM-HH:MM" local calling window, or null when unset or malformed
+ */
+export function parseCallingWindow(value: string | null | undefined): CallingWindow | null {
+  const match = (value || '').trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [start, end] = [
+    parseInt(match[1]) * 60 + parseInt(match[2]),
+    parseInt(match[3]) * 60 + parseInt(match[4]),
+  ];
+  if (start >= end || end > MINUTES_PER_DAY) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+/**
+ * When the calling window next opens for a time zone, or null if it is open now
+ */
+export function nextWindowOpening(timezone: string, window: CallingWindow, now: Date = new Date()): Date | null {
+  const local = localMinutes(timezone, now);
+  if (local >= window.start && local < window.end) {
+    return null;
+  }
+
+  const minutesUntilOpen = local < window.start
+    ? window.start - local
+    : MINUTES_PER_DAY - local + window.start;
+
+  const opening = new Date(now.getTime() + minutesUntilOpen * 60 * 1000);
+  opening.setUTCSeconds(0, 0);
+  return opening;
+}
+
+/**
+ * Minutes after local midnight in a time zone
+ */
+function localMinutes(timezone: string, now: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '0');
+  const minute = parseInt(parts.find((part) => part.type === 'minute')?.value || '0');
+  return hour * 60 + minute;
+}
@@ -0,0 +1,169 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { CallToolsLookupCache } from "../../src/services/callToolsLookupCache";
+
+const testEnv = { ...env, CALLTOOLS_API_KEY: "calltools-key" };
+
+function request(path: string, init?: RequestInit) {
+  return worker.fetch(new Request(`http://local.test${path}`, init), testEnv, createExecutionContext());
+}
+
+async function recordBucketEvent(ghlContactId: string, eventType: string, bucketId: string, status = "success") {
+  await env.DB.prepare(
+    `INSERT INTO sync_events (ghl_contact_id, event_type, detail, status) VALUES (?, ?, ?, ?)`,
+  )
+    .bind(ghlContactId, eventType, bucketId, status)
+    .run();
+}
+
+describe("CallTools Buckets API", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  beforeEach(async () => {
+    await env.DB.batch(
+      [
+        ["ghl-1", "101"],
+        ["ghl-2", "102"],
+        ["ghl-3", "103"],
+      ].map(([ghlContactId, callToolsContactId]) =>
+        env.DB.prepare(
+          `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+        ).bind(ghlContactId, callToolsContactId, "synced"),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should list buckets with the synced contacts in each", async () => {
+    await recordBucketEvent("ghl-1", "bucket_added", "11300");
+    await recordBucketEvent("ghl-2", "bucket_added", "11300");
+    await recordBucketEvent("ghl-2", "bucket_removed", "11300");
+    await recordBucketEvent("ghl-2", "bucket_added", "11301");
+    await recordBucketEvent("ghl-3", "bucket_added", "11300", "failed");
+
+    fetchMock
+      .get("https://east-1.calltools.io")
+      .intercept({ path: "/api/lists/" })
+      .reply(200, {
+        results: [
+          { id: "11300", name: "Cold Leads", contact_count: 250 },
+          { id: "11301", name: "ACA Active", contact_count: 40 },
+          { id: "11302", name: "Manual", contact_count: 3 },
+        ],
+      });
+
+    const response = await request("/calltools/buckets");
+    const body = await response.json<{ result: Array<{ id: string; contact_count: number; synced_contact_count: number }> }>();
+
+    expect(response.status).toBe(200);
+    expect(body.result.map(({ id, contact_count, synced_contact_count }) => ({ id, contact_count, synced_contact_count }))).toEqual([
+      { id: "11300", contact_count: 250, synced_contact_count: 1 },
+      { id: "11301", contact_count: 40, synced_contact_count: 1 },
+      { id: "11302", contact_count: 3, synced_contact_count: 0 },
+    ]);
+
+    const members = await request("/calltools/buckets/11300/contacts");
+    const membersBody = await members.json<{ result: Array<{ ghl_contact_id: string }>; total: number }>();
+    expect(membersBody.total).toBe(1);
+    expect(membersBody.result.map((contact) => contact.ghl_contact_id)).toEqual(["ghl-1"]);
+  });
+
+  it("should add and remove a synced contact", async () => {
+    const calltools = fetchMock.get("https://east-1.calltools.io");
+    calltools
+      .intercept({ path: "/api/buckets/11300/", method: "PATCH", body: JSON.stringify({ add_contacts: [103] }) })
+      .reply(200, { id: "11300" });
+    calltools
+      .intercept({ path: "/api/buckets/11300/", method: "PATCH", body: JSON.stringify({ remove_contacts: [103] }) })
+      .reply(200, { id: "11300" });
+
+    const added = await request("/calltools/buckets/11300/contacts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ghl_contact_id: "ghl-3" }),
+    });
+    expect(added.status).toBe(200);
+
+    const afterAdd = await (await request("/calltools/buckets/11300/contacts")).json<{ total: number }>();
+    expect(afterAdd.total).toBe(1);
+
+    const removed = await request("/calltools/buckets/11300/contacts/ghl-3", { method: "DELETE" });
+    expect(removed.status).toBe(200);
+
+    const afterRemove = await (await request("/calltools/buckets/11300/contacts")).json<{ total: number }>();
+    expect(afterRemove.total).toBe(0);
+
+    const unknown = await request("/calltools/buckets/11300/contacts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ghl_contact_id: "ghl-missing" }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("should refuse to add suppressed or merged contacts to a bucket", async () => {
+    await env.DB.prepare("UPDATE synced_contacts SET phone = ? WHERE ghl_contact_id = ?").bind("+15552345678", "ghl-1").run();
+    await env.DB.prepare("INSERT INTO suppressed_phones (phone, source) VALUES (?, ?)").bind("+15552345678", "manual").run();
+    await env.DB.prepare("UPDATE synced_contacts SET sync_status = 'merged', merged_into = ? WHERE ghl_contact_id = ?")
+      .bind("ghl-3", "ghl-2")
+      .run();
+
+    const addToBucket = (ghlContactId: string) =>
+      request("/calltools/buckets/11300/contacts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ghl_contact_id: ghlContactId }),
+      });
+
+    const suppressed = await addToBucket("ghl-1");
+    expect(suppressed.status).toBe(409);
+    expect((await suppressed.json<{ error: string }>()).error).toBe("+15552345678 is on the suppression list");
+
+    const merged = await addToBucket("ghl-2");
+    expect(merged.status).toBe(409);
+    expect((await merged.json<{ error: string }>()).error).toBe("Contact was merged into ghl-3");
+
+    const events = await env.DB.prepare("SELECT COUNT(*) AS count FROM sync_events").first<{ count: number }>();
+    expect(events!.count).toBe(0);
+  });
+
+  it("should create and rename buckets, keeping the cache in step", async () => {
+    const calltools = fetchMock.get("https://east-1.calltools.io");
+    calltools
+      .intercept({
+        path: "/api/buckets/",
+        method: "POST",
+        body: JSON.stringify({ name: "Callbacks" }),
+      })
+      .reply(201, { id: "11400", name: "Callbacks" });
+    calltools
+      .intercept({ path: "/api/buckets/11400/", method: "PATCH", body: JSON.stringify({ name: "Callbacks Today" }) })
+      .reply(200, { id: "11400", name: "Callbacks Today" });
+
+    const created = await request("/calltools/buckets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Callbacks" }),
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ success: true, result: { id: "11400", name: "Callbacks" } });
+
+    const renamed = await request("/calltools/buckets/11400", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Callbacks Today" }),
+    });
+    expect(renamed.status).toBe(200);
+
+    const cache = new CallToolsLookupCache(env.DB);
+    expect(await cache.get("bucket", "Callbacks")).toBeNull();
+    expect(await cache.get("bucket", "Callbacks Today")).toBe("11400");
+  });
+});
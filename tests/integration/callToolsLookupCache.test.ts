@@ -0,0 +1,106 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { CallToolsClient } from "../../src/clients/calltools";
+import { CallToolsLookupCache } from "../../src/services/callToolsLookupCache";
+
+function createClient() {
+  return new CallToolsClient("calltools-key", undefined, undefined, new CallToolsLookupCache(env.DB));
+}
+
+describe("CallTools lookup cache", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should look a tag up once and reuse its cached ID", async () => {
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=Cold%20Lead" })
+      .reply(200, { results: [{ id: 42, name: "Cold Lead" }] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/7/", method: "PATCH", body: JSON.stringify({ add_tags: [42] }) })
+      .reply(200, { tags: [42] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/8/", method: "PATCH", body: JSON.stringify({ add_tags: [42] }) })
+      .reply(200, { tags: [42] });
+
+    const client = createClient();
+    expect(await client.addTagToContact("7", "Cold Lead")).toEqual({ ok: true, status: 200 });
+    expect(await client.addTagToContact("8", "cold lead")).toEqual({ ok: true, status: 200 });
+
+    expect(await new CallToolsLookupCache(env.DB).get("tag", "Cold Lead")).toBe("42");
+  });
+
+  it("should drop a stale tag ID and look the tag up again", async () => {
+    await new CallToolsLookupCache(env.DB).set("tag", "Hot Lead", "13");
+
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/7/", method: "PATCH", body: JSON.stringify({ add_tags: [13] }) })
+      .reply(400, "Invalid tag");
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=Hot%20Lead" })
+      .reply(200, { results: [{ id: 14, name: "Hot Lead" }] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/7/", method: "PATCH", body: JSON.stringify({ add_tags: [14] }) })
+      .reply(200, { tags: [14] });
+
+    expect(await createClient().addTagToContact("7", "Hot Lead")).toEqual({ ok: true, status: 200 });
+    expect(await new CallToolsLookupCache(env.DB).get("tag", "Hot Lead")).toBe("14");
+  });
+
+  it("should warm every page of tags and buckets, list and flush the cache through the API", async () => {
+    const calltools = fetchMock.get("https://east-1.calltools.io");
+    calltools
+      .intercept({ path: "/api/alltags/" })
+      .reply(200, {
+        results: [{ id: 1, name: "Cold Lead" }],
+        next: "https://east-1.calltools.io/api/alltags/?page=2",
+      });
+    calltools
+      .intercept({ path: "/api/alltags/?page=2" })
+      .reply(200, { results: [{ id: 2, name: "Customer" }], next: null });
+    calltools
+      .intercept({ path: "/api/lists/" })
+      .reply(200, { results: [{ id: "b-1", name: "Cold Leads" }], next: "https://east-1.calltools.io/api/lists/?page=2" });
+    calltools
+      .intercept({ path: "/api/lists/?page=2" })
+      .reply(200, { results: [{ id: "b-2", name: "Customers" }], next: null });
+
+    const testEnv = { ...env, CALLTOOLS_API_KEY: "calltools-key" };
+
+    const warmResponse = await worker.fetch(
+      new Request("http://local.test/sync/calltools-cache/warm", { method: "POST" }),
+      testEnv,
+      createExecutionContext()
+    );
+    expect(warmResponse.status).toBe(200);
+    expect(await warmResponse.json()).toEqual({ success: true, result: { tags: 2, buckets: 2 } });
+
+    const listResponse = await worker.fetch(
+      new Request("http://local.test/sync/calltools-cache"),
+      testEnv,
+      createExecutionContext()
+    );
+    const list = await listResponse.json<{ result: Array<{ kind: string; name: string; calltools_id: string }> }>();
+    expect(list.result.map(({ kind, name, calltools_id }) => ({ kind, name, calltools_id }))).toEqual([
+      { kind: "bucket", name: "cold leads", calltools_id: "b-1" },
+      { kind: "bucket", name: "customers", calltools_id: "b-2" },
+      { kind: "tag", name: "cold lead", calltools_id: "1" },
+      { kind: "tag", name: "customer", calltools_id: "2" },
+    ]);
+
+    const flushResponse = await worker.fetch(
+      new Request("http://local.test/sync/calltools-cache", { method: "DELETE" }),
+      testEnv,
+      createExecutionContext()
+    );
+    expect(await flushResponse.json()).toEqual({ success: true, result: { flushed: 4 } });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  fetchMock,
+  getQueueResult,
+  SELF,
+} from "cloudflare:test";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+
+async function runDeleteJob(policy: string, ghlContactId = "ghl-1") {
+  const batch = createMessageBatch("ghl-webhook-sync", [
+    {
+      id: "msg-delete",
+      timestamp: new Date(),
+      attempts: 1,
+      body: {
+        source: "webhook",
+        ghl_contact_id: ghlContactId,
+        payload: { type: "ContactDelete", id: ghlContactId },
+        received_at: new Date().toISOString(),
+      },
+    },
+  ]);
+  const ctx = createExecutionContext();
+
+  await worker.queue(batch, { ...env, CALLTOOLS_API_KEY: "calltools-key", GHL_DELETE_POLICY: policy }, ctx);
+  return getQueueResult(batch, ctx);
+}
+
+async function getContact(ghlContactId = "ghl-1") {
+  return env.DB.prepare(`SELECT * FROM synced_contacts WHERE ghl_contact_id = ?`)
+    .bind(ghlContactId)
+    .first<{ sync_status: string; calltools_contact_id: string | null }>();
+}
+
+describe("GHL Contact Deletion", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  beforeEach(async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+    )
+      .bind("ghl-1", "ct-1", "synced")
+      .run();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should only mark the contact deleted with the mark policy", async () => {
+    const result = await runDeleteJob("mark");
+
+    expect(result.explicitAcks).toEqual(["msg-delete"]);
+    expect((await getContact())!.sync_status).toBe("deleted");
+  });
+
+  it("should delete the CallTools contact with the delete policy", async () => {
+    fetchMock
+      .get("https://east-1.calltools.io")
+      .intercept({ path: "/api/contacts/ct-1/", method: "DELETE" })
+      .reply(204, "");
+
+    const result = await runDeleteJob("delete");
+
+    expect(result.explicitAcks).toEqual(["msg-delete"]);
+    expect((await getContact())!.sync_status).toBe("deleted");
+
+    const history = await SELF.fetch(`http://local.test/sync/contacts/ghl-1/history`);
+    const events = (await history.json<{ result: any[] }>()).result;
+    expect(events.map((event: any) => event.event_type)).toEqual(["contact_deleted", "ghl_deleted"]);
+  });
+
+  it("should retry when CallTools fails to delete the contact", async () => {
+    // The client retries twice itself before the queue retries the job
+    fetchMock
+      .get("https://east-1.calltools.io")
+      .intercept({ path: "/api/contacts/ct-1/", method: "DELETE" })
+      .reply(503, "Service Unavailable")
+      .times(3);
+
+    const result = await runDeleteJob("delete");
+
+    expect(result.explicitAcks).toEqual([]);
+    expect(result.retryMessages.map((m: { msgId: string }) => m.msgId)).toEqual(["msg-delete"]);
+    expect((await getContact())!.sync_status).toBe("synced");
+  });
+
+  it("should leave the survivor's CallTools contact alone when a merged duplicate is deleted", async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+    )
+      .bind("ghl-2", "ct-2", "synced")
+      .run();
+    const merge = await SELF.fetch(`http://local.test/sync/duplicates/merge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ survivor_ghl_contact_id: "ghl-1", duplicate_ghl_contact_ids: ["ghl-2"] }),
+    });
+    expect(merge.status).toBe(200);
+
+    // No CallTools request is mocked, so deleting ct-1 would fail the job
+    for (const policy of ["delete", "remove_from_buckets"]) {
+      const result = await runDeleteJob(policy, "ghl-2");
+      expect(result.explicitAcks).toEqual(["msg-delete"]);
+    }
+
+    const history = await SELF.fetch(`http://local.test/sync/contacts/ghl-2/history`);
+    const events = (await history.json<{ result: any[] }>()).result;
+    expect(events.map((event: any) => event.event_type)).not.toContain("bucket_removed");
+    expect(events.map((event: any) => event.event_type)).not.toContain("contact_deleted");
+
+    expect(await getContact("ghl-2")).toMatchObject({ sync_status: "deleted", calltools_contact_id: "ct-1" });
+    expect(await getContact()).toMatchObject({ sync_status: "synced", calltools_contact_id: "ct-1" });
+  });
+});
@@ -0,0 +1,113 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { MAX_IMPORT_ROWS } from "../../src/services/contactImportService";
+import { formatCsvRow, parseCsv } from "../../src/utils/csv";
+
+async function importCsv(csv: string, query = "", headers: Record<string, string> = {}) {
+  return worker.fetch(
+    new Request(`http://local.test/sync/import${query}`, {
+      method: "POST",
+      headers: { "Content-Type": "text/csv", ...headers },
+      body: csv,
+    }),
+    { ...env, GHL_API_KEY: "ghl-key", CALLTOOLS_API_KEY: "calltools-key" },
+    createExecutionContext(),
+  );
+}
+
+// GHL echoes the upserted contact back with an ID
+function mockGhlUpsert(id: string, expected: Record<string, unknown>) {
+  fetchMock
+    .get("https://rest.gohighlevel.com")
+    .intercept({
+      path: "/v1/contacts/",
+      method: "POST",
+      body: (body) => JSON.stringify(JSON.parse(body)) === JSON.stringify(expected),
+    })
+    .reply(200, { contact: { id, ...expected } });
+}
+
+describe("CSV contact import", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should read and write RFC 4180 CSV", () => {
+    expect(parseCsv('﻿name,notes\r\n"Doe, Jane","said ""hi""\ntwice"\r\n\r\nBob,\n')).toEqual([
+      ["name", "notes"],
+      ["Doe, Jane", 'said "hi"\ntwice'],
+      ["Bob", ""],
+    ]);
+    expect(formatCsvRow(["Doe, Jane", 'say "hi"', null, 3])).toBe('"Doe, Jane","say ""hi""",,3\r\n');
+  });
+
+  it("should validate rows and sync the valid ones with per-row results", async () => {
+    mockGhlUpsert("ghl-imp-1", {
+      firstName: "Jane",
+      lastName: "Doe",
+      email: "jane@example.com",
+      phone: "+15552345678",
+      tags: ["customer", "vendor-a"],
+    });
+
+    const csv = [
+      "Full Name,Cell,Email Address,Tags",
+      "Jane Doe,(555) 234-5678,jane@example.com,customer",
+      ",555-345-6789,,",
+      "Bob,123,bob@,",
+    ].join("\n");
+    const response = await importCsv(csv, "?tags=vendor-a", { "X-Column-Mapping": "Cell=phone" });
+    const body = await response.json<{ success: boolean; result: Record<string, unknown> }>();
+
+    expect(response.status).toBe(200);
+    expect(body.result).toEqual({
+      total: 3,
+      imported: 1,
+      invalid: 2,
+      failed: 0,
+      rows: [
+        { row: 2, status: "imported", ghl_contact_id: "ghl-imp-1", action: "excluded", bucket_id: null, errors: [] },
+        { row: 3, status: "invalid", ghl_contact_id: null, action: null, bucket_id: null, errors: ["First name is required"] },
+        {
+          row: 4,
+          status: "invalid",
+          ghl_contact_id: null,
+          action: null,
+          bucket_id: null,
+          errors: [expect.stringMatching(/^Invalid phone: /), "Invalid email: bob@"],
+        },
+      ],
+    });
+
+    const record = await env.DB.prepare("SELECT sync_status, is_customer FROM synced_contacts WHERE ghl_contact_id = ?")
+      .bind("ghl-imp-1")
+      .first<{ sync_status: string; is_customer: number }>();
+    expect(record).toEqual({ sync_status: "excluded", is_customer: 1 });
+  });
+
+  it("should reject files it can't import", async () => {
+    const noPhone = await importCsv("first_name,Mobile Number\nJane,5552345678\n");
+    expect(noPhone.status).toBe(400);
+    expect((await noPhone.json<{ error: string }>()).error).toMatch(/^No phone column/);
+
+    const badMapping = await importCsv("first_name,Cell\nJane,5552345678\n", "", { "X-Column-Mapping": "Cell=mobile" });
+    expect(badMapping.status).toBe(400);
+    expect((await badMapping.json<{ error: string }>()).error).toMatch(/^Invalid mapping "Cell=mobile"/);
+
+    const empty = await importCsv("first_name,phone\n");
+    expect(empty.status).toBe(400);
+
+    const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, index) => `Jane,555234${String(index).padStart(4, "0")}`);
+    const tooLarge = await importCsv(["first_name,phone", ...rows].join("\n"));
+    expect(tooLarge.status).toBe(400);
+    expect((await tooLarge.json<{ error: string }>()).error).toBe(
+      `The CSV has ${MAX_IMPORT_ROWS + 1} rows; import at most ${MAX_IMPORT_ROWS} at a time`,
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+function post(path: string, body: unknown) {
+  return worker.fetch(
+    new Request(`http://local.test${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { ...env, GHL_API_KEY: "ghl-key", CALLTOOLS_API_KEY: "calltools-key" },
+    createExecutionContext(),
+  );
+}
+
+async function insertSyncedContact(ghlContactId: string, callToolsContactId: string, isCustomer: number) {
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, phone, sync_status, is_customer) VALUES (?, ?, ?, ?, ?)`,
+  )
+    .bind(ghlContactId, callToolsContactId, "+15552345678", isCustomer ? "excluded" : "synced", isCustomer)
+    .run();
+}
+
+async function getEvents(ghlContactId: string) {
+  const result = await env.DB.prepare(
+    "SELECT event_type, detail, message FROM sync_events WHERE ghl_contact_id = ? ORDER BY id",
+  )
+    .bind(ghlContactId)
+    .all();
+  return result.results;
+}
+
+describe("Customer marking", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should pull a manually marked customer out of the lead bucket and tag", async () => {
+    await insertSyncedContact("ghl-1", "101", 0);
+
+    const calltools = fetchMock.get("https://east-1.calltools.io");
+    calltools
+      .intercept({ path: "/api/buckets/11237/", method: "PATCH", body: JSON.stringify({ remove_contacts: [101] }) })
+      .reply(200, {});
+    calltools
+      .intercept({ path: "/api/alltags/?name=ACA%20Cold%20lead" })
+      .reply(200, { results: [{ id: 9, name: "ACA Cold lead" }] });
+    calltools
+      .intercept({ path: "/api/contacts/101/", method: "PATCH", body: JSON.stringify({ remove_tags: [9] }) })
+      .reply(200, { tags: [] });
+
+    const response = await post("/sync/mark-customer/ghl-1", {
+      marked_by: "ops@example.com",
+      reason: "Bought a policy by phone",
+    });
+
+    expect(response.status).toBe(200);
+    const record = await env.DB.prepare("SELECT is_customer, sync_status FROM synced_contacts WHERE ghl_contact_id = 'ghl-1'")
+      .first();
+    expect(record).toEqual({ is_customer: 1, sync_status: "excluded" });
+    expect(await getEvents("ghl-1")).toEqual([
+      { event_type: "marked_customer", detail: "ops@example.com", message: "Bought a policy by phone" },
+      { event_type: "bucket_removed", detail: "11237", message: null },
+      { event_type: "tag_removed", detail: "ACA Cold lead", message: null },
+    ]);
+  });
+
+  it("should reinstate a customer and sync it to its segment again", async () => {
+    await env.DB.prepare(
+      `INSERT INTO segment_rules (name, priority, match_mode, match_tags, action) VALUES ('Lapsed', 1, 'exact', 'lapsed', 'sync')`,
+    ).run();
+    await insertSyncedContact("ghl-2", "102", 1);
+
+    fetchMock
+      .get("https://rest.gohighlevel.com")
+      .intercept({ path: "/v1/contacts/ghl-2" })
+      .reply(200, { contact: { id: "ghl-2", name: "Ann Lee", phone: "+15552345678", tags: ["lapsed"] } });
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools.intercept({ path: "/v1/api/contacts/102/" }).reply(200, { id: "102", first_name: "Ann" });
+    calltools.intercept({ path: "/v1/api/contacts/102/", method: "PUT" }).reply(200, { id: "102", first_name: "Ann" });
+
+    const service = new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+    const outcome = await service.reinstateCustomer("ghl-2", "ops@example.com", "Policy lapsed");
+
+    expect(outcome).toMatchObject({ success: true, action: "updated" });
+    const record = await service.getSyncedContact("ghl-2");
+    expect(record).toMatchObject({ is_customer: 0, sync_status: "synced" });
+    expect((await getEvents("ghl-2"))[0]).toEqual({
+      event_type: "customer_reinstated",
+      detail: "ops@example.com",
+      message: "Policy lapsed",
+    });
+  });
+
+  it("should not reinstate another tenant's contact", async () => {
+    const tenant = await env.DB.prepare(
+      `INSERT INTO tenants (name, ghl_location_id, ghl_api_key_secret, calltools_api_key_secret)
+       VALUES ('Agency A', 'loc-a', 'TENANT_A_GHL_API_KEY', 'TENANT_A_CALLTOOLS_API_KEY') RETURNING id`,
+    ).first<{ id: number }>();
+    await insertSyncedContact("ghl-4", "104", 1);
+    await env.DB.prepare("UPDATE synced_contacts SET tenant_id = ? WHERE ghl_contact_id = 'ghl-4'").bind(tenant!.id).run();
+
+    const service = new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+    const outcome = await service.reinstateCustomer("ghl-4", "ops@example.com", "Policy lapsed");
+
+    expect(outcome).toBeNull();
+    const record = await env.DB.prepare("SELECT is_customer FROM synced_contacts WHERE ghl_contact_id = 'ghl-4'").first();
+    expect(record).toEqual({ is_customer: 1 });
+    expect(await getEvents("ghl-4")).toEqual([]);
+  });
+
+  it("should refuse to reinstate a contact that isn't a customer", async () => {
+    await insertSyncedContact("ghl-3", "103", 0);
+
+    const response = await post("/sync/reinstate-customer/ghl-3", { reinstated_by: "ops@example.com", reason: "Mistake" });
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,151 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+// Helper function to insert a synced contact directly
+async function insertContact(contact: Record<string, string | number | null>) {
+  const columns = Object.keys(contact);
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+  )
+    .bind(...Object.values(contact))
+    .run();
+}
+
+async function mergeContacts(body: Record<string, unknown>) {
+  return SELF.fetch(`http://local.test/sync/duplicates/merge`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Duplicates API Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await insertContact({ ghl_contact_id: "ghl-a", calltools_contact_id: "ct-1", phone: "+15552345678", email: "pat@example.com" });
+    await insertContact({ ghl_contact_id: "ghl-b", calltools_contact_id: "ct-1", phone: "(555) 234-5678", email: "other@example.com" });
+    await insertContact({ ghl_contact_id: "ghl-c", calltools_contact_id: "ct-2", phone: "+15553456789", email: "PAT@example.com " });
+  });
+
+  describe("GET /sync/duplicates", () => {
+    it("should group contacts by CallTools ID, normalized phone and email", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/duplicates`);
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result).toEqual([
+        {
+          key_type: "calltools_contact_id",
+          key: "ct-1",
+          ghl_contact_ids: ["ghl-a", "ghl-b"],
+          calltools_contact_ids: ["ct-1"],
+          many_to_one: true,
+        },
+        {
+          key_type: "phone",
+          key: "+15552345678",
+          ghl_contact_ids: ["ghl-a", "ghl-b"],
+          calltools_contact_ids: ["ct-1"],
+          many_to_one: true,
+        },
+        {
+          key_type: "email",
+          key: "pat@example.com",
+          ghl_contact_ids: ["ghl-a", "ghl-c"],
+          calltools_contact_ids: ["ct-1", "ct-2"],
+          many_to_one: false,
+        },
+      ]);
+    });
+
+    it("should only group contacts of the same tenant", async () => {
+      const tenant = await env.DB.prepare(
+        `INSERT INTO tenants (name, ghl_location_id, ghl_api_key_secret, calltools_api_key_secret)
+         VALUES ('Agency A', 'loc-a', 'A_GHL', 'A_CALLTOOLS') RETURNING id`,
+      ).first<{ id: number }>();
+      await insertContact({ ghl_contact_id: "ghl-t1", phone: "+15552345678", tenant_id: tenant!.id });
+      await insertContact({ ghl_contact_id: "ghl-t2", phone: "+15552345678", tenant_id: tenant!.id });
+
+      const defaults = await SELF.fetch(`http://local.test/sync/duplicates?key_type=phone`);
+      expect((await defaults.json<{ result: any[] }>()).result.map((group: any) => group.ghl_contact_ids)).toEqual([
+        ["ghl-a", "ghl-b"],
+      ]);
+
+      const scoped = await SELF.fetch(`http://local.test/sync/duplicates?key_type=phone&tenant_id=${tenant!.id}`);
+      expect((await scoped.json<{ result: any[] }>()).result.map((group: any) => group.ghl_contact_ids)).toEqual([
+        ["ghl-t1", "ghl-t2"],
+      ]);
+
+      const merged = await mergeContacts({ survivor_ghl_contact_id: "ghl-a", duplicate_ghl_contact_ids: ["ghl-t1"] });
+      expect(merged.status).toBe(400);
+      expect((await merged.json<{ error: string }>()).error).toBe("Contacts of different tenants cannot be merged");
+    });
+
+    it("should filter by key type", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/duplicates?key_type=email`);
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(body.result.map((group: any) => group.key_type)).toEqual(["email"]);
+    });
+  });
+
+  describe("POST /sync/duplicates/merge", () => {
+    it("should relink duplicates to the survivor and skip them in future syncs", async () => {
+      const response = await mergeContacts({
+        survivor_ghl_contact_id: "ghl-a",
+        duplicate_ghl_contact_ids: ["ghl-c"],
+      });
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result.find((contact: any) => contact.ghl_contact_id === "ghl-c")).toEqual(
+        expect.objectContaining({
+          calltools_contact_id: "ct-1",
+          merged_into: "ghl-a",
+          sync_status: "merged",
+        }),
+      );
+
+      const duplicates = await SELF.fetch(`http://local.test/sync/duplicates?key_type=email`);
+      expect((await duplicates.json<{ result: any[] }>()).result).toEqual([]);
+
+      const service = new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+      const plan = await service.planGhlContact({
+        id: "ghl-c",
+        name: "Pat",
+        phone: "+15553456789",
+        tags: ["cold lead"],
+      });
+      expect(plan.action).toBe("excluded");
+      expect(plan.reason).toBe("Merged into ghl-a");
+    });
+
+    it("should return 404 when a contact has never been synced", async () => {
+      const response = await mergeContacts({
+        survivor_ghl_contact_id: "ghl-a",
+        duplicate_ghl_contact_ids: ["ghl-missing"],
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 400 for more duplicates than one merge can bind", async () => {
+      const response = await mergeContacts({
+        survivor_ghl_contact_id: "ghl-a",
+        duplicate_ghl_contact_ids: Array.from({ length: 51 }, (_, index) => `ghl-dup-${index}`),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 when the survivor is also a duplicate", async () => {
+      const response = await mergeContacts({
+        survivor_ghl_contact_id: "ghl-a",
+        duplicate_ghl_contact_ids: ["ghl-a", "ghl-b"],
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
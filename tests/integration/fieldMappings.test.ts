@@ -0,0 +1,185 @@
+import { createExecutionContext, env, fetchMock, SELF } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+import { applyFieldMappings, FieldMapping, FieldMappingService } from "../../src/services/fieldMappingService";
+
+function mapping(overrides: Partial<FieldMapping>): FieldMapping {
+  return {
+    id: 1,
+    ghl_field: "source",
+    calltools_field: "custom.Lead Source",
+    transform: "none",
+    transform_options: null,
+    default_value: null,
+    tenant_id: null,
+    enabled: 1,
+    ...overrides,
+  };
+}
+
+async function createMapping(body: Record<string, unknown>) {
+  return SELF.fetch(`http://local.test/sync/field-mappings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Field Mappings", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should create and list mappings", async () => {
+    const created = await createMapping({ ghl_field: "custom.household_size", calltools_field: "custom.Household Size" });
+    expect(created.status).toBe(201);
+
+    const response = await SELF.fetch(`http://local.test/sync/field-mappings`);
+    const body = await response.json<{ success: boolean; result: any[] }>();
+
+    expect(response.status).toBe(200);
+    expect(body.result).toHaveLength(1);
+    expect(body.result[0]).toMatchObject({
+      ghl_field: "custom.household_size",
+      calltools_field: "custom.Household Size",
+      transform: "none",
+      enabled: true,
+    });
+  });
+
+  it("should read standard and custom fields and apply transforms", () => {
+    const mapped = applyFieldMappings(
+      [
+        mapping({ id: 1, ghl_field: "source", calltools_field: "custom.Lead Source", transform: "uppercase" }),
+        mapping({ id: 2, ghl_field: "custom.household_size", calltools_field: "custom.Household Size" }),
+        mapping({ id: 3, ghl_field: "custom.fld123", calltools_field: "custom.Income" }),
+        mapping({ id: 4, ghl_field: "dateOfBirth", calltools_field: "birth_date", transform: "date", transform_options: "MM/DD/YYYY" }),
+        mapping({ id: 5, ghl_field: "state", calltools_field: "custom.Market", transform: "lookup", transform_options: "TX=South, CA=West", default_value: "Other" }),
+        mapping({ id: 6, ghl_field: "city", calltools_field: "city", default_value: "Unknown" }),
+      ],
+      {
+        id: "ghl-1",
+        name: "Ann Lee",
+        source: "facebook ad",
+        dateOfBirth: "1980-04-09T00:00:00.000Z",
+        state: "NY",
+        customFields: { household_size: 3 },
+        customField: [{ id: "fld123", value: "52000" }],
+      } as any,
+    );
+
+    expect(mapped.fields).toEqual({ birth_date: "04/09/1980", city: "Unknown" });
+    expect(mapped.custom_fields).toEqual({
+      "Lead Source": "FACEBOOK AD",
+      "Household Size": "3",
+      Income: "52000",
+      Market: "Other",
+    });
+    expect(mapped.values.find((value) => value.mapping_id === 5)).toEqual({
+      mapping_id: 5,
+      ghl_field: "state",
+      calltools_field: "custom.Market",
+      source_value: "NY",
+      value: "Other",
+      defaulted: true,
+    });
+  });
+
+  it("should send mapped fields when creating the CallTools contact", async () => {
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO segment_rules (name, priority, match_mode, match_tags, action) VALUES ('Mapped', 1, 'exact', 'mapped', 'sync')`,
+      ),
+      env.DB.prepare(
+        `INSERT INTO field_mappings (ghl_field, calltools_field) VALUES ('custom.household_size', 'custom.Household Size')`,
+      ),
+      env.DB.prepare(
+        `INSERT INTO field_mappings (ghl_field, calltools_field) VALUES ('firstName', 'first_name')`,
+      ),
+      env.DB.prepare(
+        `INSERT INTO field_mappings (ghl_field, calltools_field, enabled) VALUES ('city', 'city', 0)`,
+      ),
+    ]);
+
+    let sent: any;
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/?phone_number=%2B15552345678" })
+      .reply(200, { results: [] });
+    calltools
+      .intercept({
+        path: "/v1/api/contacts/",
+        method: "POST",
+        body: (body) => {
+          sent = JSON.parse(body);
+          return true;
+        },
+      })
+      .reply(201, { id: "ct-1", first_name: "Ann" });
+
+    const service = new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+    const outcome = await service.syncGhlContact({
+      id: "ghl-1",
+      name: "Ann Lee",
+      firstName: "Ann",
+      phone: "(555) 234-5678",
+      city: "Austin",
+      tags: ["mapped"],
+      customFields: { household_size: 4 },
+    } as any);
+
+    expect(outcome.action).toBe("synced");
+    expect(sent).toMatchObject({
+      first_name: "Ann",
+      mobile_phone_number: "+15552345678",
+      custom_fields: { "Household Size": "4" },
+    });
+    expect(sent.city).toBeUndefined();
+  });
+
+  it("should preview a tenant's own mappings with the tenant's GHL credentials", async () => {
+    const tenant = await env.DB.prepare(
+      `INSERT INTO tenants (name, ghl_location_id, ghl_api_key_secret, calltools_api_key_secret)
+       VALUES ('Agency A', 'loc-a', 'TENANT_A_GHL_API_KEY', 'TENANT_A_CALLTOOLS_API_KEY') RETURNING id`,
+    ).first<{ id: number }>();
+    await env.DB.batch([
+      env.DB.prepare(`INSERT INTO field_mappings (ghl_field, calltools_field) VALUES ('firstName', 'first_name')`),
+      env.DB.prepare(`INSERT INTO field_mappings (ghl_field, calltools_field, tenant_id) VALUES ('city', 'city', ?)`).bind(
+        tenant!.id,
+      ),
+    ]);
+
+    const ghl = fetchMock.get("https://rest.gohighlevel.com");
+    for (const apiKey of ["tenant-a-ghl", "ghl-key"]) {
+      ghl
+        .intercept({ path: "/v1/contacts/ghl-1", headers: { Authorization: `Bearer ${apiKey}` } })
+        .reply(200, { contact: { id: "ghl-1", firstName: "Ann", city: "Austin" } });
+    }
+    const preview = async (query: string) => {
+      const response = await worker.fetch(
+        new Request(`http://local.test/sync/field-mappings?ghl_contact_id=ghl-1${query}`),
+        { ...env, GHL_API_KEY: "ghl-key", TENANT_A_GHL_API_KEY: "tenant-a-ghl" },
+        createExecutionContext(),
+      );
+      return response.json<{ result: any[]; preview: { fields: Record<string, string> } }>();
+    };
+
+    const scoped = await preview(`&tenant_id=${tenant!.id}`);
+    expect(scoped.result).toHaveLength(2);
+    expect(scoped.preview.fields).toEqual({ first_name: "Ann", city: "Austin" });
+
+    const shared = await preview("");
+    expect(shared.result).toHaveLength(2);
+    expect(shared.preview.fields).toEqual({ first_name: "Ann" });
+
+    const tenantMappings = await new FieldMappingService(env.DB, tenant!.id).getActiveMappings();
+    expect(tenantMappings.map((mapping) => mapping.ghl_field)).toEqual(["firstName", "city"]);
+    expect(await new FieldMappingService(env.DB).getActiveMappings()).toHaveLength(1);
+  });
+});
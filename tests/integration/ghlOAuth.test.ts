@@ -0,0 +1,175 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { LeadConnectorClient } from "../../src/clients/leadConnector";
+import { GhlOAuthService } from "../../src/services/ghlOAuthService";
+
+const oauthEnv = { ...env, GHL_CLIENT_ID: "client-id", GHL_CLIENT_SECRET: "client-secret" };
+
+async function startInstall(): Promise<string> {
+  const response = await worker.fetch(
+    new Request("http://local.test/oauth/ghl/install", { redirect: "manual" }),
+    oauthEnv,
+    createExecutionContext(),
+  );
+  return new URL(response.headers.get("Location")!).searchParams.get("state")!;
+}
+
+async function storeToken(expiresAt: string) {
+  await env.DB.prepare(
+    `INSERT INTO ghl_oauth_tokens (location_id, access_token, refresh_token, expires_at)
+     VALUES ('loc-1', 'access-1', 'refresh-1', ?)`,
+  )
+    .bind(expiresAt)
+    .run();
+}
+
+describe("GHL v2 OAuth", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should redirect installs to the GHL location chooser", async () => {
+    const response = await worker.fetch(
+      new Request("http://local.test/oauth/ghl/install", { redirect: "manual" }),
+      oauthEnv,
+      createExecutionContext(),
+    );
+    const location = new URL(response.headers.get("Location")!);
+
+    expect(response.status).toBe(302);
+    expect(location.origin).toBe("https://marketplace.gohighlevel.com");
+    expect(location.searchParams.get("client_id")).toBe("client-id");
+    expect(location.searchParams.get("redirect_uri")).toBe("http://local.test/oauth/ghl/callback");
+    expect(location.searchParams.get("scope")).toBe("contacts.readonly contacts.write");
+
+    const state = await env.DB.prepare("SELECT state FROM ghl_oauth_states").first<{ state: string }>();
+    expect(location.searchParams.get("state")).toBe(state!.state);
+  });
+
+  it("should store the location's tokens when the install completes", async () => {
+    const state = await startInstall();
+    fetchMock
+      .get("https://services.leadconnectorhq.com")
+      .intercept({ path: "/oauth/token", method: "POST" })
+      .reply(200, {
+        access_token: "access-1",
+        refresh_token: "refresh-1",
+        expires_in: 86399,
+        scope: "contacts.readonly",
+        userType: "Location",
+        locationId: "loc-1",
+        companyId: "company-1",
+      });
+
+    const response = await worker.fetch(
+      new Request(`http://local.test/oauth/ghl/callback?code=auth-code&state=${state}`),
+      oauthEnv,
+      createExecutionContext(),
+    );
+    const body = await response.json<{ result: Record<string, unknown> }>();
+
+    expect(response.status).toBe(200);
+    expect(body.result.location_id).toBe("loc-1");
+    expect(body.result).not.toHaveProperty("access_token");
+
+    const token = await new GhlOAuthService(env.DB, "client-id", "client-secret").getToken("loc-1");
+    expect(token!.refresh_token).toBe("refresh-1");
+    expect(token!.company_id).toBe("company-1");
+  });
+
+  it("should reject callbacks without a state the worker issued", async () => {
+    const state = await startInstall();
+    await env.DB.prepare(
+      `INSERT INTO ghl_oauth_states (state, expires_at) VALUES ('expired', ?)`,
+    )
+      .bind(new Date(Date.now() - 1000).toISOString())
+      .run();
+
+    for (const query of ["code=auth-code", "code=auth-code&state=forged", "code=auth-code&state=expired"]) {
+      const response = await worker.fetch(
+        new Request(`http://local.test/oauth/ghl/callback?${query}`),
+        oauthEnv,
+        createExecutionContext(),
+      );
+      expect(response.status).toBe(400);
+    }
+
+    fetchMock
+      .get("https://services.leadconnectorhq.com")
+      .intercept({ path: "/oauth/token", method: "POST" })
+      .reply(200, { access_token: "access-1", refresh_token: "refresh-1", expires_in: 86399, locationId: "loc-1" });
+    const callback = () =>
+      worker.fetch(
+        new Request(`http://local.test/oauth/ghl/callback?code=auth-code&state=${state}`),
+        oauthEnv,
+        createExecutionContext(),
+      );
+
+    expect((await callback()).status).toBe(200);
+    expect((await callback()).status).toBe(400);
+  });
+
+  it("should refresh the access token and retry once on 401", async () => {
+    await storeToken(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    const ghl = fetchMock.get("https://services.leadconnectorhq.com");
+    ghl
+      .intercept({ path: "/contacts/ghl-1", headers: { Authorization: "Bearer access-1", Version: "2021-07-28" } })
+      .reply(401, { message: "Invalid JWT" });
+    ghl
+      .intercept({ path: "/oauth/token", method: "POST", body: (body) => body.includes("refresh_token=refresh-1") })
+      .reply(200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 86399 });
+    ghl
+      .intercept({ path: "/contacts/ghl-1", headers: { Authorization: "Bearer access-2" } })
+      .reply(200, {
+        contact: {
+          id: "ghl-1",
+          firstName: "Jane",
+          lastName: "Doe",
+          customFields: [{ id: "plan", value: "Gold" }],
+        },
+      });
+
+    const oauth = new GhlOAuthService(env.DB, "client-id", "client-secret");
+    const contact = await new LeadConnectorClient("loc-1", oauth).getContact("ghl-1");
+
+    expect(contact.name).toBe("Jane Doe");
+    expect(contact.customField).toEqual([{ id: "plan", value: "Gold" }]);
+
+    const token = await oauth.getToken("loc-1");
+    expect(token!.access_token).toBe("access-2");
+    expect(token!.refresh_token).toBe("refresh-2");
+  });
+
+  it("should refresh expired tokens before searching contacts", async () => {
+    await storeToken(new Date(Date.now() - 1000).toISOString());
+
+    const ghl = fetchMock.get("https://services.leadconnectorhq.com");
+    ghl
+      .intercept({ path: "/oauth/token", method: "POST" })
+      .reply(200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 86399 });
+    ghl
+      .intercept({
+        path: "/contacts/search",
+        method: "POST",
+        headers: { Authorization: "Bearer access-2" },
+        body: (body) => {
+          const search = JSON.parse(body);
+          return search.locationId === "loc-1" && search.page === 2 && search.pageLimit === 50;
+        },
+      })
+      .reply(200, { contacts: [{ id: "ghl-2", contactName: "Bob Smith" }], total: 51 });
+
+    const oauth = new GhlOAuthService(env.DB, "client-id", "client-secret");
+    const response = await new LeadConnectorClient("loc-1", oauth).getContacts({ limit: 50, skip: 50 });
+
+    expect(response.contacts[0].name).toBe("Bob Smith");
+    expect(response.meta!.total).toBe(51);
+  });
+});
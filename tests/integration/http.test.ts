@@ -0,0 +1,84 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  fetchMock,
+  getQueueResult,
+} from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { CallToolsClient } from "../../src/clients/calltools";
+import { CallToolsApiError } from "../../src/clients/http";
+
+describe("HTTP transport", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should wait out Retry-After on 429 and retry", async () => {
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/ct-1/" })
+      .reply(429, "Too Many Requests", { headers: { "Retry-After": "0" } });
+    calltools.intercept({ path: "/v1/api/contacts/ct-1/" }).reply(200, { id: "ct-1", first_name: "Jane" });
+
+    const contact = await new CallToolsClient("calltools-key").getContact("ct-1");
+
+    expect(contact!.first_name).toBe("Jane");
+  });
+
+  it("should not resend a POST that failed with a 5xx", async () => {
+    fetchMock
+      .get("https://api.calltools.com")
+      .intercept({ path: "/v1/api/contacts/", method: "POST" })
+      .reply(502, "Bad Gateway");
+
+    const error = await new CallToolsClient("calltools-key")
+      .createContact({ first_name: "Jane" })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(CallToolsApiError);
+    expect(error.status).toBe(502);
+    expect(error.body).toBe("Bad Gateway");
+    expect(error.retryable).toBe(true);
+  });
+
+  it("should dead-letter jobs that fail with a permanent API error", async () => {
+    fetchMock
+      .get("https://east-1.calltools.io")
+      .intercept({ path: "/api/contacts/?phone_number=%2B15552345678" })
+      .reply(401, "Invalid token");
+
+    const batch = createMessageBatch("ghl-webhook-sync", [
+      {
+        id: "msg-401",
+        timestamp: new Date(),
+        attempts: 1,
+        body: {
+          source: "webhook",
+          ghl_contact_id: "ghl-401",
+          received_at: new Date().toISOString(),
+          payload: { contact_id: "ghl-401", first_name: "Jane", phone: "(555) 234-5678", tags: "cold lead" },
+        },
+      },
+    ]);
+    const ctx = createExecutionContext();
+
+    await worker.queue(batch, { ...env, CALLTOOLS_API_KEY: "calltools-key" }, ctx);
+    const result = await getQueueResult(batch, ctx);
+
+    expect(result.explicitAcks).toEqual(["msg-401"]);
+    expect(result.retryMessages).toEqual([]);
+
+    const deadLetter = await env.DB.prepare("SELECT * FROM webhook_dead_letters WHERE message_id = ?")
+      .bind("msg-401")
+      .first<{ attempts: number; last_error: string }>();
+    expect(deadLetter!.attempts).toBe(1);
+    expect(deadLetter!.last_error).toBe("CallTools API error: 401 - Invalid token");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { normalizePhone, parsePhone } from "../../src/utils/phone";
+
+describe("Phone normalization", () => {
+  it("should read national numbers in the default region", () => {
+    expect(normalizePhone("(555) 234-5678")).toBe("+15552345678");
+    expect(normalizePhone("1-555-234-5678")).toBe("+15552345678");
+    expect(normalizePhone("020 7946 0018", "GB")).toBe("+442079460018");
+    expect(normalizePhone("0412 345 678", "au")).toBe("+61412345678");
+  });
+
+  it("should keep the country of international numbers", () => {
+    expect(normalizePhone("+44 7700 900123")).toBe("+447700900123");
+    expect(normalizePhone("0044 7700 900123")).toBe("+447700900123");
+    expect(parsePhone("+52 55 1234 5678")).toEqual({
+      valid: true,
+      e164: "+525512345678",
+      region: "MX",
+      extension: null,
+    });
+  });
+
+  it("should strip extensions", () => {
+    expect(parsePhone("555-234-5678 ext. 204")).toEqual({
+      valid: true,
+      e164: "+15552345678",
+      region: "US",
+      extension: "204",
+    });
+    expect(parsePhone("5552345678x9")).toEqual(
+      expect.objectContaining({ e164: "+15552345678", extension: "9" }),
+    );
+  });
+
+  it("should reject invalid numbers with a reason", () => {
+    expect(parsePhone("")).toEqual({ valid: false, reason: "No phone number" });
+    expect(parsePhone("555-0100")).toEqual({
+      valid: false,
+      reason: '"555-0100" is not a valid US phone number',
+    });
+    expect(parsePhone("(555) 123-4567")).toEqual({
+      valid: false,
+      reason: '"(555) 123-4567" has an invalid area code or exchange',
+    });
+    expect(parsePhone("1-800-FLOWERS")).toEqual({
+      valid: false,
+      reason: '"1-800-FLOWERS" contains letters',
+    });
+    expect(parsePhone("+1234")).toEqual(expect.objectContaining({ valid: false }));
+    expect(parsePhone("5552345678", "ZZ")).toEqual({
+      valid: false,
+      reason: 'Unsupported default phone region "ZZ"',
+    });
+  });
+});
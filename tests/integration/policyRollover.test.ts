@@ -0,0 +1,180 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+import { latestPolicyYear, SegmentRuleService } from "../../src/services/segmentRuleService";
+
+const currentYear = new Date().getUTCFullYear();
+
+function createService() {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+}
+
+async function insertSyncedContact(ghlContactId: string, callToolsContactId: string, policyYear: number) {
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status, is_customer, policy_year) VALUES (?, ?, ?, ?, ?)`,
+  )
+    .bind(ghlContactId, callToolsContactId, "excluded", 1, policyYear)
+    .run();
+}
+
+function mockGhlContact(id: string, tags: string[]) {
+  fetchMock
+    .get("https://rest.gohighlevel.com")
+    .intercept({ path: `/v1/contacts/${id}` })
+    .reply(200, { contact: { id, name: "Jane Doe", phone: "+15552345678", tags } });
+}
+
+describe("ACA policy years", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should recognize ACA Active tags for the current and later years only", async () => {
+    const rules = new SegmentRuleService(env.DB);
+    const acaActive = (await rules.getActiveRules()).find((rule) => rule.name === "ACA Active Clients");
+
+    expect(acaActive).toMatchObject({ match_mode: "year", match_tags: "aca active {year}" });
+    expect((await rules.classify([`ACA Active ${currentYear}`]))?.name).toBe("ACA Active Clients");
+    expect((await rules.classify([`aca active ${currentYear + 1}`]))?.name).toBe("ACA Active Clients");
+    expect(await rules.classify([`ACA Active ${currentYear - 1}`])).toBeNull();
+    expect(await rules.classify(["ACA Active"])).toBeNull();
+    expect(latestPolicyYear(acaActive!, ["ACA Active 2024", "ACA Active 2031", "cold lead"])).toBe(2031);
+  });
+
+  it("should store the policy year of a synced ACA client", async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status, policy_lapsed_at) VALUES (?, ?, ?, ?)`,
+    )
+      .bind("ghl-1", "101", "synced", "2026-01-01T00:00:00.000Z")
+      .run();
+
+    mockGhlContact("ghl-1", [`ACA Active ${currentYear - 1}`, `ACA Active ${currentYear}`]);
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools.intercept({ path: "/v1/api/contacts/101/" }).reply(200, { id: "101", first_name: "Jane" });
+    calltools.intercept({ path: "/v1/api/contacts/101/", method: "PUT" }).reply(200, { id: "101", first_name: "Jane" });
+    calltools.intercept({ path: "/v1/api/buckets/11237/", method: "PATCH" }).reply(200, {});
+    calltools.intercept({ path: "/v1/api/buckets/11252/", method: "PATCH" }).reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Active%20client" })
+      .reply(200, { results: [{ id: 5, name: "ACA Active client" }] });
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Cold%20lead" })
+      .reply(200, { results: [{ id: 9, name: "ACA Cold lead" }] });
+    calltools.intercept({ path: "/v1/api/contacts/101/", method: "PATCH" }).reply(200, { tags: [] }).times(2);
+
+    const outcome = await createService().syncSingleContact("ghl-1");
+
+    expect(outcome).toMatchObject({ success: true, action: "updated" });
+    const record = await env.DB.prepare("SELECT policy_year, policy_lapsed_at FROM synced_contacts WHERE ghl_contact_id = 'ghl-1'")
+      .first();
+    expect(record).toEqual({ policy_year: currentYear, policy_lapsed_at: null });
+  });
+
+  it("should clear the policy year once a client no longer matches a year rule", async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status, policy_year) VALUES (?, ?, ?, ?)`,
+    )
+      .bind("ghl-1", "101", "synced", currentYear)
+      .run();
+
+    mockGhlContact("ghl-1", ["cold lead"]);
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools.intercept({ path: "/v1/api/contacts/101/" }).reply(200, { id: "101", first_name: "Jane" });
+    calltools.intercept({ path: "/v1/api/contacts/101/", method: "PUT" }).reply(200, { id: "101", first_name: "Jane" });
+    calltools.intercept({ path: "/v1/api/buckets/11237/", method: "PATCH" }).reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Cold%20lead" })
+      .reply(200, { results: [{ id: 9, name: "ACA Cold lead" }] });
+    calltools.intercept({ path: "/v1/api/contacts/101/", method: "PATCH" }).reply(200, { tags: [] });
+
+    const outcome = await createService().syncSingleContact("ghl-1");
+
+    expect(outcome).toMatchObject({ success: true, action: "updated" });
+    const record = await env.DB.prepare("SELECT policy_year FROM synced_contacts WHERE ghl_contact_id = 'ghl-1'").first();
+    expect(record).toEqual({ policy_year: null });
+  });
+
+  it("should move expired clients to the lapsed bucket and leave current ones in place", async () => {
+    await insertSyncedContact("ghl-2", "102", currentYear - 1);
+    await insertSyncedContact("ghl-3", "103", currentYear - 1);
+    await insertSyncedContact("ghl-4", "104", currentYear);
+
+    mockGhlContact("ghl-2", [`ACA Active ${currentYear - 1}`]);
+    mockGhlContact("ghl-3", [`ACA Active ${currentYear - 1}`, `ACA Active ${currentYear}`]);
+
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/buckets/11252/", method: "PATCH", body: JSON.stringify({ remove_contacts: [102] }) })
+      .reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Active%20client" })
+      .reply(200, { results: [{ id: 5, name: "ACA Active client" }] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/102/", method: "PATCH", body: JSON.stringify({ remove_tags: [5] }) })
+      .reply(200, { tags: [] });
+    calltools
+      .intercept({ path: "/v1/api/lists/" })
+      .reply(200, { results: [{ id: 11400, name: "ACA Lapsed / Renewal" }] });
+    calltools
+      .intercept({ path: "/v1/api/buckets/11400/", method: "PATCH", body: JSON.stringify({ add_contacts: [102] }) })
+      .reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Lapsed%20%2F%20Renewal" })
+      .reply(200, { results: [{ id: 12, name: "ACA Lapsed / Renewal" }] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/102/", method: "PATCH", body: JSON.stringify({ add_tags: [12] }) })
+      .reply(200, { tags: [12] });
+
+    const result = await createService().rolloverExpiredPolicies(10, "ACA Lapsed / Renewal", "ACA Lapsed / Renewal");
+
+    expect(result).toEqual({ checked: 2, lapsed: 1, current: 1, suppressed: 0, failed: 0, errors: [] });
+    const records = await env.DB.prepare(
+      "SELECT ghl_contact_id, policy_year, policy_lapsed_at IS NOT NULL AS lapsed FROM synced_contacts ORDER BY id",
+    ).all();
+    expect(records.results).toEqual([
+      { ghl_contact_id: "ghl-2", policy_year: currentYear - 1, lapsed: 1 },
+      { ghl_contact_id: "ghl-3", policy_year: currentYear, lapsed: 0 },
+      { ghl_contact_id: "ghl-4", policy_year: currentYear, lapsed: 0 },
+    ]);
+    const lapsedEvent = await env.DB.prepare("SELECT detail, message FROM sync_events WHERE event_type = 'policy_lapsed'")
+      .first();
+    expect(lapsedEvent).toEqual({ detail: String(currentYear - 1), message: "ACA Lapsed / Renewal" });
+  });
+
+  it("should pull opted-out clients from the dialer, lapsed bucket included, instead of lapsing them", async () => {
+    await insertSyncedContact("ghl-5", "105", currentYear - 1);
+    await env.DB.prepare(
+      `INSERT INTO sync_events (ghl_contact_id, event_type, detail, status, message) VALUES (?, ?, ?, ?, ?)`,
+    )
+      .bind("ghl-5", "bucket_added", "11400", "success", "Policy lapsed")
+      .run();
+
+    fetchMock
+      .get("https://rest.gohighlevel.com")
+      .intercept({ path: "/v1/contacts/ghl-5" })
+      .reply(200, { contact: { id: "ghl-5", name: "Jane Doe", phone: "+15552345678", dnd: true, tags: [`ACA Active ${currentYear - 1}`] } });
+    const calltools = fetchMock.get("https://api.calltools.com");
+    for (const bucketId of ["11237", "11252", "11400"]) {
+      calltools
+        .intercept({ path: `/v1/api/buckets/${bucketId}/`, method: "PATCH", body: JSON.stringify({ remove_contacts: [105] }) })
+        .reply(200, {});
+    }
+
+    const result = await createService().rolloverExpiredPolicies(10, "ACA Lapsed / Renewal", "ACA Lapsed / Renewal");
+
+    expect(result).toEqual({ checked: 1, lapsed: 0, current: 0, suppressed: 1, failed: 0, errors: [] });
+    const record = await env.DB.prepare(
+      "SELECT sync_status, policy_lapsed_at FROM synced_contacts WHERE ghl_contact_id = 'ghl-5'",
+    ).first();
+    expect(record).toEqual({ sync_status: "suppressed", policy_lapsed_at: null });
+    expect(await env.DB.prepare("SELECT phone, source FROM suppressed_phones").first()).toEqual({
+      phone: "+15552345678",
+      source: "ghl_dnd",
+    });
+  });
+});
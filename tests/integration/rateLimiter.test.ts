@@ -0,0 +1,50 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { CallToolsClient } from "../../src/clients/calltools";
+import { callToolsRateLimiter } from "../../src/durableObjects/rateLimiter";
+
+describe("CallTools rate limiter", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should hand out the burst at once, then space permits by the rate", async () => {
+    const stub = env.CALLTOOLS_RATE_LIMITER.get(env.CALLTOOLS_RATE_LIMITER.idFromName("burst-test"));
+
+    const waits = [];
+    for (let i = 0; i < 4; i++) {
+      waits.push(await stub.reserve(2, 2));
+    }
+
+    expect(waits.slice(0, 2)).toEqual([0, 0]);
+    // Callers that reserved later wait longer, so they are served in order
+    expect(waits[2]).toBeGreaterThan(400);
+    expect(waits[3]).toBeGreaterThan(waits[2]);
+  });
+
+  it("should take a permit for every attempt, retries included", async () => {
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/ct-1/" })
+      .reply(429, "Too Many Requests", { headers: { "Retry-After": "0" } });
+    calltools.intercept({ path: "/v1/api/contacts/ct-1/" }).reply(200, { id: "ct-1", first_name: "Jane" });
+
+    let permits = 0;
+    const client = new CallToolsClient("calltools-key", undefined, {
+      rateLimiter: { acquire: async () => void permits++ },
+    });
+    await client.getContact("ct-1");
+
+    expect(permits).toBe(2);
+  });
+
+  it("should be disabled when the rate is 0", () => {
+    expect(callToolsRateLimiter({ ...env, CALLTOOLS_RATE_LIMIT_RPS: "0" }, null)).toBeUndefined();
+    expect(callToolsRateLimiter(env, null)).toBeDefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+function createService() {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+}
+
+async function insertSyncedContact(ghlContactId: string, callToolsContactId: string, isCustomer = 0) {
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status, is_customer) VALUES (?, ?, ?, ?)`,
+  )
+    .bind(ghlContactId, callToolsContactId, "synced", isCustomer)
+    .run();
+}
+
+function mockGhlContact(id: string, tags: string[]) {
+  fetchMock
+    .get("https://rest.gohighlevel.com")
+    .intercept({ path: `/v1/contacts/${id}` })
+    .reply(200, { contact: { id, name: "Jane Doe", phone: "+15552345678", tags } });
+}
+
+describe("Drift reconciliation", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should report bucket, tag and customer drift without changing anything", async () => {
+    await insertSyncedContact("ghl-1", "101");
+    await insertSyncedContact("ghl-2", "102");
+
+    mockGhlContact("ghl-1", ["cold lead"]);
+    mockGhlContact("ghl-2", ["customer"]);
+
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/101/" })
+      .reply(200, { id: "101", first_name: "Jane", buckets: [11252], tags: [{ id: 5, name: "ACA Active client" }] });
+    calltools.intercept({ path: "/v1/api/contacts/102/" }).reply(200, { id: "102", first_name: "Jane", buckets: [] });
+
+    const report = await createService().reconcileContacts(0, 10);
+
+    expect(report).toMatchObject({ checked: 2, drifted: 2, fixed: 0, failed: 0, next_after_id: null });
+    expect(report.contacts).toEqual([
+      {
+        contact_id: "ghl-1",
+        calltools_contact_id: "101",
+        rule: "ACA Cold Leads",
+        drift: [
+          { type: "missing_bucket", target: "11237", fixed: false },
+          { type: "stray_bucket", target: "11252", fixed: false },
+          { type: "missing_tag", target: "ACA Cold lead", fixed: false },
+        ],
+      },
+      {
+        contact_id: "ghl-2",
+        calltools_contact_id: "102",
+        rule: "Customers",
+        drift: [{ type: "customer_not_marked", target: null, fixed: false }],
+      },
+    ]);
+
+    const events = await env.DB.prepare(
+      "SELECT detail, message FROM sync_events WHERE event_type = 'drift_detected' ORDER BY id",
+    ).all();
+    expect(events.results).toEqual([
+      { detail: "missing_bucket", message: "11237" },
+      { detail: "stray_bucket", message: "11252" },
+      { detail: "missing_tag", message: "ACA Cold lead" },
+      { detail: "customer_not_marked", message: null },
+    ]);
+    const customer = await env.DB.prepare("SELECT is_customer FROM synced_contacts WHERE ghl_contact_id = 'ghl-2'")
+      .first<{ is_customer: number }>();
+    expect(customer!.is_customer).toBe(0);
+  });
+
+  it("should apply the minimal fixes in auto-fix mode", async () => {
+    await insertSyncedContact("ghl-1", "101");
+    mockGhlContact("ghl-1", ["cold lead"]);
+
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools
+      .intercept({ path: "/v1/api/contacts/101/" })
+      .reply(200, { id: "101", first_name: "Jane", buckets: [11252], tags: [7] });
+    calltools
+      .intercept({ path: "/v1/api/alltags/?name=ACA%20Cold%20lead" })
+      .reply(200, { results: [{ id: 9, name: "ACA Cold lead" }] });
+    calltools
+      .intercept({ path: "/v1/api/buckets/11237/", method: "PATCH", body: JSON.stringify({ add_contacts: [101] }) })
+      .reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/buckets/11252/", method: "PATCH", body: JSON.stringify({ remove_contacts: [101] }) })
+      .reply(200, {});
+    calltools
+      .intercept({ path: "/v1/api/contacts/101/", method: "PATCH", body: JSON.stringify({ add_tags: [9] }) })
+      .reply(200, { tags: [7, 9] });
+
+    const report = await createService().reconcileContacts(0, 10, true);
+
+    expect(report).toMatchObject({ checked: 1, drifted: 1, fixed: 3, failed: 0 });
+    expect(report.contacts[0].drift.every((drift) => drift.fixed)).toBe(true);
+
+    const fixes = await env.DB.prepare(
+      "SELECT event_type, detail FROM sync_events WHERE message = 'Drift fix' ORDER BY id",
+    ).all();
+    expect(fixes.results).toEqual([
+      { event_type: "bucket_added", detail: "11237" },
+      { event_type: "bucket_removed", detail: "11252" },
+      { event_type: "tag_added", detail: "ACA Cold lead" },
+    ]);
+  });
+
+  it("should report contacts missing from CallTools through the API", async () => {
+    await insertSyncedContact("ghl-1", "101");
+    await insertSyncedContact("ghl-2", "102");
+    mockGhlContact("ghl-1", ["cold lead"]);
+
+    fetchMock
+      .get("https://east-1.calltools.io")
+      .intercept({ path: "/api/contacts/101/" })
+      .reply(404, "Not found");
+
+    const response = await worker.fetch(
+      new Request("http://local.test/sync/reconcile?limit=1", { method: "POST" }),
+      { ...env, GHL_API_KEY: "ghl-key", CALLTOOLS_API_KEY: "calltools-key" },
+      createExecutionContext(),
+    );
+    const body = await response.json<{ data: any }>();
+
+    expect(response.status).toBe(200);
+    expect(body.data.next_after_id).toBe(1);
+    expect(body.data.contacts[0].drift).toEqual([{ type: "missing_calltools_contact", target: null, fixed: false }]);
+  });
+});
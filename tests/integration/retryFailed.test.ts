@@ -0,0 +1,143 @@
+import { createExecutionContext, env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+function createService() {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+}
+
+async function insertFailedContact(ghlContactId: string, retryAttempts = 0, nextRetryAt: string | null = null) {
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (ghl_contact_id, sync_status, error_message, retry_attempts, next_retry_at) VALUES (?, ?, ?, ?, ?)`,
+  )
+    .bind(ghlContactId, "failed", "CallTools API error: 503 - Service Unavailable", retryAttempts, nextRetryAt)
+    .run();
+}
+
+function mockGhlContact(id: string, contact: Record<string, unknown>) {
+  fetchMock
+    .get("https://rest.gohighlevel.com")
+    .intercept({ path: `/v1/contacts/${id}` })
+    .reply(200, { contact: { id, name: "Jane Doe", ...contact } });
+}
+
+// GHL asks to wait longer than the transport retries for, so the sync fails but can be retried later
+function mockGhlRateLimited(id: string) {
+  fetchMock
+    .get("https://rest.gohighlevel.com")
+    .intercept({ path: `/v1/contacts/${id}` })
+    .reply(429, "Too Many Requests", { headers: { "Retry-After": "3600" } });
+}
+
+async function getRecord(ghlContactId: string) {
+  return env.DB.prepare("SELECT sync_status, retry_attempts, next_retry_at FROM synced_contacts WHERE ghl_contact_id = ?")
+    .bind(ghlContactId)
+    .first<{ sync_status: string; retry_attempts: number; next_retry_at: string | null }>();
+}
+
+describe("Failed contact retries", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should retry due failures and back off the ones that fail again", async () => {
+    await insertFailedContact("ghl-1");
+    await insertFailedContact("ghl-2", 2, "2026-01-01T00:00:00.000Z");
+    await insertFailedContact("ghl-3", 1, "2999-01-01T00:00:00.000Z");
+
+    mockGhlContact("ghl-1", { phone: "+15552345678", tags: ["customer"] });
+    mockGhlRateLimited("ghl-2");
+
+    const before = Date.now();
+    const result = await createService().retryFailedContacts(10, 5, 15);
+
+    expect(result).toMatchObject({ attempted: 2, recovered: 1, retrying: 1, failed_permanently: 0 });
+    expect(result.contacts.map(({ next_retry_at, ...contact }) => contact)).toEqual([
+      { contact_id: "ghl-1", attempt: 1, outcome: "recovered", action: "excluded" },
+      { contact_id: "ghl-2", attempt: 3, outcome: "retrying", action: "failed", error: expect.stringContaining("429") },
+    ]);
+
+    expect(await getRecord("ghl-1")).toEqual({ sync_status: "excluded", retry_attempts: 0, next_retry_at: null });
+
+    // Third retry waits 15 * 2^2 = 60 minutes
+    const retrying = await getRecord("ghl-2");
+    expect(retrying).toMatchObject({ sync_status: "failed", retry_attempts: 3 });
+    expect(Date.parse(retrying!.next_retry_at!) - before).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    expect(Date.parse(retrying!.next_retry_at!) - before).toBeLessThan(61 * 60 * 1000);
+
+    expect(await getRecord("ghl-3")).toMatchObject({ retry_attempts: 1, next_retry_at: "2999-01-01T00:00:00.000Z" });
+  });
+
+  it("should take a recovered contact that no longer matches a rule out of the failed set", async () => {
+    await insertFailedContact("ghl-6", 2, "2026-01-01T00:00:00.000Z");
+    mockGhlContact("ghl-6", { phone: "+15552345678", tags: ["newsletter"] });
+
+    const first = await createService().retryFailedContacts(10, 5, 15);
+    expect(first).toMatchObject({ attempted: 1, recovered: 1 });
+    expect(await getRecord("ghl-6")).toEqual({ sync_status: "excluded", retry_attempts: 0, next_retry_at: null });
+
+    // Nothing left to retry, so GHL isn't called again
+    const second = await createService().retryFailedContacts(10, 5, 15);
+    expect(second).toMatchObject({ attempted: 0, recovered: 0 });
+  });
+
+  it("should give up after the last attempt or an error retrying won't fix", async () => {
+    await insertFailedContact("ghl-4", 4);
+    await insertFailedContact("ghl-5");
+
+    mockGhlRateLimited("ghl-4");
+    fetchMock.get("https://rest.gohighlevel.com").intercept({ path: "/v1/contacts/ghl-5" }).reply(404, "Not found");
+
+    const result = await createService().retryFailedContacts(10, 5, 15);
+
+    expect(result).toMatchObject({ attempted: 2, recovered: 0, retrying: 0, failed_permanently: 2 });
+    expect(await getRecord("ghl-4")).toEqual({ sync_status: "failed_permanently", retry_attempts: 5, next_retry_at: null });
+    expect(await getRecord("ghl-5")).toEqual({ sync_status: "failed_permanently", retry_attempts: 1, next_retry_at: null });
+
+    const event = await env.DB.prepare(
+      "SELECT detail, message FROM sync_events WHERE ghl_contact_id = 'ghl-4' AND detail = 'failed_permanently'",
+    ).first<{ detail: string; message: string }>();
+    expect(event!.message).toMatch(/^Gave up after 5 retries: /);
+
+    const stats = await createService().getSyncStats();
+    expect(stats).toMatchObject({ failed: 0, failed_permanently: 2 });
+  });
+
+  it("should fail contacts with an invalid phone permanently without retrying them", async () => {
+    mockGhlContact("ghl-7", { phone: "123", tags: ["cold lead"] });
+
+    const outcome = await createService().syncSingleContact("ghl-7");
+
+    expect(outcome).toMatchObject({ success: false, action: "failed", retryable: false });
+    expect(await getRecord("ghl-7")).toEqual({ sync_status: "failed_permanently", retry_attempts: 0, next_retry_at: null });
+
+    await insertFailedContact("ghl-8");
+    mockGhlContact("ghl-8", { phone: "123", tags: ["cold lead"] });
+
+    const result = await createService().retryFailedContacts(10, 5, 15);
+
+    expect(result).toMatchObject({ attempted: 1, recovered: 0, retrying: 0, failed_permanently: 1 });
+    expect(await getRecord("ghl-8")).toEqual({ sync_status: "failed_permanently", retry_attempts: 1, next_retry_at: null });
+  });
+
+  it("should summarize a retry run through the API", async () => {
+    await insertFailedContact("ghl-6");
+    mockGhlContact("ghl-6", { phone: "+15552345678", tags: ["customer"] });
+
+    const response = await worker.fetch(
+      new Request("http://local.test/sync/retry-failed", { method: "POST" }),
+      { ...env, GHL_API_KEY: "ghl-key", CALLTOOLS_API_KEY: "calltools-key" },
+      createExecutionContext(),
+    );
+    const body = await response.json<{ success: boolean; data: Record<string, unknown> }>();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ attempted: 1, recovered: 1, retrying: 0, failed_permanently: 0 });
+  });
+});
@@ -0,0 +1,135 @@
+import { SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Helper function to create a segment rule and return its ID
+async function createRule(ruleData: any) {
+  const response = await SELF.fetch(`http://local.test/sync/rules`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ruleData),
+  });
+  const body = await response.json<{
+    success: boolean;
+    result: { id: number };
+  }>();
+  return body.result.id;
+}
+
+describe("Segment Rules API Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET /sync/rules", () => {
+    it("should list the seeded rules in priority order", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/rules`);
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result.map((rule: any) => rule.name)).toEqual([
+        "ACA Active Clients",
+        "Customers",
+        "ACA Cold Leads",
+      ]);
+      expect(body.result[0]).toEqual(
+        expect.objectContaining({
+          calltools_bucket_id: "11252",
+          remove_bucket_ids: "11237",
+          mark_customer: true,
+          enabled: true,
+        }),
+      );
+    });
+  });
+
+  describe("POST /sync/rules", () => {
+    it("should create a rule with column defaults", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Medicare Leads",
+          match_tags: "medicare lead",
+          calltools_bucket_id: "12000",
+          calltools_tag: "Medicare lead",
+        }),
+      });
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(201);
+      expect(body.success).toBe(true);
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          id: expect.any(Number),
+          name: "Medicare Leads",
+          priority: 100,
+          match_mode: "contains",
+          action: "sync",
+          mark_customer: false,
+          enabled: true,
+        }),
+      );
+    });
+
+    it("should return a 400 error for an unknown action", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Broken",
+          match_tags: "broken",
+          action: "delete",
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("PUT /sync/rules/{id}", () => {
+    it("should disable a rule", async () => {
+      const ruleId = await createRule({
+        name: "Medicare Leads",
+        match_tags: "medicare lead",
+      });
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/rules/${ruleId}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Medicare Leads",
+            match_tags: "medicare lead",
+            enabled: false,
+          }),
+        },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result.enabled).toBe(false);
+    });
+  });
+
+  describe("DELETE /sync/rules/{id}", () => {
+    it("should delete a rule", async () => {
+      const ruleId = await createRule({
+        name: "Temporary",
+        match_tags: "temp",
+      });
+
+      const deleteResponse = await SELF.fetch(
+        `http://local.test/sync/rules/${ruleId}`,
+        { method: "DELETE" },
+      );
+      expect(deleteResponse.status).toBe(200);
+
+      const getResponse = await SELF.fetch(
+        `http://local.test/sync/rules/${ruleId}`,
+      );
+      expect(getResponse.status).toBe(404);
+    });
+  });
+});
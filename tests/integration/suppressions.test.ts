@@ -0,0 +1,159 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  fetchMock,
+  getQueueResult,
+  SELF,
+} from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+function createService() {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+}
+
+async function suppress(phone: string, reason?: string) {
+  return SELF.fetch(`http://local.test/sync/suppressions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone, reason }),
+  });
+}
+
+describe("Suppression List", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should normalize, reject duplicates and reject invalid phones", async () => {
+    const created = await suppress("(555) 234-5678", "Asked not to be called");
+    const body = await created.json<{ success: boolean; result: any }>();
+
+    expect(created.status).toBe(201);
+    expect(body.result).toMatchObject({
+      phone: "+15552345678",
+      source: "manual",
+      reason: "Asked not to be called",
+    });
+
+    expect((await suppress("555.234.5678")).status).toBe(409);
+    expect((await suppress("123")).status).toBe(400);
+
+    const list = await SELF.fetch(`http://local.test/sync/suppressions?source=manual`);
+    const listBody = await list.json<{ result: any[] }>();
+    expect(listBody.result.map((entry: any) => entry.phone)).toEqual(["+15552345678"]);
+  });
+
+  it("should report imported, existing and invalid entries", async () => {
+    await suppress("(555) 234-5678");
+
+    const response = await SELF.fetch(`http://local.test/sync/suppressions/import`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        entries: [
+          { phone: "+1 555 234 5678" },
+          { phone: "555-876-5432", reason: "DNC registry", suppressed_at: "2026-01-02 00:00:00" },
+          { phone: "not a phone" },
+        ],
+      }),
+    });
+    const body = await response.json<{ result: any }>();
+
+    expect(response.status).toBe(200);
+    expect(body.result).toMatchObject({ imported: 1, already_suppressed: 1, queued_contacts: 0 });
+    expect(body.result.invalid).toHaveLength(1);
+
+    const imported = await env.DB.prepare(`SELECT * FROM suppressed_phones WHERE phone = ?`)
+      .bind("+15558765432")
+      .first<{ source: string; suppressed_at: string }>();
+    expect(imported).toMatchObject({ source: "import", suppressed_at: "2026-01-02 00:00:00" });
+  });
+
+  it("should plan a suppressed contact out of every managed bucket", async () => {
+    await suppress("(555) 234-5678", "Asked not to be called");
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+    )
+      .bind("ghl-1", "101", "synced")
+      .run();
+
+    const plan = await createService().planGhlContact({
+      id: "ghl-1",
+      name: "Ann Lee",
+      phone: "(555) 234-5678",
+      tags: [`ACA Active ${new Date().getUTCFullYear()}`],
+    });
+
+    expect(plan).toMatchObject({
+      action: "excluded",
+      calltools_contact_id: "101",
+      reason: "Phone is on the suppression list (Asked not to be called)",
+      operations: [
+        { type: "exclude", target: null },
+        { type: "move_bucket", target: null, from: ["11252", "11237"] },
+      ],
+    });
+  });
+
+  it("should exclude contacts with DND enabled in GHL", async () => {
+    const plan = await createService().planGhlContact({
+      id: "ghl-2",
+      name: "No Calls",
+      dnd: true,
+      tags: ["Cold Lead"],
+    });
+
+    expect(plan.reason).toBe("DND enabled in GoHighLevel");
+    expect(plan.operations).toEqual([{ type: "exclude", target: null }]);
+  });
+
+  it("should pull a DND contact from the dialer when its webhook is processed", async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+    )
+      .bind("ghl-3", "101", "synced")
+      .run();
+    for (const bucketId of ["11252", "11237"]) {
+      fetchMock
+        .get("https://east-1.calltools.io")
+        .intercept({ path: `/api/buckets/${bucketId}/`, method: "PATCH" })
+        .reply(200, {});
+    }
+
+    const batch = createMessageBatch("ghl-webhook-sync", [
+      {
+        id: "msg-dnd",
+        timestamp: new Date(),
+        attempts: 1,
+        body: {
+          source: "webhook",
+          ghl_contact_id: "ghl-3",
+          payload: { id: "ghl-3", phone: "(555) 234-5678", dnd: true, tags: "Cold Lead" },
+          received_at: new Date().toISOString(),
+        },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, { ...env, CALLTOOLS_API_KEY: "calltools-key" }, ctx);
+
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["msg-dnd"]);
+
+    const record = await env.DB.prepare(`SELECT * FROM synced_contacts WHERE ghl_contact_id = ?`)
+      .bind("ghl-3")
+      .first<{ sync_status: string }>();
+    expect(record!.sync_status).toBe("suppressed");
+
+    const suppression = await env.DB.prepare(`SELECT * FROM suppressed_phones WHERE phone = ?`)
+      .bind("+15552345678")
+      .first<{ source: string; ghl_contact_id: string }>();
+    expect(suppression).toMatchObject({ source: "ghl_dnd", ghl_contact_id: "ghl-3" });
+  });
+});
@@ -0,0 +1,83 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Helper function to insert a sync event directly
+async function insertEvent(event: Record<string, string | number | null>) {
+  const columns = Object.keys(event);
+  await env.DB.prepare(
+    `INSERT INTO sync_events (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+  )
+    .bind(...Object.values(event))
+    .run();
+}
+
+describe("Sync Events API Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET /sync/contacts/{ghl_contact_id}/history", () => {
+    it("should return a contact's events oldest first", async () => {
+      await insertEvent({
+        ghl_contact_id: "ghl-1",
+        event_type: "classified",
+        detail: "ACA Cold Leads",
+      });
+      await insertEvent({
+        ghl_contact_id: "ghl-1",
+        calltools_contact_id: "ct-1",
+        event_type: "bucket_added",
+        detail: "11237",
+        response_status: 200,
+      });
+      await insertEvent({
+        ghl_contact_id: "ghl-1",
+        calltools_contact_id: "ct-1",
+        event_type: "tag_added",
+        detail: "ACA Cold lead",
+        status: "failed",
+        response_status: 422,
+        message: "Tag not found",
+      });
+      await insertEvent({ ghl_contact_id: "ghl-2", event_type: "classified" });
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/contacts/ghl-1/history`,
+      );
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.result.map((event: any) => event.event_type)).toEqual([
+        "classified",
+        "bucket_added",
+        "tag_added",
+      ]);
+      expect(body.result[2]).toEqual(
+        expect.objectContaining({
+          calltools_contact_id: "ct-1",
+          status: "failed",
+          response_status: 422,
+          message: "Tag not found",
+        }),
+      );
+    });
+
+    it("should keep only the most recent events when limited", async () => {
+      for (const eventType of ["classified", "contact_updated", "tag_removed"]) {
+        await insertEvent({ ghl_contact_id: "ghl-1", event_type: eventType });
+      }
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/contacts/ghl-1/history?limit=2`,
+      );
+      const body = await response.json<{ success: boolean; result: any[] }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result.map((event: any) => event.event_type)).toEqual([
+        "contact_updated",
+        "tag_removed",
+      ]);
+    });
+  });
+});
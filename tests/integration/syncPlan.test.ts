@@ -0,0 +1,155 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+
+function createService() {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+}
+
+async function countRows(table: string) {
+  const row = await env.DB.prepare(`SELECT COUNT(*) as count FROM ${table}`).first<{ count: number }>();
+  return row!.count;
+}
+
+describe("Sync Plan (dry run)", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should plan an exclusion without marking the contact", async () => {
+    const plan = await createService().planGhlContact({
+      id: "ghl-1",
+      name: "Won Deal",
+      phone: "(555) 234-5678",
+      tags: ["Customer"],
+    });
+
+    expect(plan).toEqual({
+      contact_id: "ghl-1",
+      rule: "Customers",
+      action: "excluded",
+      calltools_contact_id: null,
+      matched_by: null,
+      operations: [
+        { type: "exclude", target: null },
+        { type: "mark_customer", target: null },
+      ],
+    });
+    expect(await countRows("synced_contacts")).toBe(0);
+  });
+
+  it("should plan a bucket move and tag swap for an existing CallTools contact", async () => {
+    fetchMock
+      .get("https://api.calltools.com")
+      .intercept({ path: "/v1/api/contacts/?phone_number=%2B15552345678" })
+      .reply(200, { results: [{ id: "ct-9", first_name: "Ann", last_name: "Lee" }] });
+
+    const plan = await createService().planGhlContact({
+      id: "ghl-2",
+      name: "Ann Lee",
+      phone: "(555) 234-5678",
+      tags: [`ACA Active ${new Date().getUTCFullYear()}`],
+    });
+
+    expect(plan).toEqual({
+      contact_id: "ghl-2",
+      rule: "ACA Active Clients",
+      action: "updated",
+      calltools_contact_id: "ct-9",
+      matched_by: "phone",
+      operations: [
+        { type: "update", target: null },
+        { type: "move_bucket", target: "11252", from: ["11237"] },
+        { type: "add_tag", target: "ACA Active client" },
+        { type: "remove_tag", target: "ACA Cold lead" },
+        { type: "mark_customer", target: null },
+      ],
+    });
+    expect(await countRows("synced_contacts")).toBe(0);
+    expect(await countRows("sync_events")).toBe(0);
+  });
+
+  it("should repair a stale mapping and fall back to an email match", async () => {
+    await env.DB.prepare(
+      `INSERT INTO synced_contacts (ghl_contact_id, calltools_contact_id, sync_status) VALUES (?, ?, ?)`,
+    )
+      .bind("ghl-5", "ct-deleted", "synced")
+      .run();
+
+    const calltools = fetchMock.get("https://api.calltools.com");
+    calltools.intercept({ path: "/v1/api/contacts/ct-deleted/" }).reply(404, "Not found");
+    calltools
+      .intercept({ path: "/v1/api/contacts/?phone_number=%2B15552345678" })
+      .reply(200, { results: [] });
+    calltools
+      .intercept({ path: "/v1/api/contacts/?email=sam%40example.com" })
+      .reply(200, {
+        results: [
+          { id: "ct-other", first_name: "Sammy", personal_email_address: "sammy@example.com" },
+          { id: "ct-12", first_name: "Sam", personal_email_address: "Sam@Example.com" },
+        ],
+      });
+
+    const plan = await createService().planGhlContact({
+      id: "ghl-5",
+      name: "Sam Park",
+      phone: "555-234-5678",
+      email: "sam@example.com",
+      tags: ["cold lead"],
+    });
+
+    expect(plan.calltools_contact_id).toBe("ct-12");
+    expect(plan.matched_by).toBe("email");
+    expect(plan.operations.slice(0, 2)).toEqual([
+      { type: "repair_mapping", target: "ct-deleted" },
+      { type: "update", target: null },
+    ]);
+  });
+
+  it("should fail rather than plan a create when the phone search errors", async () => {
+    fetchMock
+      .get("https://api.calltools.com")
+      .intercept({ path: "/v1/api/contacts/?phone_number=%2B15552345678" })
+      .reply(503, "Service Unavailable")
+      .times(3);
+
+    const plan = await createService().planGhlContact({
+      id: "ghl-6",
+      name: "Outage",
+      phone: "555-234-5678",
+      tags: ["cold lead"],
+    });
+
+    expect(plan.action).toBe("failed");
+    expect(plan.reason).toBe("CallTools API error: 503 - Service Unavailable");
+  });
+
+  it("should plan a failure for a contact without a phone number", async () => {
+    const plan = await createService().planGhlContact({
+      id: "ghl-3",
+      name: "No Phone",
+      tags: ["cold lead"],
+    });
+
+    expect(plan.action).toBe("failed");
+    expect(plan.reason).toBe("No phone number");
+    expect(plan.operations).toEqual([]);
+  });
+
+  it("should plan a failure for an invalid phone number", async () => {
+    const plan = await createService().planGhlContact({
+      id: "ghl-4",
+      name: "Bad Phone",
+      phone: "555-0100",
+      tags: ["cold lead"],
+    });
+
+    expect(plan.action).toBe("failed");
+    expect(plan.reason).toBe('Invalid phone number: "555-0100" is not a valid US phone number');
+  });
+});
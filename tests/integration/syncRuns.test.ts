@@ -0,0 +1,111 @@
+import { createExecutionContext, env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import worker from "../../src/index";
+
+// Helper function to insert a sync run directly and return its ID
+async function insertRun(run: Record<string, string | number | null>) {
+  const columns = Object.keys(run);
+  const inserted = await env.DB.prepare(
+    `INSERT INTO sync_runs (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")}) RETURNING id`,
+  )
+    .bind(...Object.values(run))
+    .first<{ id: number }>();
+  return inserted!.id;
+}
+
+describe("Sync Runs API Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET /sync/runs/{id}", () => {
+    it("should report progress for a running run", async () => {
+      const runId = await insertRun({
+        status: "running",
+        cursor_offset: 50,
+        total_contacts: 200,
+        total_processed: 50,
+        synced: 40,
+        held: 3,
+      });
+
+      const response = await SELF.fetch(`http://local.test/sync/runs/${runId}`);
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          id: runId,
+          status: "running",
+          synced: 40,
+          held: 3,
+          progress: 25,
+        }),
+      );
+    });
+
+    it("should return 404 for an unknown run", async () => {
+      const response = await SELF.fetch(`http://local.test/sync/runs/9999`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /sync/runs/{id}/pause", () => {
+    it("should pause a running run", async () => {
+      const runId = await insertRun({ status: "running" });
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/runs/${runId}/pause`,
+        { method: "POST" },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result.status).toBe("paused");
+    });
+
+    it("should leave a completed run untouched", async () => {
+      const runId = await insertRun({ status: "completed" });
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/runs/${runId}/pause`,
+        { method: "POST" },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(body.result.status).toBe("completed");
+      expect(body.result.progress).toBe(100);
+    });
+  });
+
+  describe("POST /sync/runs/{id}/resume", () => {
+    it("should refuse to resume a completed run", async () => {
+      const runId = await insertRun({ status: "completed" });
+
+      const response = await SELF.fetch(
+        `http://local.test/sync/runs/${runId}/resume`,
+        { method: "POST" },
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should refuse to resume a run whose chunk is still in flight", async () => {
+      const lockedUntil = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+      const runId = await insertRun({ status: "paused", cursor_offset: 200, locked_until: lockedUntil });
+
+      const response = await worker.fetch(
+        new Request(`http://local.test/sync/runs/${runId}/resume`, { method: "POST" }),
+        { ...env, GHL_API_KEY: "ghl-key", CALLTOOLS_API_KEY: "calltools-key" },
+        createExecutionContext(),
+      );
+
+      expect(response.status).toBe(409);
+      const run = await env.DB.prepare("SELECT status, cursor_offset, locked_until FROM sync_runs WHERE id = ?")
+        .bind(runId)
+        .first();
+      expect(run).toEqual({ status: "paused", cursor_offset: 200, locked_until: lockedUntil });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Helper function to insert a synced contact directly
+async function insertContact(contact: Record<string, string | number | null>) {
+  const columns = Object.keys(contact);
+  await env.DB.prepare(
+    `INSERT INTO synced_contacts (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+  )
+    .bind(...Object.values(contact))
+    .run();
+}
+
+async function listContacts(query: string) {
+  const response = await SELF.fetch(`http://local.test/sync/contacts?${query}`);
+  expect(response.status).toBe(200);
+  return response.json<{ result: Array<{ ghl_contact_id: string }>; result_info: { total_count: number } }>();
+}
+
+describe("Synced Contacts API Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    await insertContact({
+      ghl_contact_id: "ghl-1",
+      calltools_contact_id: "101",
+      first_name: "Ann",
+      last_name: "Lee",
+      phone: "+15552345678",
+      email: "ann@example.com",
+      sync_status: "synced",
+      last_sync_at: "2026-10-01T10:00:00.000Z",
+      is_customer: 0,
+    });
+    await insertContact({
+      ghl_contact_id: "ghl-2",
+      first_name: "Bob",
+      phone: "+15553456789",
+      sync_status: "failed",
+      last_sync_at: "2026-10-05T10:00:00.000Z",
+      error_message: "CallTools API error: 422 - Invalid phone number",
+      is_customer: 0,
+    });
+    await insertContact({
+      ghl_contact_id: "ghl-3",
+      calltools_contact_id: "103",
+      first_name: "Cara",
+      email: "cara@example.com",
+      sync_status: "excluded",
+      last_sync_at: "2026-10-10T10:00:00.000Z",
+      is_customer: 1,
+    });
+  });
+
+  describe("GET /sync/contacts", () => {
+    it("should filter by status and customer flag and search names, phones and emails", async () => {
+      expect((await listContacts("sync_status=failed")).result.map((c) => c.ghl_contact_id)).toEqual(["ghl-2"]);
+      expect((await listContacts("is_customer=true")).result.map((c) => c.ghl_contact_id)).toEqual(["ghl-3"]);
+      expect((await listContacts("search=5552345678")).result.map((c) => c.ghl_contact_id)).toEqual(["ghl-1"]);
+      expect((await listContacts("search=cara%40example")).result.map((c) => c.ghl_contact_id)).toEqual(["ghl-3"]);
+
+      const body = await listContacts("search=lee");
+      expect(body.result).toEqual([
+        expect.objectContaining({ ghl_contact_id: "ghl-1", is_customer: false, sync_status: "synced" }),
+      ]);
+    });
+
+    it("should filter by sync date range and error text", async () => {
+      const inRange = await listContacts("synced_after=2026-10-02&synced_before=2026-10-11");
+      expect(inRange.result.map((c) => c.ghl_contact_id)).toEqual(["ghl-3", "ghl-2"]);
+
+      const failed = await listContacts("error=invalid%20phone");
+      expect(failed.result.map((c) => c.ghl_contact_id)).toEqual(["ghl-2"]);
+    });
+
+    it("should order and paginate", async () => {
+      const firstPage = await listContacts("per_page=2");
+      expect(firstPage.result.map((c) => c.ghl_contact_id)).toEqual(["ghl-3", "ghl-2"]);
+      expect(firstPage.result_info.total_count).toBe(3);
+
+      const secondPage = await listContacts("per_page=2&page=2");
+      expect(secondPage.result.map((c) => c.ghl_contact_id)).toEqual(["ghl-1"]);
+
+      const oldestFirst = await listContacts("order_by=last_sync_at&order_by_direction=asc");
+      expect(oldestFirst.result.map((c) => c.ghl_contact_id)).toEqual(["ghl-1", "ghl-2", "ghl-3"]);
+    });
+  });
+
+  describe("GET /sync/contacts/{ghl_contact_id}", () => {
+    it("should return a single synced contact", async () => {
+      const response = await SELF.fetch("http://local.test/sync/contacts/ghl-1");
+      const body = await response.json<{ success: boolean; result: Record<string, unknown> }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result).toMatchObject({
+        ghl_contact_id: "ghl-1",
+        calltools_contact_id: "101",
+        email: "ann@example.com",
+        is_customer: false,
+      });
+    });
+
+    it("should return 404 for an unknown contact", async () => {
+      const response = await SELF.fetch("http://local.test/sync/contacts/ghl-unknown");
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /sync/contacts/export.csv", () => {
+    it("should stream the filtered contacts as CSV", async () => {
+      const response = await SELF.fetch("http://local.test/sync/contacts/export.csv?synced_after=2026-10-02");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+      expect(response.headers.get("Content-Disposition")).toMatch(/^attachment; filename="synced-contacts-\d{4}-\d{2}-\d{2}\.csv"$/);
+
+      const [header, ...rows] = (await response.text()).trimEnd().split("\r\n");
+      expect(header.split(",").slice(0, 8)).toEqual([
+        "ghl_contact_id",
+        "calltools_contact_id",
+        "first_name",
+        "last_name",
+        "phone",
+        "email",
+        "sync_status",
+        "is_customer",
+      ]);
+      expect(rows.map((row) => row.split(",")[0])).toEqual(["ghl-2", "ghl-3"]);
+      expect(rows[1]).toMatch(/^ghl-3,103,Cara,,,cara@example.com,excluded,true,/);
+    });
+  });
+});
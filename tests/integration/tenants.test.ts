@@ -0,0 +1,171 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  createScheduledController,
+  env,
+  fetchMock,
+  getQueueResult,
+  SELF,
+} from "cloudflare:test";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import worker from "../../src/index";
+import { RETRY_FAILED_CRON, handleScheduled } from "../../src/scheduled";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+import { SegmentRuleService } from "../../src/services/segmentRuleService";
+
+async function createTenant() {
+  const tenant = await env.DB.prepare(
+    `INSERT INTO tenants (name, ghl_location_id, ghl_api_key_secret, calltools_api_key_secret, calltools_base_url)
+     VALUES (?, ?, ?, ?, ?) RETURNING id`,
+  )
+    .bind("Agency A", "loc-a", "TENANT_A_GHL_API_KEY", "TENANT_A_CALLTOOLS_API_KEY", "https://tenant-a.calltools.io")
+    .first<{ id: number }>();
+  return tenant!.id;
+}
+
+describe("Tenants", () => {
+  let tenantId: number;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  beforeEach(async () => {
+    tenantId = await createTenant();
+    await env.DB.prepare(
+      `INSERT INTO segment_rules (name, priority, match_mode, match_tags, action, calltools_bucket_id, tenant_id)
+       VALUES ('Agency A Leads', 1, 'exact', 'agency lead', 'sync', '900', ?)`,
+    )
+      .bind(tenantId)
+      .run();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should route webhooks to the tenant for their location", async () => {
+    const response = await SELF.fetch(`http://local.test/webhook/ghl?dry_run=true`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type: "ContactTagUpdate", contact_id: "ghl-1", locationId: "loc-a" }),
+    });
+    const body = await response.json<{ message: string }>();
+
+    // The tenant's secrets aren't set in the test environment
+    expect(response.status).toBe(500);
+    expect(body.message).toBe('GHL API key secret "TENANT_A_GHL_API_KEY" for tenant "Agency A" is not configured');
+  });
+
+  it("should refuse webhooks from disabled tenants and unknown locations", async () => {
+    await env.DB.prepare("UPDATE tenants SET enabled = 0 WHERE id = ?").bind(tenantId).run();
+    const send = (locationEnv: Env, locationId: string) =>
+      worker.fetch(
+        new Request("http://local.test/webhook/ghl", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: "ContactTagUpdate", contact_id: "ghl-1", locationId }),
+        }),
+        locationEnv,
+        createExecutionContext(),
+      );
+
+    const disabled = await send(env, "loc-a");
+    expect(disabled.status).toBe(403);
+    expect((await disabled.json<{ message: string }>()).message).toBe('Tenant "Agency A" for location loc-a is disabled');
+
+    const unknown = await send({ ...env, GHL_LOCATION_ID: "loc-default" }, "loc-unknown");
+    expect(unknown.status).toBe(404);
+  });
+
+  it("should only apply a tenant's rules to that tenant", async () => {
+    const shared = await new SegmentRuleService(env.DB).classify(["agency lead"]);
+    const scoped = await new SegmentRuleService(env.DB, tenantId).classify(["agency lead"]);
+
+    expect(shared).toBeNull();
+    expect(scoped!.name).toBe("Agency A Leads");
+    expect(await new SegmentRuleService(env.DB, tenantId).getManagedBucketIds()).toContain("900");
+  });
+
+  it("should sync queued jobs with the tenant's credentials", async () => {
+    const calltools = fetchMock.get("https://tenant-a.calltools.io");
+    calltools
+      .intercept({
+        path: "/api/contacts/?phone_number=%2B15552345678",
+        headers: { Authorization: "Token tenant-a-calltools" },
+      })
+      .reply(200, { results: [] });
+    calltools.intercept({ path: "/api/contacts/", method: "POST" }).reply(201, { id: "101", first_name: "Ann" });
+    calltools.intercept({ path: "/api/buckets/900/", method: "PATCH" }).reply(200, {});
+
+    const batch = createMessageBatch("ghl-webhook-sync", [
+      {
+        id: "msg-tenant",
+        timestamp: new Date(),
+        attempts: 1,
+        body: {
+          source: "webhook",
+          ghl_contact_id: "ghl-1",
+          payload: { contact_id: "ghl-1", first_name: "Ann", phone: "(555) 234-5678", tags: "agency lead" },
+          tenant_id: tenantId,
+          received_at: new Date().toISOString(),
+        },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(
+      batch,
+      { ...env, TENANT_A_GHL_API_KEY: "tenant-a-ghl", TENANT_A_CALLTOOLS_API_KEY: "tenant-a-calltools" },
+      ctx,
+    );
+
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["msg-tenant"]);
+
+    const record = await env.DB.prepare(`SELECT * FROM synced_contacts WHERE ghl_contact_id = ?`)
+      .bind("ghl-1")
+      .first<{ tenant_id: number; calltools_contact_id: string }>();
+    expect(record).toMatchObject({ tenant_id: tenantId, calltools_contact_id: "101" });
+  });
+
+  it("should report stats per tenant", async () => {
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO synced_contacts (ghl_contact_id, sync_status, tenant_id) VALUES ('ghl-a', 'synced', ?)`,
+      ).bind(tenantId),
+      env.DB.prepare(`INSERT INTO synced_contacts (ghl_contact_id, sync_status) VALUES ('ghl-default', 'synced')`),
+    ]);
+
+    const service = new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB);
+    expect((await service.getSyncStats(tenantId)).total_contacts).toBe(1);
+    expect((await service.getSyncStats()).total_contacts).toBe(2);
+  });
+
+  it("should run scheduled jobs for each enabled tenant", async () => {
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO synced_contacts (ghl_contact_id, sync_status, tenant_id) VALUES ('ghl-a', 'failed', ?)`,
+      ).bind(tenantId),
+      env.DB.prepare(`INSERT INTO synced_contacts (ghl_contact_id, sync_status) VALUES ('ghl-default', 'failed')`),
+    ]);
+
+    fetchMock
+      .get("https://rest.gohighlevel.com")
+      .intercept({ path: "/v1/contacts/ghl-a", headers: { Authorization: "Bearer tenant-a-ghl" } })
+      .reply(200, { contact: { id: "ghl-a", name: "Ann Lee", phone: "+15552345678", tags: ["customer"] } });
+
+    // Only the tenant is configured, so the default account's contact is left alone
+    await handleScheduled(createScheduledController({ cron: RETRY_FAILED_CRON }), {
+      ...env,
+      GHL_API_KEY: undefined,
+      TENANT_A_GHL_API_KEY: "tenant-a-ghl",
+      TENANT_A_CALLTOOLS_API_KEY: "tenant-a-calltools",
+    });
+
+    const records = await env.DB.prepare("SELECT ghl_contact_id, sync_status FROM synced_contacts ORDER BY id").all();
+    expect(records.results).toEqual([
+      { ghl_contact_id: "ghl-a", sync_status: "excluded" },
+      { ghl_contact_id: "ghl-default", sync_status: "failed" },
+    ]);
+  });
+});
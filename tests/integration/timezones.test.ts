@@ -0,0 +1,109 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { ContactSyncService } from "../../src/services/contactSyncService";
+import { inferTimezone, nextWindowOpening, parseCallingWindow } from "../../src/utils/timezone";
+
+function createService(callingWindow?: string) {
+  return new ContactSyncService("ghl-key", "calltools-key", undefined, env.DB, "US", callingWindow);
+}
+
+describe("Contact time zones", () => {
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  it("should prefer the GHL time zone, then the state, then the area code", () => {
+    expect(inferTimezone({ timezone: "America/Phoenix", state: "CA", phone: "+13102345678" })).toEqual({
+      timezone: "America/Phoenix",
+      source: "ghl",
+    });
+    expect(inferTimezone({ timezone: "Not/AZone", state: "California" })).toEqual({
+      timezone: "America/Los_Angeles",
+      source: "state",
+    });
+    expect(inferTimezone({ state: "CA", country: "GB", phone: "+13102345678" })).toEqual({
+      timezone: "America/Los_Angeles",
+      source: "area_code",
+    });
+    expect(inferTimezone({ phone: "+19152345678" })).toEqual({ timezone: "America/Denver", source: "area_code" });
+    expect(inferTimezone({ phone: "+15552345678" })).toBeNull();
+  });
+
+  it("should find when the calling window next opens", () => {
+    const window = parseCallingWindow("08:00-21:00")!;
+    const now = new Date("2026-10-19T13:00:00Z"); // 6am in Los Angeles, 9am in New York
+
+    expect(nextWindowOpening("America/Los_Angeles", window, now)).toEqual(new Date("2026-10-19T15:00:00Z"));
+    expect(nextWindowOpening("America/New_York", window, now)).toBeNull();
+    expect(nextWindowOpening("Pacific/Honolulu", window, now)).toEqual(new Date("2026-10-19T18:00:00Z"));
+    expect(parseCallingWindow("21:00-08:00")).toBeNull();
+    expect(parseCallingWindow("")).toBeNull();
+  });
+
+  it("should plan a hold for a contact outside the calling window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T13:00:00Z"));
+
+    const plan = await createService("08:00-21:00").planGhlContact({
+      id: "ghl-1",
+      name: "West Coast Lead",
+      phone: "(310) 234-5678",
+      tags: ["Cold Lead"],
+    });
+
+    expect(plan).toMatchObject({
+      rule: "ACA Cold Leads",
+      action: "held",
+      operations: [{ type: "hold", target: "2026-10-19T15:00:00.000Z" }],
+      reason: "Outside the calling window in America/Los_Angeles",
+    });
+  });
+
+  it("should route contacts to the bucket for their time zone", async () => {
+    await env.DB.prepare(`UPDATE segment_rules SET timezone_bucket_ids = ? WHERE name = ?`)
+      .bind("America/Los_Angeles=11303, America/New_York=11300", "ACA Cold Leads")
+      .run();
+    fetchMock
+      .get("https://api.calltools.com")
+      .intercept({ path: "/v1/api/contacts/?phone_number=%2B15552345678" })
+      .reply(200, { results: [] });
+
+    const plan = await createService().planGhlContact({
+      id: "ghl-2",
+      name: "Ann Lee",
+      phone: "(555) 234-5678",
+      state: "WA",
+      tags: ["Cold Lead"],
+    });
+
+    expect(plan.operations).toContainEqual({ type: "move_bucket", target: "11303", from: [] });
+  });
+
+  it("should release held contacts once their window opens", async () => {
+    const past = new Date(Date.now() - 60 * 1000).toISOString();
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO synced_contacts (ghl_contact_id, sync_status, held_until) VALUES ('ghl-due', 'held', ?)`,
+      ).bind(past),
+      env.DB.prepare(
+        `INSERT INTO synced_contacts (ghl_contact_id, sync_status, held_until) VALUES ('ghl-later', 'held', ?)`,
+      ).bind(future),
+    ]);
+
+    const service = createService("08:00-21:00");
+    expect(await service.releaseHeldContacts(10)).toEqual(["ghl-due"]);
+    expect(await service.releaseHeldContacts(10)).toEqual([]);
+
+    const released = await env.DB.prepare(`SELECT * FROM synced_contacts WHERE ghl_contact_id = ?`)
+      .bind("ghl-due")
+      .first<{ sync_status: string; held_until: string | null }>();
+    expect(released).toMatchObject({ sync_status: "pending", held_until: null });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  getQueueResult,
+  SELF,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import worker from "../../src/index";
+import { retryDelaySeconds } from "../../src/services/webhookQueueService";
+
+// Helper function to insert a dead letter directly and return its ID
+async function insertDeadLetter() {
+  const inserted = await env.DB.prepare(
+    `INSERT INTO webhook_dead_letters (message_id, source, ghl_contact_id, payload, attempts, last_error)
+     VALUES (?, ?, ?, ?, ?, ?) RETURNING id`,
+  )
+    .bind("msg-1", "webhook", "contact-1", JSON.stringify({ contact_id: "contact-1" }), 5, "CallTools API error: 503")
+    .first<{ id: number }>();
+  return inserted!.id;
+}
+
+describe("Webhook Queue Integration Tests", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+  });
+
+  describe("POST /webhook/ghl", () => {
+    it("should acknowledge and queue the contact", async () => {
+      const response = await SELF.fetch(`http://local.test/webhook/ghl`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "ContactTagUpdate", contact_id: "contact-1" }),
+      });
+      const body = await response.json<{ success: boolean; data: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.data).toEqual({ contact_id: "contact-1", action: "queued" });
+    });
+  });
+
+  describe("queue consumer", () => {
+    it("should retry a failed job with backoff", async () => {
+      const batch = createMessageBatch("ghl-webhook-sync", [
+        {
+          id: "msg-retry",
+          timestamp: new Date(),
+          attempts: 2,
+          body: { source: "workflow", ghl_contact_id: "contact-2", received_at: new Date().toISOString() },
+        },
+      ]);
+      const ctx = createExecutionContext();
+
+      await worker.queue(batch, env, ctx);
+      const result = await getQueueResult(batch, ctx);
+
+      expect(result.explicitAcks).toEqual([]);
+      expect(result.retryMessages.map((m: { msgId: string }) => m.msgId)).toEqual(["msg-retry"]);
+    });
+
+    it("should back off exponentially up to 15 minutes", () => {
+      expect([1, 2, 3, 4, 10].map(retryDelaySeconds)).toEqual([30, 60, 120, 240, 900]);
+    });
+
+    it("should dead-letter a job that exhausted its retries", async () => {
+      const batch = createMessageBatch("ghl-webhook-sync", [
+        {
+          id: "msg-dead",
+          timestamp: new Date(),
+          attempts: 5,
+          body: { source: "workflow", ghl_contact_id: "contact-3", received_at: new Date().toISOString() },
+        },
+      ]);
+      const ctx = createExecutionContext();
+
+      await worker.queue(batch, env, ctx);
+      const result = await getQueueResult(batch, ctx);
+
+      expect(result.explicitAcks).toEqual(["msg-dead"]);
+
+      const deadLetter = await env.DB.prepare(
+        "SELECT * FROM webhook_dead_letters WHERE message_id = ?",
+      )
+        .bind("msg-dead")
+        .first<any>();
+      expect(deadLetter).toEqual(
+        expect.objectContaining({
+          ghl_contact_id: "contact-3",
+          attempts: 5,
+          status: "dead",
+        }),
+      );
+    });
+  });
+
+  describe("POST /webhook/dead-letters/{id}/requeue", () => {
+    it("should requeue a dead letter", async () => {
+      const deadLetterId = await insertDeadLetter();
+
+      const response = await SELF.fetch(
+        `http://local.test/webhook/dead-letters/${deadLetterId}/requeue`,
+        { method: "POST" },
+      );
+      const body = await response.json<{ success: boolean; result: any }>();
+
+      expect(response.status).toBe(200);
+      expect(body.result).toEqual(
+        expect.objectContaining({
+          id: deadLetterId,
+          status: "requeued",
+          payload: { contact_id: "contact-1" },
+        }),
+      );
+    });
+
+    it("should return 404 for an unknown dead letter", async () => {
+      const response = await SELF.fetch(
+        `http://local.test/webhook/dead-letters/9999/requeue`,
+        { method: "POST" },
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
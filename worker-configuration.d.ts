@@ -4,10 +4,33 @@
 declare namespace Cloudflare {
 	interface Env {
 		DB: D1Database;
+		WEBHOOK_QUEUE: Queue;
+		CALLTOOLS_RATE_LIMITER: DurableObjectNamespace<import("./src/durableObjects/rateLimiter").CallToolsRateLimiter>;
 		GHL_API_KEY: string;
 		CALLTOOLS_API_KEY: string;
 		CALLTOOLS_BASE_URL?: string;
 		GHL_WEBHOOK_SECRET?: string;
+		INCREMENTAL_SYNC_MAX_PAGES?: string;
+		SYNC_RUN_CHUNK_SIZE?: string;
+		DEFAULT_PHONE_REGION?: string;
+		GHL_DELETE_POLICY?: string;
+		CALLING_WINDOW?: string;
+		HELD_RELEASE_BATCH_SIZE?: string;
+		GHL_API_VERSION?: string;
+		GHL_LOCATION_ID?: string;
+		GHL_CLIENT_ID?: string;
+		GHL_CLIENT_SECRET?: string;
+		GHL_OAUTH_SCOPES?: string;
+		CALLTOOLS_RATE_LIMIT_RPS?: string;
+		CALLTOOLS_RATE_LIMIT_BURST?: string;
+		RECONCILE_BATCH_SIZE?: string;
+		RECONCILE_AUTO_FIX?: string;
+		POLICY_LAPSED_BUCKET?: string;
+		POLICY_LAPSED_TAG?: string;
+		POLICY_ROLLOVER_BATCH_SIZE?: string;
+		RETRY_FAILED_BATCH_SIZE?: string;
+		RETRY_FAILED_MAX_ATTEMPTS?: string;
+		RETRY_FAILED_BASE_DELAY_MINUTES?: string;
 	}
 }
 interface Env extends Cloudflare.Env {}